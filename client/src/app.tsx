@@ -1,6 +1,6 @@
 import { Switch, Route, Link } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import PianoSoundboard from "@/pages/PianoSoundboard";
@@ -8,11 +8,26 @@ import Marketplace from "@/pages/Marketplace";
 import CreateSoundPack from "@/pages/CreateSoundPack";
 import SoundPackEditor from "@/pages/SoundPackEditor";
 import Sequencer from "@/pages/Sequencer";
+import Login from "@/pages/Login";
+import Register from "@/pages/Register";
+import ReviewModeration from "@/pages/ReviewModeration";
+import CreatorDashboard from "@/pages/CreatorDashboard";
+import Cart from "@/pages/Cart";
+import Redeem from "@/pages/Redeem";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+import { CartItemWithPack } from "@shared/schema";
 import { Button } from "@/components/ui/button";
-import { MusicIcon, ShoppingBagIcon, WavesIcon } from "lucide-react";
+import { BarChart3Icon, GiftIcon, LogInIcon, LogOutIcon, MusicIcon, ShieldCheckIcon, ShoppingBagIcon, ShoppingCartIcon, WavesIcon } from "lucide-react";
 
 // Navigation component
 function Navigation() {
+  const { user, logoutMutation } = useAuth();
+  const { data: cart = [] } = useQuery<CartItemWithPack[]>({
+    queryKey: [`/api/users/${user?.id}/cart`],
+    enabled: !!user,
+  });
+  
   return (
     <div className="fixed top-0 left-0 right-0 bg-background z-50 border-b border-border">
       <div className="container mx-auto px-4 py-2 flex justify-between items-center">
@@ -39,6 +54,55 @@ function Navigation() {
               Marketplace
             </Button>
           </Link>
+          {user && (
+            <Link href="/cart">
+              <Button variant="ghost">
+                <ShoppingCartIcon className="h-4 w-4 mr-2" />
+                Cart{cart.length > 0 && ` (${cart.length})`}
+              </Button>
+            </Link>
+          )}
+          {user && (
+            <Link href="/redeem">
+              <Button variant="ghost">
+                <GiftIcon className="h-4 w-4 mr-2" />
+                Redeem
+              </Button>
+            </Link>
+          )}
+          {user && (
+            <Link href="/dashboard">
+              <Button variant="ghost">
+                <BarChart3Icon className="h-4 w-4 mr-2" />
+                Earnings
+              </Button>
+            </Link>
+          )}
+          {user?.isAdmin && (
+            <Link href="/admin/reviews">
+              <Button variant="ghost">
+                <ShieldCheckIcon className="h-4 w-4 mr-2" />
+                Moderation
+              </Button>
+            </Link>
+          )}
+          {user ? (
+            <Button
+              variant="ghost"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOutIcon className="h-4 w-4 mr-2" />
+              Log out {user.username}
+            </Button>
+          ) : (
+            <Link href="/login">
+              <Button variant="ghost">
+                <LogInIcon className="h-4 w-4 mr-2" />
+                Log in
+              </Button>
+            </Link>
+          )}
         </div>
       </div>
     </div>
@@ -53,8 +117,14 @@ function Router() {
         <Route path="/" component={PianoSoundboard} />
         <Route path="/sequencer" component={Sequencer} />
         <Route path="/marketplace" component={Marketplace} />
-        <Route path="/create-soundpack" component={CreateSoundPack} />
-        <Route path="/soundpack/:id/edit" component={SoundPackEditor} />
+        <Route path="/login" component={Login} />
+        <Route path="/register" component={Register} />
+        <ProtectedRoute path="/create-soundpack" component={CreateSoundPack} />
+        <ProtectedRoute path="/soundpack/:id/edit" component={SoundPackEditor} />
+        <ProtectedRoute path="/cart" component={Cart} />
+        <ProtectedRoute path="/redeem" component={Redeem} />
+        <ProtectedRoute path="/dashboard" component={CreatorDashboard} />
+        <ProtectedRoute path="/admin/reviews" component={ReviewModeration} />
         <Route component={NotFound} />
       </Switch>
     </div>
@@ -64,8 +134,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
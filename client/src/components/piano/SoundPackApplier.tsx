@@ -30,32 +30,13 @@ export default function SoundPackApplier({
 }: SoundPackApplierProps) {
   const { toast } = useToast();
   
-  // Fetch all sound packs
+  // Fetch every pack the user can play: their own, bought and free ones
   const soundPacksQuery = useQuery({
-    queryKey: ['/api/soundpacks'],
+    queryKey: ['/api/soundpacks', 'playable'],
     queryFn: getQueryFn<SoundPack[]>({ on401: 'returnNull' }),
   });
   
-  // Fetch user purchases
-  const purchasesQuery = useQuery({
-    queryKey: ['/api/users/1/purchases'],
-    queryFn: getQueryFn<any[]>({ on401: 'returnNull' }),
-  });
-  
-  const soundPacks = soundPacksQuery.data || [];
-  const purchases = purchasesQuery.data || [];
-  
-  // Get the packs the user has access to
-  const availablePacks = soundPacks.filter(pack => {
-    // User owns the pack
-    if (pack.userId === 1) return true;
-    
-    // Pack is free
-    if (pack.price === 0) return true;
-    
-    // User has purchased the pack
-    return purchases.some(purchase => purchase.packId === pack.id);
-  });
+  const availablePacks = soundPacksQuery.data || [];
   
   // Handle applying a sound pack
   const handleApplySoundPack = async (packId: number) => {
@@ -87,7 +68,7 @@ export default function SoundPackApplier({
       }
       
       // Find the sound pack name
-      const packName = soundPacks.find(pack => pack.id === packId)?.name || 'Custom pack';
+      const packName = availablePacks.find(pack => pack.id === packId)?.name || 'Custom pack';
       
       toast({
         title: 'Sound Pack Applied',
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { AlertTriangle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import { apiRequest, ApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// Where in an archive a problem is, e.g. ['sounds', 2, 'note'] -> "Sound 3 (note)"
+export const describeIssuePath = (path: (string | number)[]) => {
+  const [section, index, ...rest] = path;
+  const item = section === 'sounds' ? 'Sound' : section === 'regions' ? 'Region' : null;
+  if (item && typeof index === 'number') {
+    return `${item} ${index + 1}` + (rest.length > 0 ? ` (${rest.join('.')})` : '');
+  }
+  return path.join('.') || 'Archive';
+};
+
+interface ArchiveImportDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  // Endpoint the zip is POSTed to, in the "archive" field
+  url: string;
+  // Called with the server's response once the import succeeds
+  onImported: (result: T) => void;
+}
+
+// Upload a zip to one of the import endpoints, listing each problem the
+// server finds in it
+export default function ArchiveImportDialog<T>({
+  open,
+  onOpenChange,
+  title,
+  description,
+  url,
+  onImported,
+}: ArchiveImportDialogProps<T>) {
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<File | undefined>();
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('archive', file);
+      const response = await apiRequest(url, 'POST', formData);
+      return response.json() as Promise<T>;
+    },
+    onSuccess: (result) => {
+      onOpenChange(false);
+      onImported(result);
+    },
+    onError: (error) => {
+      console.error('Error importing archive:', error);
+      // Per-file problems are listed in the dialog instead
+      if (error instanceof ApiError && error.errors.length > 0) return;
+      toast({
+        title: 'Import failed',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Start over every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setArchive(undefined);
+      importMutation.reset();
+    }
+  }, [open]);
+
+  const issues = importMutation.error instanceof ApiError ? importMutation.error.errors : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (archive) importMutation.mutate(archive);
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="import-archive">Zip File</Label>
+            <Input
+              id="import-archive"
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => {
+                setArchive(e.target.files?.[0]);
+                importMutation.reset();
+              }}
+            />
+          </div>
+
+          {issues.length > 0 && (
+            <div className="rounded-md border border-destructive/50 p-3 text-sm">
+              <div className="flex items-center gap-2 font-medium text-destructive mb-2">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {importMutation.error!.message.replace(/^\d+: /, '')}
+              </div>
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {issues.map((issue, i) => (
+                  <li key={i}>
+                    <span className="font-medium">{describeIssuePath(issue.path)}:</span> {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!archive || importMutation.isPending}>
+              {importMutation.isPending ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
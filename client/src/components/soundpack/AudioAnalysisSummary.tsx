@@ -0,0 +1,63 @@
+import { AlertTriangle } from 'lucide-react';
+
+import { CLIPPING_LEVEL, SILENCE_LEVEL, Sound } from '@shared/schema';
+
+// Linear level (0-1) to decibels relative to full scale
+const toDecibels = (level: number) => level > 0 ? `${(20 * Math.log10(level)).toFixed(1)} dB` : '-∞ dB';
+
+const formatChannels = (channels: number) => {
+  if (channels === 1) return 'Mono';
+  if (channels === 2) return 'Stereo';
+  return `${channels} ch`;
+};
+
+interface AudioAnalysisSummaryProps {
+  sound: Sound;
+}
+
+// What the server measured in a sound's uploaded file, with warnings for
+// samples that will sound wrong on the piano
+export default function AudioAnalysisSummary({ sound }: AudioAnalysisSummaryProps) {
+  const { duration, sampleRate, channels, peak, rms, leadingSilence } = sound;
+  if (duration === null || sampleRate === null || channels === null || peak === null || rms === null || leadingSilence === null) {
+    return null;
+  }
+
+  const stats = [
+    { label: 'Length', value: `${duration.toFixed(2)} s` },
+    { label: 'Rate', value: `${(sampleRate / 1000).toFixed(1)} kHz` },
+    { label: 'Channels', value: formatChannels(channels) },
+    { label: 'Peak', value: toDecibels(peak) },
+    { label: 'RMS', value: toDecibels(rms) },
+    { label: 'Lead-in', value: `${Math.round(leadingSilence * 1000)} ms` },
+  ];
+
+  const warnings: string[] = [];
+  if (peak >= CLIPPING_LEVEL) {
+    warnings.push('This sample reaches full scale and is probably clipped.');
+  }
+  if (peak <= SILENCE_LEVEL) {
+    warnings.push('This sample is silent.');
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="text-xs font-medium text-gray-500 mb-1">Audio</div>
+      <div className="grid grid-cols-3 gap-x-2 gap-y-1 text-xs">
+        {stats.map(({ label, value }) => (
+          <div key={label} className="flex flex-col">
+            <span className="text-gray-400">{label}</span>
+            <span>{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {warnings.map((warning) => (
+        <div key={warning} className="flex items-center gap-1 mt-2 text-xs text-amber-600">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          <span>{warning}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Check, Gift, Loader2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { BundleWithPacks, CartQuote, OrderWithItems, PaymentMethods } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import GiftDialog from './GiftDialog';
+
+const formatPrice = (price: number) => price === 0 ? 'Free' : `$${(price / 100).toFixed(2)}`;
+
+interface BundleDialogProps {
+  bundle: BundleWithPacks;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// A bundle's packs and what it costs the viewer, who only pays for the packs
+// they don't have yet
+export default function BundleDialog({ bundle, open, onOpenChange }: BundleDialogProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [giftDialogOpen, setGiftDialogOpen] = useState(false);
+  const purchaseKey = useIdempotencyKey();
+
+  const isOwnBundle = !!user && bundle.userId === user.id;
+  const quoteKey = `/api/users/${user?.id}/bundles/${bundle.id}/quote`;
+  const { data: quote, error: quoteError } = useQuery<CartQuote>({
+    queryKey: [quoteKey],
+    enabled: open && !!user && !isOwnBundle,
+    retry: false,
+  });
+  const { data: payment } = useQuery<PaymentMethods>({
+    queryKey: ['/api/payment-methods'],
+    enabled: open && !!user,
+  });
+
+  // Start on the first method the provider offers
+  useEffect(() => {
+    if (!paymentMethod && payment?.methods.length) {
+      setPaymentMethod(payment.methods[0].id);
+    }
+  }, [payment]);
+
+  const listTotal = bundle.packs.reduce((total, pack) => total + pack.price, 0);
+  const credited = new Set(quote?.items.map((item) => item.packId));
+  const total = quote?.total ?? bundle.price;
+
+  const purchaseMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`/api/users/${user!.id}/purchases`, 'POST', {
+        bundleId: bundle.id,
+        paymentMethod: total > 0 ? paymentMethod || undefined : undefined,
+      }, purchaseKey.headers());
+      return (await res.json()) as OrderWithItems;
+    },
+    onSettled: (_order, error) => purchaseKey.settle(error),
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user!.id}/purchases`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user!.id}/orders`] });
+      queryClient.invalidateQueries({ queryKey: [quoteKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+      toast(order.status === 'pending' ? {
+        title: 'Waiting for your payment',
+        description: 'The packs will be yours once the payment is confirmed. Your cart shows how it goes.',
+      } : {
+        title: 'Success!',
+        description: `${order.items.length} ${order.items.length === 1 ? 'sound pack is' : 'sound packs are'} now yours.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error('Error purchasing bundle:', error);
+      queryClient.invalidateQueries({ queryKey: [quoteKey] });
+      toast({
+        title: 'Purchase failed',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handlePurchase = () => {
+    // Purchases belong to an account, so send visitors to log in first
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    purchaseMutation.mutate();
+  };
+
+  const handleGift = () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    setGiftDialogOpen(true);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{bundle.name}</DialogTitle>
+            <DialogDescription>
+              {bundle.packs.length} sound packs for {formatPrice(bundle.price)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            {bundle.imageUrl && (
+              <div
+                className="h-48 bg-cover bg-center rounded-md"
+                style={{ backgroundImage: `url(${bundle.imageUrl})` }}
+              />
+            )}
+
+            {bundle.description && (
+              <p className="text-sm text-gray-500">{bundle.description}</p>
+            )}
+
+            <div className="flex flex-col gap-1.5">
+              <h3 className="font-medium">Included</h3>
+              <ul className="divide-y text-sm">
+                {bundle.packs.map((pack) => (
+                  <li key={pack.id} className="flex justify-between items-center py-2">
+                    <span>{pack.name}</span>
+                    {quote && !credited.has(pack.id) ? (
+                      <span className="flex items-center text-gray-500">
+                        <Check className="h-4 w-4 mr-1" />
+                        Already yours
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">{formatPrice(pack.price)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-4 sm:items-end justify-between">
+              <div className="flex flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  {listTotal > bundle.price && (
+                    <span className="text-sm text-gray-500 line-through">{formatPrice(listTotal)}</span>
+                  )}
+                  <Badge>{formatPrice(total)}</Badge>
+                </div>
+                {quote && quote.total < bundle.price && (
+                  <p className="text-sm text-gray-500">Less the packs you already have</p>
+                )}
+                {quoteError && (
+                  <p className="text-sm text-destructive">{quoteError.message.replace(/^\d+: /, '')}</p>
+                )}
+              </div>
+
+              {!isOwnBundle && (
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                  {user && total > 0 && payment && payment.methods.length > 0 && (
+                    <div className="space-y-1">
+                      <Label>Payment method</Label>
+                      <Select value={paymentMethod} onValueChange={setPaymentMethod} disabled={purchaseMutation.isPending}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue placeholder="Choose a payment method" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {payment.methods.map((method) => (
+                            <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <Button variant="outline" onClick={handleGift}>
+                    <Gift className="h-4 w-4 mr-2" />
+                    Give as Gift
+                  </Button>
+                  <Button onClick={handlePurchase} disabled={purchaseMutation.isPending || !!quoteError}>
+                    {purchaseMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {total === 0 ? 'Get for Free' : 'Buy Bundle'}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <GiftDialog
+        bundleId={bundle.id}
+        name={bundle.name}
+        price={bundle.price}
+        open={giftDialogOpen}
+        onOpenChange={setGiftDialogOpen}
+      />
+    </>
+  );
+}
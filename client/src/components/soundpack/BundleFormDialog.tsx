@@ -0,0 +1,227 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+
+import { BundleWithPacks, SoundPack, insertBundleSchema } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// The server validates against the same schema; the image travels as a file
+const bundleFormSchema = insertBundleSchema.extend({
+  imageFile: z.instanceof(File).optional(),
+});
+
+type BundleFormValues = z.infer<typeof bundleFormSchema>;
+
+interface BundleFormDialogProps {
+  bundle?: BundleWithPacks; // The bundle to edit; a new one is made without
+  packs: SoundPack[]; // The creator's packs to choose from
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function BundleFormDialog({ bundle, packs, open, onOpenChange }: BundleFormDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<BundleFormValues>({
+    resolver: zodResolver(bundleFormSchema),
+  });
+
+  // Start from the bundle's current values every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: bundle?.name ?? '',
+        description: bundle?.description || '',
+        price: bundle?.price ?? 0,
+        isPublic: bundle?.isPublic ?? true,
+        packIds: bundle?.packs.map((pack) => pack.id) ?? [],
+      });
+    }
+  }, [open, bundle]);
+
+  const packIds = form.watch('packIds') ?? [];
+  const listTotal = packs
+    .filter((pack) => packIds.includes(pack.id))
+    .reduce((total, pack) => total + pack.price, 0);
+
+  const saveBundleMutation = useMutation({
+    mutationFn: async ({ imageFile, packIds, ...data }: BundleFormValues) => {
+      const formData = new FormData();
+      for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) {
+          formData.append(key, String(value));
+        }
+      }
+      formData.append('packIds', JSON.stringify(packIds));
+
+      if (imageFile) {
+        formData.append('image', imageFile);
+      }
+
+      return bundle
+        ? apiRequest(`/api/bundles/${bundle.id}`, 'PATCH', formData)
+        : apiRequest('/api/bundles', 'POST', formData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bundles'] });
+      toast({
+        title: bundle ? 'Bundle updated' : 'Bundle created',
+        description: bundle ? 'Your changes have been saved.' : `${form.getValues('name')} is ready to sell.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error('Error saving bundle:', error);
+      toast({
+        title: 'Failed to save bundle',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{bundle ? 'Edit Bundle' : 'New Bundle'}</DialogTitle>
+          <DialogDescription>
+            Sell several of your sound packs together for one price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveBundleMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bundle Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Complete Keys Collection" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-24" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="packIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sound packs</FormLabel>
+                  <div className="max-h-40 overflow-y-auto space-y-2 pt-1">
+                    {packs.map((pack) => (
+                      <label key={pack.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value?.includes(pack.id)}
+                          // Only public packs can be sold in a bundle
+                          disabled={!pack.isPublic && !field.value?.includes(pack.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked
+                              ? [...(field.value ?? []), pack.id]
+                              : field.value?.filter((id) => id !== pack.id))
+                          }
+                        />
+                        {pack.name}
+                        <span className="text-gray-500">
+                          ${(pack.price / 100).toFixed(2)}{!pack.isPublic && ' (private)'}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price (in cents)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="1" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    The packs cost ${(listTotal / 100).toFixed(2)} on their own. Buyers who already
+                    have some of them pay less.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isPublic"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between">
+                  <div className="space-y-0.5">
+                    <FormLabel>Make Public</FormLabel>
+                    <FormDescription>
+                      Show this bundle to everyone in the marketplace
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormItem>
+              <FormLabel htmlFor="bundle-image-upload">{bundle?.imageUrl ? 'Replace Image' : 'Image'}</FormLabel>
+              <Input
+                id="bundle-image-upload"
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                onChange={(e) => form.setValue('imageFile', e.target.files?.[0])}
+              />
+            </FormItem>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveBundleMutation.isPending}>
+                {saveBundleMutation.isPending ? 'Saving...' : bundle ? 'Save Changes' : 'Create Bundle'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
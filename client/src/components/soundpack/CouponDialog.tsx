@@ -0,0 +1,228 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { SoundPack, couponCodeSchema, DISCOUNT_TYPES, InsertCoupon } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// Fixed discounts are entered in dollars and the expiry as a day; they're
+// turned into cents and the end of that day before sending
+const couponFormSchema = z.object({
+  code: couponCodeSchema,
+  discountType: z.enum(DISCOUNT_TYPES),
+  amount: z.coerce.number().positive({ message: 'The discount must be more than 0' }),
+  expiresOn: z.string(),
+  maxUses: z.string().trim().regex(/^\d*$/, { message: 'Enter a whole number' }),
+  packIds: z.array(z.number()),
+}).refine(({ discountType, amount }) => discountType !== 'percent' || (Number.isInteger(amount) && amount <= 100), {
+  message: 'A percentage discount is a whole number up to 100',
+  path: ['amount'],
+});
+
+type CouponFormValues = z.infer<typeof couponFormSchema>;
+
+const defaultValues: CouponFormValues = {
+  code: '',
+  discountType: 'percent',
+  amount: 10,
+  expiresOn: '',
+  maxUses: '',
+  packIds: [],
+};
+
+interface CouponDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: number;
+  packs: SoundPack[]; // The creator's packs, to limit the coupon to
+}
+
+export default function CouponDialog({ open, onOpenChange, userId, packs }: CouponDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(defaultValues);
+    }
+  }, [open]);
+
+  const discountType = form.watch('discountType');
+
+  const createMutation = useMutation({
+    mutationFn: async ({ amount, expiresOn, maxUses, ...values }: CouponFormValues) => {
+      const coupon: Omit<InsertCoupon, 'expiresAt'> & { expiresAt?: string } = {
+        ...values,
+        amount: values.discountType === 'fixed' ? Math.round(amount * 100) : amount,
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+        maxUses: maxUses ? parseInt(maxUses) : undefined,
+      };
+      return await apiRequest(`/api/creators/${userId}/coupons`, 'POST', coupon);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/creators/${userId}/coupons`] });
+      toast({
+        title: 'Coupon created',
+        description: `Buyers can now enter ${form.getValues('code').toUpperCase()} at checkout.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error('Error creating coupon:', error);
+      toast({
+        title: 'Could not create coupon',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Coupon</DialogTitle>
+          <DialogDescription>
+            A code buyers can enter at checkout for a discount on your sound packs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. SUMMER25" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percent">Percent off</SelectItem>
+                        <SelectItem value="fixed">Amount off each pack</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{discountType === 'percent' ? 'Percent' : 'Amount ($)'}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step={discountType === 'percent' ? 1 : 0.01} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="expiresOn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Last day</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to never expire</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxUses"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Uses</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormDescription>Orders it can be used on</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="packIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sound packs</FormLabel>
+                  <FormDescription>Leave all unticked for the coupon to work on every pack</FormDescription>
+                  <div className="max-h-40 overflow-y-auto space-y-2 pt-1">
+                    {packs.map((pack) => (
+                      <label key={pack.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(pack.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked
+                              ? [...field.value, pack.id]
+                              : field.value.filter((id) => id !== pack.id))
+                          }
+                        />
+                        {pack.name}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? 'Creating...' : 'Create Coupon'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { ADSREnvelope, NOTES, Sound, WAVEFORMS, updateSoundSchema } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// The server validates against the same schema; a replacement sample travels as a file
+const editSoundSchema = updateSoundSchema.extend({
+  soundFile: z.instanceof(File).optional(),
+});
+
+type EditSoundFormValues = z.infer<typeof editSoundSchema>;
+
+// Slider ranges match adsrEnvelopeSchema
+const ENVELOPE_FIELDS = [
+  { name: 'attack', label: 'Attack', max: 2, unit: 's' },
+  { name: 'decay', label: 'Decay', max: 2, unit: 's' },
+  { name: 'sustain', label: 'Sustain', max: 1, unit: '' },
+  { name: 'release', label: 'Release', max: 5, unit: 's' },
+] as const;
+
+interface EditSoundDialogProps {
+  sound: Sound | null;
+  onClose: () => void;
+}
+
+export default function EditSoundDialog({ sound, onClose }: EditSoundDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<EditSoundFormValues>({
+    resolver: zodResolver(editSoundSchema),
+  });
+
+  useEffect(() => {
+    if (sound) {
+      form.reset({
+        name: sound.name,
+        note: sound.note as EditSoundFormValues['note'],
+        octave: sound.octave,
+        waveform: sound.waveform as EditSoundFormValues['waveform'],
+        envelope: sound.envelope as ADSREnvelope,
+      });
+    }
+  }, [sound]);
+
+  const updateSoundMutation = useMutation({
+    mutationFn: async ({ soundFile, envelope, ...data }: EditSoundFormValues) => {
+      const formData = new FormData();
+      for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) {
+          formData.append(key, String(value));
+        }
+      }
+
+      if (envelope) {
+        formData.append('envelope', JSON.stringify(envelope));
+      }
+
+      if (soundFile) {
+        formData.append('soundFile', soundFile);
+      }
+
+      return apiRequest(`/api/sounds/${sound!.id}`, 'PATCH', formData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/soundpacks', sound!.packId] });
+      toast({
+        title: 'Sound updated',
+        description: 'Your changes have been saved.',
+      });
+      onClose();
+    },
+    onError: (error) => {
+      console.error('Error updating sound:', error);
+      toast({
+        title: 'Failed to update sound',
+        description: 'There was an error saving your changes. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!sound} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Sound</DialogTitle>
+          <DialogDescription>
+            Change how this sound is played.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateSoundMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sound Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Note</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {NOTES.map((note) => (
+                          <SelectItem key={note} value={note}>{note}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="octave"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Octave</FormLabel>
+                    <Select
+                      value={field.value?.toString()}
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {[1, 2, 3, 4, 5, 6, 7, 8].map((octave) => (
+                          <SelectItem key={octave} value={octave.toString()}>
+                            {octave}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="waveform"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Waveform</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {WAVEFORMS.map((waveform) => (
+                          <SelectItem key={waveform} value={waveform}>{waveform}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium">ADSR Envelope</h3>
+              {ENVELOPE_FIELDS.map(({ name, label, max, unit }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={`envelope.${name}`}
+                  render={({ field }) => (
+                    <FormItem className="space-y-1">
+                      <FormLabel className="text-xs">
+                        {label}: {(field.value ?? 0).toFixed(2)}{unit}
+                      </FormLabel>
+                      <FormControl>
+                        <Slider
+                          min={0}
+                          max={max}
+                          step={0.01}
+                          value={[field.value ?? 0]}
+                          onValueChange={(values) => field.onChange(values[0])}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormItem>
+              <FormLabel htmlFor="edit-sound-upload">Replace Audio File</FormLabel>
+              <Input
+                id="edit-sound-upload"
+                type="file"
+                accept=".wav,.mp3,.ogg,.flac"
+                onChange={(e) => form.setValue('soundFile', e.target.files?.[0])}
+              />
+            </FormItem>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateSoundMutation.isPending}>
+                {updateSoundMutation.isPending ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
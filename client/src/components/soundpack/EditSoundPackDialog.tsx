@@ -0,0 +1,205 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+
+import { SoundPack, Tag, updateSoundPackSchema } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import TagPicker from './TagPicker';
+
+// The server validates against the same schema; the image travels as a file
+const editSoundPackSchema = updateSoundPackSchema.extend({
+  imageFile: z.instanceof(File).optional(),
+});
+
+type EditSoundPackFormValues = z.infer<typeof editSoundPackSchema>;
+
+interface EditSoundPackDialogProps {
+  soundPack: SoundPack & { tags?: Tag[] };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function EditSoundPackDialog({ soundPack, open, onOpenChange }: EditSoundPackDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<EditSoundPackFormValues>({
+    resolver: zodResolver(editSoundPackSchema),
+  });
+
+  // Start from the pack's current values every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: soundPack.name,
+        description: soundPack.description || '',
+        price: soundPack.price,
+        isPublic: soundPack.isPublic,
+        tags: soundPack.tags?.map((tag) => tag.name) ?? [],
+      });
+    }
+  }, [open, soundPack]);
+
+  const updateSoundPackMutation = useMutation({
+    mutationFn: async ({ imageFile, tags, ...data }: EditSoundPackFormValues) => {
+      const formData = new FormData();
+      for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) {
+          formData.append(key, String(value));
+        }
+      }
+
+      if (tags) {
+        formData.append('tags', JSON.stringify(tags));
+      }
+
+      if (imageFile) {
+        formData.append('image', imageFile);
+      }
+
+      return apiRequest(`/api/soundpacks/${soundPack.id}`, 'PATCH', formData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      toast({
+        title: 'Sound pack updated',
+        description: 'Your changes have been saved.',
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error('Error updating sound pack:', error);
+      toast({
+        title: 'Failed to update sound pack',
+        description: 'There was an error saving your changes. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Sound Pack</DialogTitle>
+          <DialogDescription>
+            Update the details shown in the marketplace.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateSoundPackMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sound Pack Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-24" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <TagPicker value={field.value ?? []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Price (in cents)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="1" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Set to 0 for a free sound pack
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="isPublic"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between">
+                  <div className="space-y-0.5">
+                    <FormLabel>Make Public</FormLabel>
+                    <FormDescription>
+                      Show this pack to everyone in the marketplace
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormItem>
+              <FormLabel htmlFor="edit-image-upload">Replace Image</FormLabel>
+              <Input
+                id="edit-image-upload"
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                onChange={(e) => form.setValue('imageFile', e.target.files?.[0])}
+              />
+            </FormItem>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateSoundPackMutation.isPending}>
+                {updateSoundPackMutation.isPending ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Copy, Gift, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { OrderWithItems, PaymentMethods } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+
+const formatPrice = (price: number) => price === 0 ? 'Free' : `$${(price / 100).toFixed(2)}`;
+
+interface GiftDialogProps {
+  // The pack or the bundle to give, with what it's called and costs
+  packId?: number;
+  bundleId?: number;
+  name: string;
+  price: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pay for a pack or bundle for someone else and get the gift code to send them
+export default function GiftDialog({ packId, bundleId, name, price, open, onOpenChange }: GiftDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [paymentMethod, setPaymentMethod] = useState('');
+  // The gift order once it's been paid for, or is waiting for the payment
+  const [order, setOrder] = useState<OrderWithItems | null>(null);
+  const giftKey = useIdempotencyKey();
+
+  const { data: payment } = useQuery<PaymentMethods>({
+    queryKey: ['/api/payment-methods'],
+    enabled: open,
+  });
+
+  // Start on the first method the provider offers
+  useEffect(() => {
+    if (!paymentMethod && payment?.methods.length) {
+      setPaymentMethod(payment.methods[0].id);
+    }
+  }, [payment]);
+
+  // Each time the dialog opens is a new gift
+  useEffect(() => {
+    if (open) setOrder(null);
+  }, [open]);
+
+  const giftMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`/api/users/${user!.id}/purchases`, 'POST', {
+        packId,
+        bundleId,
+        gift: true,
+        paymentMethod: price > 0 ? paymentMethod || undefined : undefined,
+      }, giftKey.headers());
+      return (await res.json()) as OrderWithItems;
+    },
+    onSettled: (_order, error) => giftKey.settle(error),
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user!.id}/orders`] });
+      setOrder(order);
+    },
+    onError: (error) => {
+      console.error('Error buying gift:', error);
+      toast({
+        title: 'Purchase failed',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const copyCode = async () => {
+    await navigator.clipboard.writeText(order!.giftCode!);
+    toast({ title: 'Copied', description: 'The gift code is on your clipboard.' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Give {name}</DialogTitle>
+          <DialogDescription>
+            You pay {formatPrice(price)} and get a code to send. Whoever redeems it gets the sound packs.
+          </DialogDescription>
+        </DialogHeader>
+
+        {order?.status === 'paid' ? (
+          <div className="space-y-2 py-4">
+            <Label htmlFor="gift-code">Gift code</Label>
+            <div className="flex gap-2">
+              <Input id="gift-code" readOnly value={order.giftCode ?? ''} className="font-mono" />
+              <Button type="button" variant="outline" onClick={copyCode}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500">
+              It can be redeemed once, on the Redeem page. You'll also find it in your purchase history.
+            </p>
+          </div>
+        ) : order?.status === 'pending' ? (
+          <p className="text-sm text-gray-500 py-4">
+            The gift code will be in your purchase history once the payment is confirmed.
+          </p>
+        ) : price > 0 && payment && payment.methods.length > 0 && (
+          <div className="space-y-1 py-4">
+            <Label>Payment method</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod} disabled={giftMutation.isPending}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a payment method" />
+              </SelectTrigger>
+              <SelectContent>
+                {payment.methods.map((method) => (
+                  <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          {order ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => giftMutation.mutate()} disabled={giftMutation.isPending}>
+                {giftMutation.isPending
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Gift className="h-4 w-4 mr-2" />}
+                {price === 0 ? 'Get Gift Code' : `Pay ${formatPrice(price)}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+import { Badge } from '@/components/ui/badge';
+import { PricedSoundPack } from '@shared/schema';
+
+// What the pack costs right now, its sale price while it's on sale
+export const currentPrice = (pack: PricedSoundPack) => pack.sale?.price ?? pack.price;
+
+const formatPrice = (price: number) => price === 0 ? 'Free' : `$${(price / 100).toFixed(2)}`;
+
+interface PriceTagProps {
+  pack: PricedSoundPack;
+}
+
+// A pack's price badge; packs on sale show the list price struck through
+export default function PriceTag({ pack }: PriceTagProps) {
+  const price = currentPrice(pack);
+
+  return (
+    <div className="flex items-center gap-2 shrink-0">
+      {pack.sale && (
+        <span
+          className="text-sm text-gray-500 line-through"
+          title={`Sale ends ${new Date(pack.sale.endsAt).toLocaleString()}`}
+        >
+          {formatPrice(pack.price)}
+        </span>
+      )}
+      <Badge variant={pack.sale ? 'destructive' : price > 0 ? 'default' : 'secondary'}>
+        {formatPrice(price)}
+      </Badge>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+
+import { Review, insertReviewReportSchema } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// The server fills in who is reporting which review
+const reportReviewSchema = insertReviewReportSchema.pick({ reason: true });
+
+type ReportReviewFormValues = z.infer<typeof reportReviewSchema>;
+
+interface ReportReviewDialogProps {
+  review: Review | null;
+  onClose: () => void;
+}
+
+export default function ReportReviewDialog({ review, onClose }: ReportReviewDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<ReportReviewFormValues>({
+    resolver: zodResolver(reportReviewSchema),
+    defaultValues: { reason: '' },
+  });
+
+  useEffect(() => {
+    if (review) {
+      form.reset({ reason: '' });
+    }
+  }, [review]);
+
+  const reportMutation = useMutation({
+    mutationFn: async (data: ReportReviewFormValues) => {
+      return await apiRequest(`/api/reviews/${review!.id}/reports`, 'POST', data);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Review reported',
+        description: 'Thanks, an admin will take a look.',
+      });
+      onClose();
+    },
+    onError: (error) => {
+      console.error('Error reporting review:', error);
+      toast({
+        title: 'Report failed',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!review} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report Review</DialogTitle>
+          <DialogDescription>
+            Tell us what's wrong with this review. Reported reviews are checked by an admin.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => reportMutation.mutate(data))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="e.g. Spam, offensive language, not about this pack" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={reportMutation.isPending}>
+                {reportMutation.isPending ? 'Reporting...' : 'Report'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
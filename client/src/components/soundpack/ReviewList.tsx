@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Star, Flag } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+import { Review } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+import ReportReviewDialog from '@/components/soundpack/ReportReviewDialog';
+
+interface ReviewListProps {
+  reviews: Review[];
+}
+
+// Reviews of a pack as the server lets the viewer see them: everyone gets
+// the published ones, authors also see their own held or hidden review.
+export default function ReviewList({ reviews }: ReviewListProps) {
+  const { user } = useAuth();
+  const [reportedReview, setReportedReview] = useState<Review | null>(null);
+
+  if (reviews.length === 0) {
+    return <p className="text-sm text-gray-500">No reviews yet</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3 max-h-64 overflow-y-auto">
+      {reviews.map((review) => (
+        <div key={review.id} className="flex flex-col gap-1 text-sm">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="flex text-amber-500">
+                {Array.from({ length: 5 }, (_, i) => (
+                  <Star key={i} className={`h-3.5 w-3.5 ${i < review.rating ? 'fill-current' : ''}`} />
+                ))}
+              </span>
+              {review.status === 'pending' && <Badge variant="secondary">Awaiting approval</Badge>}
+              {review.status === 'hidden' && <Badge variant="destructive">Hidden</Badge>}
+            </div>
+            {user && review.userId !== user.id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-gray-500"
+                onClick={() => setReportedReview(review)}
+              >
+                <Flag className="h-3.5 w-3.5 mr-1" />
+                Report
+              </Button>
+            )}
+          </div>
+          {review.comment && <p className="text-gray-600">{review.comment}</p>}
+        </div>
+      ))}
+
+      <ReportReviewDialog review={reportedReview} onClose={() => setReportedReview(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import { SalePrice, SoundPack } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+const formatPrice = (price: number) => price === 0 ? 'Free' : `$${(price / 100).toFixed(2)}`;
+
+interface SalePricesProps {
+  soundPack: SoundPack;
+}
+
+// Scheduled sale prices of a pack, for its creator to add and remove
+export default function SalePrices({ soundPack }: SalePricesProps) {
+  const { toast } = useToast();
+  // The price in dollars; the times are datetime-local values in local time
+  const [price, setPrice] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+
+  const queryKey = [`/api/soundpacks/${soundPack.id}/sale-prices`];
+  const { data: sales = [] } = useQuery<SalePrice[]>({ queryKey });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/soundpacks/${soundPack.id}/sale-prices`, 'POST', {
+        price: Math.round(parseFloat(price) * 100),
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setPrice('');
+      setStartsAt('');
+      setEndsAt('');
+      toast({
+        title: 'Sale scheduled',
+        description: `${soundPack.name} will be ${formatPrice(Math.round(parseFloat(price) * 100))} during the sale.`,
+      });
+    },
+    onError: (error) => {
+      console.error('Error scheduling sale:', error);
+      toast({
+        title: 'Could not schedule sale',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sale: SalePrice) => {
+      return await apiRequest(`/api/soundpacks/${soundPack.id}/sale-prices/${sale.id}`, 'DELETE');
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error('Error deleting sale:', error);
+      toast({
+        title: 'Could not delete sale',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cents = Math.round(parseFloat(price) * 100);
+    let problem: string | undefined;
+    if (!Number.isFinite(cents) || cents < 0) {
+      problem = 'Enter the sale price';
+    } else if (cents >= soundPack.price) {
+      problem = 'The sale price must be lower than the price of the sound pack';
+    } else if (!startsAt || !endsAt) {
+      problem = 'Pick when the sale starts and ends';
+    } else if (new Date(startsAt) >= new Date(endsAt)) {
+      problem = 'The sale must end after it starts';
+    }
+
+    if (problem) {
+      toast({ title: 'Could not schedule sale', description: problem, variant: 'destructive' });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const handleDelete = (sale: SalePrice) => {
+    if (window.confirm(`Delete the sale at ${formatPrice(sale.price)}?`)) {
+      deleteMutation.mutate(sale);
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Sales</CardTitle>
+        <CardDescription>
+          Lower the price of this pack for a while. It goes back to {formatPrice(soundPack.price)} when the sale ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sales.length > 0 && (
+          <ul className="divide-y">
+            {sales.map((sale) => {
+              const status = new Date(sale.endsAt) <= now
+                ? 'Ended'
+                : new Date(sale.startsAt) <= now ? 'On now' : 'Scheduled';
+              return (
+                <li key={sale.id} className="flex items-center justify-between py-2 text-sm">
+                  <div className="flex items-center gap-3">
+                    <Badge variant={status === 'On now' ? 'destructive' : 'outline'}>{status}</Badge>
+                    <span className="font-medium">{formatPrice(sale.price)}</span>
+                    <span className="text-gray-500">
+                      {new Date(sale.startsAt).toLocaleString()} – {new Date(sale.endsAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => handleDelete(sale)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {soundPack.price === 0 ? (
+          <p className="text-sm text-gray-500">Free sound packs can't go on sale.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col md:flex-row gap-2 md:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="sale-price">Sale price ($)</Label>
+              <Input
+                id="sale-price"
+                type="number"
+                min={0}
+                step={0.01}
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="md:w-32"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sale-starts">Starts</Label>
+              <Input
+                id="sale-starts"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sale-ends">Ends</Label>
+              <Input
+                id="sale-ends"
+                type="datetime-local"
+                value={endsAt}
+                min={startsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? 'Scheduling...' : 'Schedule Sale'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
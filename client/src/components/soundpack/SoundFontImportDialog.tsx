@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { Sound } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// As listed by POST /api/soundpacks/:packId/sf2/presets
+interface SoundFontPreset {
+  index: number;
+  name: string;
+  bank: number;
+  program: number;
+  keys: number;
+}
+
+interface SoundFontSummary {
+  name: string;
+  presets: SoundFontPreset[];
+}
+
+interface SoundFontImportDialogProps {
+  packId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Bank and program as most synths show them, e.g. "000:005"
+const presetNumber = (preset: SoundFontPreset) =>
+  `${String(preset.bank).padStart(3, '0')}:${String(preset.program).padStart(3, '0')}`;
+
+const errorMessage = (error: Error) => error.message.replace(/^\d+: /, '');
+
+// Pick an .sf2 file, then one of its presets, and add a sound per key the
+// preset plays. The server doesn't keep the file between the two steps, so
+// it's sent again for the import.
+export default function SoundFontImportDialog({ packId, open, onOpenChange }: SoundFontImportDialogProps) {
+  const { toast } = useToast();
+  const [soundFont, setSoundFont] = useState<File | undefined>();
+  const [preset, setPreset] = useState<string>('');
+
+  const postSoundFont = (url: string, file: File, fields: Record<string, string> = {}) => {
+    const formData = new FormData();
+    formData.append('soundfont', file);
+    for (const [name, value] of Object.entries(fields)) {
+      formData.append(name, value);
+    }
+    return apiRequest(url, 'POST', formData);
+  };
+
+  const presetsMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await postSoundFont(`/api/soundpacks/${packId}/sf2/presets`, file);
+      return response.json() as Promise<SoundFontSummary>;
+    },
+    onSuccess: (summary) => {
+      // Start on the first preset that has anything to import
+      const first = summary.presets.find((candidate) => candidate.keys > 0);
+      setPreset(first ? String(first.index) : '');
+    },
+    onError: (error) => {
+      console.error('Error reading SoundFont:', error);
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ file, index }: { file: File; index: string }) => {
+      const response = await postSoundFont(`/api/soundpacks/${packId}/sf2`, file, { preset: index });
+      return response.json() as Promise<Sound[]>;
+    },
+    onSuccess: (sounds) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/soundpacks', packId] });
+      toast({
+        title: `${sounds.length} ${sounds.length === 1 ? 'sound' : 'sounds'} imported`,
+        description: `Added from the "${chosen?.name}" preset.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error('Error importing SoundFont:', error);
+      toast({
+        title: 'Import failed',
+        description: errorMessage(error),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Start over every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSoundFont(undefined);
+      setPreset('');
+      presetsMutation.reset();
+      importMutation.reset();
+    }
+  }, [open]);
+
+  const summary = presetsMutation.data;
+  const chosen = summary?.presets.find((candidate) => String(candidate.index) === preset);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import SoundFont</DialogTitle>
+          <DialogDescription>
+            Add one preset of an .sf2 bank to this pack, as a sound for each key it plays.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (soundFont && preset) importMutation.mutate({ file: soundFont, index: preset });
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="import-soundfont">SoundFont File</Label>
+            <Input
+              id="import-soundfont"
+              type="file"
+              accept=".sf2"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                setSoundFont(file);
+                setPreset('');
+                presetsMutation.reset();
+                if (file) presetsMutation.mutate(file);
+              }}
+            />
+            {presetsMutation.isPending && (
+              <p className="text-sm text-gray-500">Reading presets...</p>
+            )}
+            {presetsMutation.error && (
+              <p className="text-sm text-destructive">{errorMessage(presetsMutation.error)}</p>
+            )}
+          </div>
+
+          {summary && (
+            <div className="space-y-2">
+              <Label>Preset{summary.name && ` from ${summary.name}`}</Label>
+              <Select value={preset} onValueChange={setPreset}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {summary.presets.map((candidate) => (
+                    <SelectItem key={candidate.index} value={String(candidate.index)} disabled={candidate.keys === 0}>
+                      {presetNumber(candidate)} {candidate.name || 'Untitled'}
+                      {' '}({candidate.keys === 0 ? 'no piano keys' : `${candidate.keys} ${candidate.keys === 1 ? 'key' : 'keys'}`})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!soundFont || !chosen || importMutation.isPending}>
+              {importMutation.isPending ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
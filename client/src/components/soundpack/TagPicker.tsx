@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+import { DEFAULT_CATEGORIES, TagFacet, slugifyTag } from '@shared/schema';
+
+// Same limit soundPackTagsSchema enforces on the server
+const MAX_TAGS = 10;
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export default function TagPicker({ value, onChange }: TagPickerProps) {
+  const [input, setInput] = useState('');
+
+  // Suggest the built-in categories first, then tags other creators already use
+  const { data: facets = [] } = useQuery<TagFacet[]>({
+    queryKey: ['/api/tags'],
+  });
+
+  const selectedSlugs = new Set(value.map(slugifyTag));
+  const suggestions = Array.from(new Set([...DEFAULT_CATEGORIES, ...facets.map((facet) => facet.name)]))
+    .filter((name) => !selectedSlugs.has(slugifyTag(name)))
+    .filter((name) => name.toLowerCase().includes(input.trim().toLowerCase()))
+    .slice(0, 12);
+
+  const addTag = (name: string) => {
+    const tag = name.trim().slice(0, 30);
+    if (!tag || !slugifyTag(tag) || selectedSlugs.has(slugifyTag(tag)) || value.length >= MAX_TAGS) {
+      return;
+    }
+    onChange([...value, tag]);
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="rounded-full hover:text-destructive"
+                aria-label={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Input
+        placeholder={value.length >= MAX_TAGS ? `Up to ${MAX_TAGS} tags` : 'Add a tag and press Enter'}
+        value={input}
+        disabled={value.length >= MAX_TAGS}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {suggestions.length > 0 && value.length < MAX_TAGS && (
+        <div className="flex flex-wrap gap-1.5">
+          {suggestions.map((name) => (
+            <Badge
+              key={name}
+              variant="outline"
+              className="cursor-pointer hover:bg-accent"
+              onClick={() => addTag(name)}
+            >
+              + {name}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { Sound, WaveformPeaks } from '@shared/schema';
+import { cn } from '@/lib/utils';
+
+interface WaveformThumbnailProps {
+  sound: Sound;
+  // Roughly how many bars to draw; the closest resolution the server has is used
+  buckets?: number;
+  className?: string;
+}
+
+export default function WaveformThumbnail({ sound, buckets = 128, className }: WaveformThumbnailProps) {
+  // The file URL is part of the key so replacing the audio fetches new peaks
+  const { data: peaks } = useQuery<WaveformPeaks>({
+    queryKey: ['/api/sounds', sound.id, 'peaks', { file: sound.soundFile }],
+    enabled: !!sound.soundFile,
+  });
+
+  if (!peaks || peaks.levels.length === 0) {
+    return <div className={cn('h-10 rounded bg-gray-50', className)} />;
+  }
+
+  const level = peaks.levels.find((l) => l.buckets >= buckets) ?? peaks.levels[peaks.levels.length - 1];
+
+  // One vertical line per bucket from its minimum to its maximum, in a
+  // viewBox where y runs from 1 (top) to -1 (bottom) as 0 to 2
+  const path = level.max
+    .map((max, i) => `M${i + 0.5} ${1 - max}V${1 - level.min[i]}`)
+    .join('');
+
+  return (
+    <svg
+      viewBox={`0 0 ${level.buckets} 2`}
+      preserveAspectRatio="none"
+      className={cn('h-10 w-full rounded bg-gray-50 text-primary', className)}
+      aria-label={`Waveform of ${sound.name}`}
+    >
+      <line x1="0" y1="1" x2={level.buckets} y2="1" stroke="currentColor" strokeOpacity="0.2" vectorEffect="non-scaling-stroke" />
+      <path d={path} stroke="currentColor" strokeWidth="0.7" />
+    </svg>
+  );
+}
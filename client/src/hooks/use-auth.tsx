@@ -0,0 +1,120 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+
+import { RegisterUser, LoginUser, PublicUser } from '@shared/schema';
+import { getQueryFn, apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+// Strip the "<status>: " prefix apiRequest puts on error messages
+const errorMessage = (error: Error) => error.message.replace(/^\d{3}: /, '');
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  
+  // The current session user, or null when logged out
+  const userQuery = useQuery({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn<PublicUser | null>({ on401: 'returnNull' }),
+  });
+  
+  const onAuthenticated = (user: PublicUser) => {
+    queryClient.setQueryData(['/api/auth/me'], user);
+    // Ownership and purchases all depend on who is logged in
+    queryClient.invalidateQueries({
+      predicate: (query) => query.queryKey[0] !== '/api/auth/me',
+    });
+  };
+  
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginUser) => {
+      const res = await apiRequest('/api/auth/login', 'POST', credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (user) => {
+      onAuthenticated(user);
+      toast({
+        title: 'Welcome back!',
+        description: `Logged in as ${user.username}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Login failed',
+        description: errorMessage(error),
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: RegisterUser) => {
+      const res = await apiRequest('/api/auth/register', 'POST', credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (user) => {
+      onAuthenticated(user);
+      toast({
+        title: 'Account created!',
+        description: `Welcome, ${user.username}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Registration failed',
+        description: errorMessage(error),
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('/api/auth/logout', 'POST');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/auth/me'], null);
+      queryClient.removeQueries({
+        predicate: (query) => query.queryKey[0] !== '/api/auth/me',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Logout failed',
+        description: errorMessage(error),
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return (
+    <AuthContext.Provider
+      value={{
+        user: userQuery.data ?? null,
+        isLoading: userQuery.isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
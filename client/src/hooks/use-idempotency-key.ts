@@ -0,0 +1,22 @@
+import { useRef } from 'react';
+import { IDEMPOTENCY_KEY_HEADER } from '@shared/schema';
+import { ApiError } from '@/lib/queryClient';
+
+// An Idempotency-Key for a request that must not happen twice, like paying.
+// The same key is sent until the server answers, so retrying after a dropped
+// connection gets back the first attempt's result instead of paying again.
+export function useIdempotencyKey() {
+  const key = useRef<string | null>(null);
+
+  return {
+    headers: () => {
+      key.current ??= crypto.randomUUID();
+      return { [IDEMPOTENCY_KEY_HEADER]: key.current };
+    },
+    // Call once the request is settled; errors the server never answered
+    // keep the key for the retry
+    settle: (error?: unknown) => {
+      if (!error || error instanceof ApiError) key.current = null;
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { ComponentType } from 'react';
+import { Redirect, Route } from 'wouter';
+import { Loader2 } from 'lucide-react';
+
+import { useAuth } from '@/hooks/use-auth';
+
+// A route that sends logged-out visitors to the login page
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: ComponentType;
+}) {
+  const { user, isLoading } = useAuth();
+  
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/login" />
+      )}
+    </Route>
+  );
+}
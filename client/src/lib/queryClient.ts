@@ -1,9 +1,37 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// A failed API call. The message is "<status>: <server message>"; errors holds
+// the server's list of individual problems when it sent one.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public errors: { path: (string | number)[]; message: string }[] = [],
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let text = (await res.text()) || res.statusText;
+    let errors;
+    
+    // Our API answers errors with { status: 'error', message }, surface just the message
+    try {
+      const body = JSON.parse(text);
+      if (typeof body?.message === 'string') {
+        text = body.message;
+      }
+      if (Array.isArray(body?.errors)) {
+        errors = body.errors;
+      }
+    } catch {
+      // Not JSON, keep the raw text
+    }
+    
+    throw new ApiError(`${res.status}: ${text}`, res.status, errors);
   }
 }
 
@@ -11,6 +39,7 @@ export async function apiRequest(
   url: string,
   method: string = 'GET',
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   // Don't set Content-Type for FormData
   const isFormData = data instanceof FormData;
@@ -18,6 +47,7 @@ export async function apiRequest(
   const options: RequestInit = {
     method,
     credentials: "include",
+    headers: { ...headers },
   };
   
   if (data) {
@@ -25,7 +55,7 @@ export async function apiRequest(
     
     // Only set Content-Type for JSON data, browser will set it correctly for FormData
     if (!isFormData) {
-      options.headers = { "Content-Type": "application/json" };
+      options.headers = { ...headers, "Content-Type": "application/json" };
     }
   }
   
@@ -34,13 +64,36 @@ export async function apiRequest(
   return res;
 }
 
+// Turn a query key into a URL: string segments are joined as path segments,
+// so ['/api/soundpacks', 5] fetches /api/soundpacks/5 and detail queries stay
+// invalidated by their list's key. A trailing object becomes the query string.
+export function buildQueryUrl(queryKey: readonly unknown[]): string {
+  const params = new URLSearchParams();
+  const segments: string[] = [];
+  
+  for (const part of queryKey) {
+    if (part !== null && typeof part === 'object') {
+      for (const [key, value] of Object.entries(part)) {
+        if (value !== undefined && value !== null && value !== '') {
+          params.set(key, String(value));
+        }
+      }
+    } else {
+      segments.push(String(part));
+    }
+  }
+  
+  const search = params.toString();
+  return segments.join('/') + (search ? `?${search}` : '');
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(buildQueryUrl(queryKey), {
       credentials: "include",
     });
 
@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react';
+import { useMutation, useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { ShoppingCart, Trash2, Loader2, Tag, Gift } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import {
+  CartItemWithPack,
+  CartQuote,
+  OrderStatus,
+  OrderWithItems,
+  PaymentMethods,
+  PurchaseWithPack,
+  couponCodeSchema,
+} from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+
+const STATUS_BADGES: Record<OrderStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  paid: { label: 'Paid', variant: 'default' },
+  pending: { label: 'Awaiting payment', variant: 'secondary' },
+  declined: { label: 'Declined', variant: 'destructive' },
+};
+
+// How often to ask about an order whose payment hasn't been confirmed yet
+const PENDING_POLL_MS = 2000;
+
+const formatPrice = (price: number) => price === 0 ? 'Free' : `$${(price / 100).toFixed(2)}`;
+
+export default function Cart() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [paymentMethod, setPaymentMethod] = useState('');
+  // The order whose payment we're waiting on, after a delayed checkout
+  const [pendingOrderId, setPendingOrderId] = useState<number | null>(null);
+  // What's typed in the coupon field, and the code applied to the quote
+  const [couponInput, setCouponInput] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const idempotencyKey = useIdempotencyKey();
+
+  const cartKey = `/api/users/${user!.id}/cart`;
+  const ordersKey = `/api/users/${user!.id}/orders`;
+  const purchasesKey = `/api/users/${user!.id}/purchases`;
+  const quoteKey = `/api/users/${user!.id}/cart/quote`;
+
+  const { data: cart = [], isLoading } = useQuery<CartItemWithPack[]>({ queryKey: [cartKey] });
+  const { data: orders = [] } = useQuery<OrderWithItems[]>({ queryKey: [ordersKey] });
+  // Prices with sales and the coupon applied, as checkout will charge them
+  const { data: quote } = useQuery<CartQuote>({
+    queryKey: [quoteKey, { couponCode: couponCode || undefined }],
+    enabled: cart.length > 0,
+    placeholderData: keepPreviousData,
+  });
+  const { data: payment } = useQuery<PaymentMethods>({ queryKey: ['/api/payment-methods'] });
+  const { data: purchases = [] } = useQuery<PurchaseWithPack[]>({ queryKey: [purchasesKey] });
+  
+  // When each ordered pack was refunded, by order and pack
+  const refunds = new Map(
+    purchases
+      .filter((purchase) => purchase.orderId !== null && purchase.refundedAt)
+      .map((purchase) => [`${purchase.orderId}:${purchase.packId}`, purchase.refundedAt!]),
+  );
+
+  // Start on the first method the provider offers
+  useEffect(() => {
+    if (!paymentMethod && payment?.methods.length) {
+      setPaymentMethod(payment.methods[0].id);
+    }
+  }, [payment]);
+
+  const { data: pendingOrder } = useQuery<OrderWithItems>({
+    queryKey: [ordersKey, pendingOrderId],
+    enabled: pendingOrderId !== null,
+    refetchInterval: (query) => query.state.data?.status === 'pending' ? PENDING_POLL_MS : false,
+  });
+
+  // A checkout has gone through, now or after waiting on the provider
+  const onPaid = (order: OrderWithItems) => {
+    setCouponInput('');
+    setCouponCode('');
+    queryClient.invalidateQueries({ queryKey: [cartKey] });
+    queryClient.invalidateQueries({ queryKey: [ordersKey] });
+    queryClient.invalidateQueries({ queryKey: [purchasesKey] });
+    queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+    toast({
+      title: 'Payment complete',
+      description: `${order.items.length} ${order.items.length === 1 ? 'sound pack is' : 'sound packs are'} now yours.`,
+    });
+  };
+
+  useEffect(() => {
+    if (!pendingOrder || pendingOrder.status === 'pending') return;
+    setPendingOrderId(null);
+    if (pendingOrder.status === 'paid') {
+      onPaid(pendingOrder);
+    } else {
+      queryClient.invalidateQueries({ queryKey: [ordersKey] });
+      toast({
+        title: 'Payment failed',
+        description: pendingOrder.failureReason ?? 'Your payment was declined.',
+        variant: 'destructive',
+      });
+    }
+  }, [pendingOrder]);
+
+  const removeMutation = useMutation({
+    mutationFn: async (packId: number) => {
+      return await apiRequest(`${cartKey}/${packId}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [cartKey] });
+      queryClient.invalidateQueries({ queryKey: [quoteKey] });
+    },
+    onError: (error) => {
+      console.error('Error removing from cart:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the sound pack from your cart.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`/api/users/${user!.id}/checkout`, 'POST', {
+        paymentMethod: paymentMethod || undefined,
+        couponCode: quote?.couponCode ?? undefined,
+      }, idempotencyKey.headers());
+      return (await res.json()) as OrderWithItems;
+    },
+    onSettled: (_order, error) => idempotencyKey.settle(error),
+    onSuccess: (order) => {
+      if (order.status === 'pending') {
+        // The provider confirms later; keep asking until it does
+        setPendingOrderId(order.id);
+        queryClient.invalidateQueries({ queryKey: [ordersKey] });
+      } else {
+        onPaid(order);
+      }
+    },
+    onError: (error) => {
+      console.error('Error checking out:', error);
+      queryClient.invalidateQueries({ queryKey: [cartKey] });
+      queryClient.invalidateQueries({ queryKey: [quoteKey] });
+      queryClient.invalidateQueries({ queryKey: [ordersKey] });
+      toast({
+        title: 'Payment failed',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Until the quote arrives, list prices stand in
+  const pricedItems = new Map(quote?.items.map((item) => [item.packId, item]));
+  const total = quote?.total ?? cart.reduce((sum, item) => sum + item.soundPack.price, 0);
+  
+  // The code's format is checked here; whether it can be used comes back
+  // with the quote
+  const couponError = codeError ?? (couponCode ? quote?.couponError : null);
+  const applyCoupon = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = couponCodeSchema.safeParse(couponInput);
+    setCodeError(code.success ? null : code.error.issues[0].message);
+    if (code.success) setCouponCode(code.data);
+  };
+  const isPaying = checkoutMutation.isPending || pendingOrderId !== null;
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-4xl">
+      <h1 className="text-3xl font-bold mb-8">Cart</h1>
+
+      {isLoading ? (
+        <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+      ) : cart.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="bg-gray-100 rounded-full p-4 mb-4">
+            <ShoppingCart className="h-6 w-6 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-medium mb-1">Your cart is empty</h3>
+          <p className="text-gray-500 mb-4">Add sound packs from the marketplace to buy them together.</p>
+          <Button onClick={() => navigate('/marketplace')}>Browse Marketplace</Button>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 divide-y">
+            {cart.map((item) => {
+              const priced = pricedItems.get(item.packId);
+              return (
+                <div key={item.packId} className="flex justify-between items-center py-3">
+                  <span className="font-medium">{item.soundPack.name}</span>
+                  <div className="flex items-center gap-4">
+                    {priced && priced.discount > 0 && (
+                      <span className="text-sm text-gray-500 line-through">{formatPrice(priced.originalPrice)}</span>
+                    )}
+                    <span>{formatPrice(priced?.price ?? item.soundPack.price)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isPaying || removeMutation.isPending}
+                      onClick={() => removeMutation.mutate(item.packId)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            <form className="flex flex-col gap-1 py-3" onSubmit={applyCoupon}>
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Coupon code"
+                  className="w-48"
+                  value={couponInput}
+                  onChange={(e) => setCouponInput(e.target.value)}
+                  disabled={isPaying}
+                />
+                <Button type="submit" variant="outline" disabled={isPaying || !couponInput.trim()}>
+                  <Tag className="h-4 w-4 mr-2" />
+                  Apply
+                </Button>
+              </div>
+              {couponError && <p className="text-sm text-destructive">{couponError}</p>}
+              {quote?.couponCode && <p className="text-sm text-gray-500">Coupon {quote.couponCode} applied</p>}
+            </form>
+            {quote && quote.discount > 0 && (
+              <div className="flex justify-between items-center pt-3 text-gray-500">
+                <span>Discounts</span>
+                <span className="mr-14">-{formatPrice(quote.discount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-center pt-3 font-bold">
+              <span>Total</span>
+              <span className="mr-14">{formatPrice(total)}</span>
+            </div>
+          </CardContent>
+          <CardFooter className="border-t pt-4 flex flex-col sm:flex-row gap-4 sm:items-end justify-between">
+            {total > 0 && payment && payment.methods.length > 0 ? (
+              <div className="space-y-1">
+                <Label>Payment method</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod} disabled={isPaying}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Choose a payment method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payment.methods.map((method) => (
+                      <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : <div />}
+            <Button onClick={() => checkoutMutation.mutate()} disabled={isPaying}>
+              {isPaying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pendingOrderId !== null ? 'Confirming payment...' : checkoutMutation.isPending ? 'Paying...' : 'Checkout'}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {orders.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-xl font-bold mb-4">Purchase History</h2>
+          <div className="flex flex-col gap-3">
+            {orders.map((order) => (
+              <Card key={order.id}>
+                <CardHeader className="pb-2 flex flex-row justify-between items-center space-y-0">
+                  <CardTitle className="text-sm font-medium">
+                    Order #{order.id} · {new Date(order.createdAt).toLocaleDateString()}
+                  </CardTitle>
+                  <Badge variant={STATUS_BADGES[order.status as OrderStatus].variant}>
+                    {STATUS_BADGES[order.status as OrderStatus].label}
+                  </Badge>
+                </CardHeader>
+                <CardContent className="text-sm">
+                  {order.items.map((item) => {
+                    const refundedAt = refunds.get(`${order.id}:${item.packId}`);
+                    return (
+                      <div key={item.id} className="flex justify-between text-gray-600">
+                        <span>{item.name}</span>
+                        {refundedAt && (
+                          <span className="text-destructive">
+                            Refunded{item.price > 0 && ` ${formatPrice(item.price)}`} on {new Date(refundedAt).toLocaleDateString()}
+                          </span>
+                        )}
+                        {item.alreadyOwned && (
+                          <span className="text-gray-500">
+                            Already yours{item.price > 0 && `, ${formatPrice(item.price)} refunded`}
+                          </span>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {order.giftCode && order.status === 'paid' && (
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="flex items-center">
+                        <Gift className="h-4 w-4 mr-2" />
+                        Gift code <span className="font-mono ml-1">{order.giftCode}</span>
+                      </span>
+                      <span className="text-gray-500">
+                        {order.redeemedAt
+                          ? `Redeemed on ${new Date(order.redeemedAt).toLocaleDateString()}`
+                          : 'Not redeemed yet'}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex justify-between mt-1">
+                    <span className="text-gray-500">{order.status === 'declined' && order.failureReason}</span>
+                    <span className="font-medium">{formatPrice(order.total)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,17 +13,20 @@ import { Switch } from '@/components/ui/switch';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 
-import { insertSoundPackSchema } from '@shared/schema';
+import { insertSoundPackSchema, soundPackTagsSchema } from '@shared/schema';
 import { useMutation } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient, apiRequest } from '@/lib/queryClient';
+import TagPicker from '@/components/soundpack/TagPicker';
 
-// Extended schema for form validation
-const createSoundPackSchema = insertSoundPackSchema.extend({
+// Extended schema for form validation. The owner is the logged-in user,
+// which the server takes from the session
+const createSoundPackSchema = insertSoundPackSchema.omit({ userId: true }).extend({
   name: z.string().min(3, { message: 'Name must be at least 3 characters long' }).max(50),
   description: z.string().min(10, { message: 'Description must be at least 10 characters long' }).max(500).optional(),
   price: z.coerce.number().min(0, { message: 'Price must be at least 0' }),
   isPublic: z.boolean().default(false),
+  tags: soundPackTagsSchema,
   imageFile: z.instanceof(File).optional(),
 });
 
@@ -42,23 +45,13 @@ export default function CreateSoundPack() {
       description: '',
       price: 0,
       isPublic: false,
-      userId: 1, // Hardcoded for demo
+      tags: [],
     },
   });
   
   // Create sound pack mutation
   const createSoundPackMutation = useMutation({
     mutationFn: async (data: CreateSoundPackFormValues) => {
-      // The API expects form body parameters to be passed as JSON first
-      // Since we're using validateRequest middleware with insertSoundPackSchema
-      const soundPackData = {
-        name: data.name,
-        price: data.price,
-        isPublic: data.isPublic,
-        userId: 1, // Hardcoded for demo
-        description: data.description || '',
-      };
-      
       // For file uploads, we need to use FormData
       const formData = new FormData();
       
@@ -66,7 +59,7 @@ export default function CreateSoundPack() {
       formData.append('name', data.name);
       formData.append('price', data.price.toString());
       formData.append('isPublic', data.isPublic.toString());
-      formData.append('userId', '1'); // Hardcoded for demo
+      formData.append('tags', JSON.stringify(data.tags));
       
       if (data.description) {
         formData.append('description', data.description);
@@ -81,6 +74,7 @@ export default function CreateSoundPack() {
       return fetch('/api/soundpacks', {
         method: 'POST',
         body: formData,
+        credentials: 'include',
       }).then(res => {
         if (!res.ok) {
           return res.json().then(err => {
@@ -93,6 +87,7 @@ export default function CreateSoundPack() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
       toast({
         title: 'Sound pack created!',
         description: 'Your sound pack has been created successfully.',
@@ -190,6 +185,23 @@ export default function CreateSoundPack() {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem className="mt-6">
+                    <FormLabel>Tags</FormLabel>
+                    <FormControl>
+                      <TagPicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormDescription>
+                      Pick a category or add your own so buyers can find your pack
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <div className="mt-6">
                 <FormLabel htmlFor="image-upload">Pack Image</FormLabel>
                 <div className="mt-2">
@@ -216,13 +228,13 @@ export default function CreateSoundPack() {
                           Click to upload or drag and drop
                         </p>
                         <p className="text-xs text-gray-400">
-                          PNG, JPG or GIF (max. 2MB)
+                          PNG, JPG or WebP (max. 2MB)
                         </p>
                       </div>
                       <Input
                         id="image-upload"
                         type="file"
-                        accept="image/*"
+                        accept="image/png,image/jpeg,image/webp"
                         className="hidden"
                         onChange={handleImageChange}
                       />
@@ -0,0 +1,522 @@
+import { useState } from 'react';
+import { useQuery, useMutation, keepPreviousData } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { DollarSign, Package, Plus, RotateCcw, Wallet } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import CouponDialog from '@/components/soundpack/CouponDialog';
+import BundleFormDialog from '@/components/soundpack/BundleFormDialog';
+
+import {
+  BundleWithPacks,
+  CouponWithPacks,
+  CreatorPurchase,
+  CreatorSales,
+  Paginated,
+  SalesGrouping,
+  SoundPack,
+  CREATOR_PURCHASES_LIMIT,
+} from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+
+const chartConfig = {
+  revenue: { label: 'Revenue', color: 'hsl(var(--primary))' },
+  refunds: { label: 'Refunds', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+// Amounts are in cents
+const formatMoney = (cents: number) =>
+  `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+const formatDiscount = (coupon: CouponWithPacks) =>
+  coupon.discountType === 'percent' ? `${coupon.amount}%` : formatMoney(coupon.amount);
+
+// Period starts are UTC days, so format them in UTC too
+const formatDay = (day: string) =>
+  new Date(day).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export default function CreatorDashboard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // Empty until the creator picks dates; the server defaults to the last 30 days
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [groupBy, setGroupBy] = useState<SalesGrouping>('day');
+  const [couponDialogOpen, setCouponDialogOpen] = useState(false);
+  const [bundleDialogOpen, setBundleDialogOpen] = useState(false);
+  const [editingBundle, setEditingBundle] = useState<BundleWithPacks | undefined>(); // Undefined for a new one
+
+  const { data: sales, isLoading, error } = useQuery<CreatorSales>({
+    queryKey: [`/api/creators/${user!.id}/sales`, { from, to, groupBy }],
+    placeholderData: keepPreviousData,
+  });
+  
+  const { data: purchases = [] } = useQuery<CreatorPurchase[]>({
+    queryKey: [`/api/creators/${user!.id}/purchases`, { from, to }],
+    placeholderData: keepPreviousData,
+  });
+  
+  const refundMutation = useMutation({
+    mutationFn: async (purchase: CreatorPurchase) => {
+      return await apiRequest(`/api/purchases/${purchase.id}/refund`, 'POST');
+    },
+    onSuccess: (_res, purchase) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/creators/${user!.id}/sales`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/creators/${user!.id}/purchases`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+      toast({
+        title: 'Refunded',
+        description: `${purchase.buyer} no longer has ${purchase.packName}.`,
+      });
+    },
+    onError: (error) => {
+      console.error('Error refunding purchase:', error);
+      queryClient.invalidateQueries({ queryKey: [`/api/creators/${user!.id}/purchases`] });
+      toast({
+        title: 'Refund failed',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const handleRefund = (purchase: CreatorPurchase) => {
+    if (window.confirm(`Refund ${formatMoney(purchase.price)} to ${purchase.buyer}? They will lose access to ${purchase.packName}.`)) {
+      refundMutation.mutate(purchase);
+    }
+  };
+
+  const { data: coupons = [] } = useQuery<CouponWithPacks[]>({
+    queryKey: [`/api/creators/${user!.id}/coupons`],
+  });
+
+  const { data: packs } = useQuery<Paginated<SoundPack>>({
+    queryKey: ['/api/soundpacks', { userId: user!.id, sort: 'name-asc', pageSize: 100 }],
+  });
+  const packNames = new Map(packs?.items.map((pack) => [pack.id, pack.name]));
+
+  const deleteCouponMutation = useMutation({
+    mutationFn: async (coupon: CouponWithPacks) => {
+      return await apiRequest(`/api/coupons/${coupon.id}`, 'DELETE');
+    },
+    onSuccess: (_res, coupon) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/creators/${user!.id}/coupons`] });
+      toast({
+        title: 'Coupon deleted',
+        description: `${coupon.code} can no longer be used.`,
+      });
+    },
+    onError: (error) => {
+      console.error('Error deleting coupon:', error);
+      toast({
+        title: 'Could not delete coupon',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleDeleteCoupon = (coupon: CouponWithPacks) => {
+    if (window.confirm(`Delete the coupon ${coupon.code}? Buyers will no longer be able to use it.`)) {
+      deleteCouponMutation.mutate(coupon);
+    }
+  };
+
+  const { data: bundles = [] } = useQuery<BundleWithPacks[]>({
+    queryKey: ['/api/bundles', { userId: user!.id }],
+  });
+
+  const deleteBundleMutation = useMutation({
+    mutationFn: async (bundle: BundleWithPacks) => {
+      return await apiRequest(`/api/bundles/${bundle.id}`, 'DELETE');
+    },
+    onSuccess: (_res, bundle) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bundles'] });
+      toast({
+        title: 'Bundle deleted',
+        description: `${bundle.name} is no longer for sale.`,
+      });
+    },
+    onError: (error) => {
+      console.error('Error deleting bundle:', error);
+      toast({
+        title: 'Could not delete bundle',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openBundleDialog = (bundle?: BundleWithPacks) => {
+    setEditingBundle(bundle);
+    setBundleDialogOpen(true);
+  };
+
+  const handleDeleteBundle = (bundle: BundleWithPacks) => {
+    if (window.confirm(`Delete the bundle ${bundle.name}? Its packs stay for sale on their own.`)) {
+      deleteBundleMutation.mutate(bundle);
+    }
+  };
+
+  const stats = sales && [
+    { title: 'Revenue', value: formatMoney(sales.totals.revenue), icon: DollarSign },
+    { title: 'Units Sold', value: sales.totals.units, icon: Package },
+    {
+      title: 'Refunds',
+      value: formatMoney(sales.totals.refunds),
+      detail: `${sales.totals.refundedUnits} ${sales.totals.refundedUnits === 1 ? 'sale' : 'sales'}`,
+      icon: RotateCcw,
+    },
+    { title: 'Net Revenue', value: formatMoney(sales.totals.netRevenue), icon: Wallet },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-6xl">
+      <div className="flex flex-col md:flex-row justify-between md:items-end gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Earnings</h1>
+          <p className="text-gray-500">Sales and refunds of your sound packs</p>
+        </div>
+
+        <div className="flex gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="sales-from">From</Label>
+            <Input
+              id="sales-from"
+              type="date"
+              value={from || sales?.from || ''}
+              max={to || sales?.to}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sales-to">To</Label>
+            <Input
+              id="sales-to"
+              type="date"
+              value={to || sales?.to || ''}
+              min={from || sales?.from}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as SalesGrouping)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive mb-4">{error.message.replace(/^\d+: /, '')}</p>
+      )}
+
+      {isLoading || !sales ? (
+        <div className="grid gap-4">
+          <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+          <div className="h-72 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+      ) : (
+        <div className="grid gap-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats!.map(({ title, value, detail, icon: Icon }) => (
+              <Card key={title}>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">{title}</CardTitle>
+                  <Icon className="h-4 w-4 text-gray-500" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{value}</div>
+                  {detail && <p className="text-xs text-gray-500">{detail}</p>}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{groupBy === 'week' ? 'Weekly' : 'Daily'} Sales</CardTitle>
+              <CardDescription>
+                Refunds show in the {groupBy} they were made, not the one the sale was
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                <BarChart data={sales.series}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="start" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} tickFormatter={formatMoney} width={64} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(label) => groupBy === 'week' ? `Week of ${formatDay(label)}` : formatDay(label)}
+                        formatter={(value, name) => (
+                          <div className="flex w-full justify-between gap-4">
+                            <span className="text-muted-foreground">
+                              {chartConfig[name as keyof typeof chartConfig]?.label}
+                            </span>
+                            <span className="font-mono font-medium">{formatMoney(Number(value))}</span>
+                          </div>
+                        )}
+                      />
+                    }
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                  <Bar dataKey="refunds" fill="var(--color-refunds)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Pack</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {sales.packs.length === 0 ? (
+                <p className="text-sm text-gray-500">You haven't published any sound packs yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pack</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">Refunds</TableHead>
+                      <TableHead className="text-right">Net</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sales.packs.map((pack) => (
+                      <TableRow key={pack.packId}>
+                        <TableCell>{pack.name}</TableCell>
+                        <TableCell className="text-right">{pack.units}</TableCell>
+                        <TableCell className="text-right">{formatMoney(pack.revenue)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(pack.refunds)}
+                          {pack.refundedUnits > 0 && (
+                            <span className="text-gray-500 ml-1">({pack.refundedUnits})</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(pack.netRevenue)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Sales</CardTitle>
+              {purchases.length === CREATOR_PURCHASES_LIMIT && (
+                <CardDescription>
+                  Showing the latest {CREATOR_PURCHASES_LIMIT}; pick a shorter range to see earlier sales
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              {purchases.length === 0 ? (
+                <p className="text-sm text-gray-500">No sales in this range</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Pack</TableHead>
+                      <TableHead>Buyer</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {purchases.map((purchase) => (
+                      <TableRow key={purchase.id}>
+                        <TableCell>{new Date(purchase.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell>{purchase.packName}</TableCell>
+                        <TableCell>
+                          {purchase.buyer}
+                          {purchase.userId === null && <span className="text-gray-500"> (unclaimed gift)</span>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatMoney(purchase.price)}</TableCell>
+                        <TableCell className="text-right">
+                          {purchase.refundedAt ? (
+                            <span className="text-gray-500">
+                              Refunded {new Date(purchase.refundedAt).toLocaleDateString()}
+                            </span>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={refundMutation.isPending}
+                              onClick={() => handleRefund(purchase)}
+                            >
+                              Refund
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="mt-6">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Coupons</CardTitle>
+            <CardDescription>Codes buyers can enter at checkout for a discount</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setCouponDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Coupon
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {coupons.length === 0 ? (
+            <p className="text-sm text-gray-500">No coupons yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Packs</TableHead>
+                  <TableHead className="text-right">Uses</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {coupons.map((coupon) => (
+                  <TableRow key={coupon.id}>
+                    <TableCell className="font-mono">{coupon.code}</TableCell>
+                    <TableCell>{formatDiscount(coupon)} off</TableCell>
+                    <TableCell>
+                      {coupon.allPacks
+                        ? 'All packs'
+                        : coupon.packIds.map((id) => packNames.get(id) ?? `#${id}`).join(', ')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {coupon.uses}{coupon.maxUses !== null && ` / ${coupon.maxUses}`}
+                    </TableCell>
+                    <TableCell>
+                      {coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString() : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={deleteCouponMutation.isPending}
+                        onClick={() => handleDeleteCoupon(coupon)}
+                      >
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Bundles</CardTitle>
+            <CardDescription>Sound packs sold together for one price</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openBundleDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Bundle
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {bundles.length === 0 ? (
+            <p className="text-sm text-gray-500">No bundles yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Packs</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Separately</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bundles.map((bundle) => (
+                  <TableRow key={bundle.id}>
+                    <TableCell>
+                      {bundle.name}
+                      {!bundle.isPublic && <span className="text-gray-500 ml-2">(private)</span>}
+                    </TableCell>
+                    <TableCell>{bundle.packs.map((pack) => pack.name).join(', ')}</TableCell>
+                    <TableCell className="text-right">{formatMoney(bundle.price)}</TableCell>
+                    <TableCell className="text-right text-gray-500">
+                      {formatMoney(bundle.packs.reduce((total, pack) => total + pack.price, 0))}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => openBundleDialog(bundle)}>
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={deleteBundleMutation.isPending}
+                        onClick={() => handleDeleteBundle(bundle)}
+                      >
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BundleFormDialog
+        open={bundleDialogOpen}
+        onOpenChange={setBundleDialogOpen}
+        bundle={editingBundle}
+        packs={packs?.items ?? []}
+      />
+
+      <CouponDialog
+        open={couponDialogOpen}
+        onOpenChange={setCouponDialogOpen}
+        userId={user!.id}
+        packs={packs?.items ?? []}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect } from 'react';
+import { Link, useLocation } from 'wouter';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { LogIn } from 'lucide-react';
+
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { loginUserSchema, LoginUser } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+
+export default function Login() {
+  const [, navigate] = useLocation();
+  const { user, loginMutation } = useAuth();
+  
+  const form = useForm<LoginUser>({
+    resolver: zodResolver(loginUserSchema),
+    defaultValues: {
+      username: '',
+      password: '',
+    },
+  });
+  
+  // Already logged in (or just logged in), nothing to do here
+  useEffect(() => {
+    if (user) {
+      navigate('/marketplace');
+    }
+  }, [user]);
+  
+  const onSubmit = (data: LoginUser) => {
+    loginMutation.mutate(data);
+  };
+  
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-md">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">Log in</CardTitle>
+          <CardDescription>
+            Log in to create sound packs and access your purchases
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                <LogIn className="h-4 w-4 mr-2" />
+                {loginMutation.isPending ? 'Logging in...' : 'Log in'}
+              </Button>
+            </form>
+          </Form>
+          
+          <p className="text-sm text-center text-muted-foreground mt-6">
+            Don't have an account?{' '}
+            <Link href="/register" className="text-primary hover:underline">
+              Register
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
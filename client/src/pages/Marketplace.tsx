@@ -1,7 +1,7 @@
-import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState, useEffect, useRef } from 'react';
+import { useInfiniteQuery, useQuery, useMutation, keepPreviousData } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
-import { Search, Plus, Star, Download, ArrowUpDown, ChevronDown } from 'lucide-react';
+import { Search, Plus, Star, Download, ArrowUpDown, ChevronDown, Upload, Layers, Gift } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,43 +19,155 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
-import { SoundPack } from '@shared/schema';
-import { queryClient, getQueryFn } from '@/lib/queryClient';
+import {
+  BundleWithPacks,
+  Sound,
+  SoundPack,
+  PricedSoundPack,
+  SoundPackSort,
+  Paginated,
+  TagFacet,
+  Review,
+  CartItemWithPack,
+} from '@shared/schema';
+import { queryClient, apiRequest, buildQueryUrl } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useIdempotencyKey } from '@/hooks/use-idempotency-key';
+import WaveformThumbnail from '@/components/soundpack/WaveformThumbnail';
+import ArchiveImportDialog from '@/components/soundpack/ArchiveImportDialog';
+import ReviewList from '@/components/soundpack/ReviewList';
+import PriceTag, { currentPrice } from '@/components/soundpack/PriceTag';
+import BundleDialog from '@/components/soundpack/BundleDialog';
+import GiftDialog from '@/components/soundpack/GiftDialog';
+
+const PAGE_SIZE = 24;
+
+// Price bounds (in cents) behind each filter option
+const FILTER_PARAMS: Record<string, { minPrice?: number; maxPrice?: number }> = {
+  all: {},
+  free: { maxPrice: 0 },
+  premium: { minPrice: 1 },
+};
 
 export default function Marketplace() {
   const [, navigate] = useLocation();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedSoundPack, setSelectedSoundPack] = useState<SoundPack | null>(null);
+  const [selectedSoundPack, setSelectedSoundPack] = useState<PricedSoundPack | null>(null);
+  const [selectedBundle, setSelectedBundle] = useState<BundleWithPacks | null>(null);
+  const [giftDialogOpen, setGiftDialogOpen] = useState(false);
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
-  const [sortOrder, setSortOrder] = useState<string>('newest');
+  const [sortOrder, setSortOrder] = useState<SoundPackSort>('newest');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+  
+  const filters = { q: debouncedSearchTerm, ...FILTER_PARAMS[selectedFilter] };
   
-  // Fetch sound packs
-  const soundPacksQuery = useQuery({
-    queryKey: ['/api/soundpacks'],
-    queryFn: getQueryFn<SoundPack[]>({ on401: 'returnNull' }),
+  // Category counts follow the search and price filter, but not the selected tag
+  const { data: tagFacets = [] } = useQuery<TagFacet[]>({
+    queryKey: ['/api/tags', filters],
+    placeholderData: keepPreviousData,
   });
   
-  const soundPacks = soundPacksQuery.data || [];
+  // Fetch sound packs a page at a time; search, filtering and sorting happen on the server
+  const soundPacksQuery = useInfiniteQuery({
+    queryKey: [
+      '/api/soundpacks',
+      { ...filters, tag: selectedTag, sort: sortOrder, pageSize: PAGE_SIZE },
+    ],
+    queryFn: async ({ queryKey, pageParam }) => {
+      const res = await apiRequest(buildQueryUrl([...queryKey, { page: pageParam }]));
+      return (await res.json()) as Paginated<PricedSoundPack>;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => lastPage.hasMore ? lastPage.page + 1 : undefined,
+    placeholderData: keepPreviousData,
+  });
   
-  // Purchase a sound pack
-  const purchaseMutation = useMutation({
+  const { data: bundles = [] } = useQuery<BundleWithPacks[]>({
+    queryKey: ['/api/bundles'],
+  });
+  
+  // Sounds and reviews of the pack being previewed
+  const { data: previewPack } = useQuery<SoundPack & { sounds: Sound[]; reviews: Review[] }>({
+    queryKey: ['/api/soundpacks', selectedSoundPack?.id],
+    enabled: !!selectedSoundPack,
+  });
+  const previewSounds = previewPack?.sounds ?? [];
+  const previewReviews = previewPack?.reviews ?? [];
+  
+  const soundPacks = soundPacksQuery.data?.pages.flatMap(page => page.items) || [];
+  const totalSoundPacks = soundPacksQuery.data?.pages[0]?.total ?? 0;
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = soundPacksQuery;
+  
+  // Load the next page when the bottom of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+    
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  
+  // Paid packs are bought through the cart
+  const cartKey = `/api/users/${user?.id}/cart`;
+  const { data: cart = [] } = useQuery<CartItemWithPack[]>({
+    queryKey: [cartKey],
+    enabled: !!user,
+  });
+  const isInCart = (pack: SoundPack) => cart.some(item => item.packId === pack.id);
+  
+  const addToCartMutation = useMutation({
     mutationFn: async (packId: number) => {
-      return await fetch(`/api/users/1/purchases`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ userId: 1, packId }),
-        credentials: 'include',
+      return await apiRequest(cartKey, 'POST', { packId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [cartKey] });
+      toast({
+        title: 'Added to cart',
+        description: `${selectedSoundPack?.name} is in your cart.`,
       });
     },
+    onError: (error) => {
+      console.error('Error adding to cart:', error);
+      toast({
+        title: 'Could not add to cart',
+        description: error.message.replace(/^\d+: /, ''),
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  // Get a free sound pack; there's nothing to pay, so no cart or payment step
+  const purchaseKey = useIdempotencyKey();
+  const purchaseMutation = useMutation({
+    mutationFn: async (packId: number) => {
+      return await apiRequest(`/api/users/${user!.id}/purchases`, 'POST', { packId }, purchaseKey.headers());
+    },
+    onSettled: (_res, error) => purchaseKey.settle(error),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/users/1/purchases'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user!.id}/purchases`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user!.id}/orders`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
       toast({
         title: 'Success!',
-        description: 'Sound pack purchased successfully.',
+        description: 'The sound pack is now yours.',
       });
       setSelectedSoundPack(null);
     },
@@ -63,69 +175,50 @@ export default function Marketplace() {
       console.error('Error purchasing sound pack:', error);
       toast({
         title: 'Purchase failed',
-        description: 'There was an error processing your purchase.',
+        description: error.message.replace(/^\d+: /, ''),
         variant: 'destructive',
       });
     },
   });
   
-  // Filter sound packs
-  const filteredSoundPacks = soundPacks
-    .filter(pack => {
-      // Apply search filter
-      if (searchTerm) {
-        const searchLower = searchTerm.toLowerCase();
-        const nameMatch = pack.name.toLowerCase().includes(searchLower);
-        const descMatch = pack.description?.toLowerCase().includes(searchLower) || false;
-        if (!nameMatch && !descMatch) return false;
-      }
-      
-      // Apply category filter
-      if (selectedFilter === 'free') {
-        return pack.price === 0;
-      } else if (selectedFilter === 'premium') {
-        return pack.price > 0;
-      }
-      
-      return true;
-    })
-    .sort((a, b) => {
-      // Apply sorting
-      if (sortOrder === 'newest') {
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      } else if (sortOrder === 'oldest') {
-        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      } else if (sortOrder === 'name-asc') {
-        return a.name.localeCompare(b.name);
-      } else if (sortOrder === 'name-desc') {
-        return b.name.localeCompare(a.name);
-      } else if (sortOrder === 'price-asc') {
-        return a.price - b.price;
-      } else if (sortOrder === 'price-desc') {
-        return b.price - a.price;
-      } else if (sortOrder === 'rating') {
-        return b.rating - a.rating;
-      } else if (sortOrder === 'popular') {
-        return b.downloads - a.downloads;
-      }
-      return 0;
-    });
-  
-  // Format price from cents to dollars
-  const formatPrice = (price: number) => {
-    return price === 0 ? 'Free' : `$${(price / 100).toFixed(2)}`;
+  // Average rating to one decimal, or a dash before the first review
+  const formatRating = (pack: SoundPack) => {
+    return pack.reviewCount > 0 ? pack.rating.toFixed(1) : '-';
   };
   
   // Open preview dialog for a sound pack
-  const openPreviewDialog = (pack: SoundPack) => {
+  const openPreviewDialog = (pack: PricedSoundPack) => {
     setSelectedSoundPack(pack);
   };
   
   // Handle purchase of a sound pack
-  const handlePurchase = (packId: number) => {
-    purchaseMutation.mutate(packId);
+  const handlePurchase = (pack: PricedSoundPack) => {
+    // Purchases belong to an account, so send visitors to log in first
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    if (currentPrice(pack) === 0) {
+      purchaseMutation.mutate(pack.id);
+    } else if (isInCart(pack)) {
+      navigate('/cart');
+    } else {
+      addToCartMutation.mutate(pack.id);
+    }
   };
   
+  // Gifts are paid for by an account too
+  const handleGift = () => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    setGiftDialogOpen(true);
+  };
+  
+  const isOwnPack = (pack: SoundPack) => !!user && pack.userId === user.id;
+  const canEditPack = (pack: SoundPack) => isOwnPack(pack) || !!user?.isAdmin;
+  
   if (soundPacksQuery.isLoading) {
     return (
       <div className="container mx-auto px-4 py-12 max-w-6xl">
@@ -146,13 +239,36 @@ export default function Marketplace() {
     <div className="container mx-auto px-4 py-12 max-w-6xl">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
         <h1 className="text-3xl font-bold">Sound Pack Marketplace</h1>
-        <Button onClick={() => navigate('/create-soundpack')}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Sound Pack
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => user ? setIsImportDialogOpen(true) : navigate('/login')}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Pack
+          </Button>
+          <Button onClick={() => navigate('/create-soundpack')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Sound Pack
+          </Button>
+        </div>
       </div>
       
-      <div className="flex flex-col md:flex-row gap-4 mb-8">
+      <ArchiveImportDialog<SoundPack>
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        title="Import Sound Pack"
+        description="Create a pack from a zip exported from a pack's editor."
+        url="/api/soundpacks/import"
+        onImported={(soundPack) => {
+          queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+          toast({
+            title: 'Sound pack imported',
+            description: `"${soundPack.name}" has been added to your packs.`,
+          });
+          navigate(`/soundpack/${soundPack.id}/edit`);
+        }}
+      />
+      
+      <div className="flex flex-col md:flex-row gap-4 mb-2">
         <div className="relative flex-grow">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
           <Input
@@ -217,9 +333,78 @@ export default function Marketplace() {
         </div>
       </div>
       
-      {filteredSoundPacks.length > 0 ? (
+      {tagFacets.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Badge
+            variant={selectedTag === null ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => setSelectedTag(null)}
+          >
+            All categories
+          </Badge>
+          {tagFacets.map((facet) => (
+            <Badge
+              key={facet.id}
+              variant={selectedTag === facet.slug ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => setSelectedTag(selectedTag === facet.slug ? null : facet.slug)}
+            >
+              {facet.name}
+              <span className="ml-1 opacity-70">{facet.count}</span>
+            </Badge>
+          ))}
+        </div>
+      )}
+      
+      {bundles.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">Bundles</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {bundles.map((bundle) => {
+              const listTotal = bundle.packs.reduce((total, pack) => total + pack.price, 0);
+              return (
+                <Card
+                  key={bundle.id}
+                  className="overflow-hidden hover:shadow-md transition-shadow cursor-pointer"
+                  onClick={() => setSelectedBundle(bundle)}
+                >
+                  <div
+                    className="h-32 bg-cover bg-center"
+                    style={{
+                      backgroundImage: bundle.imageUrl
+                        ? `url(${bundle.imageUrl})`
+                        : 'linear-gradient(to right, #0ea5e9, #4f46e5)'
+                    }}
+                  />
+                  <CardContent className="pt-4">
+                    <div className="flex justify-between items-start mb-2">
+                      <h3 className="text-lg font-bold">{bundle.name}</h3>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {listTotal > bundle.price && (
+                          <span className="text-sm text-gray-500 line-through">${(listTotal / 100).toFixed(2)}</span>
+                        )}
+                        <Badge>{bundle.price === 0 ? 'Free' : `$${(bundle.price / 100).toFixed(2)}`}</Badge>
+                      </div>
+                    </div>
+                    <p className="flex items-center text-sm text-gray-500 line-clamp-1">
+                      <Layers className="h-4 w-4 mr-1 shrink-0" />
+                      {bundle.packs.map((pack) => pack.name).join(', ')}
+                    </p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      
+      <p className="text-sm text-gray-500 mb-6">
+        {totalSoundPacks} {totalSoundPacks === 1 ? 'sound pack' : 'sound packs'}
+      </p>
+      
+      {soundPacks.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredSoundPacks.map((soundPack) => (
+          {soundPacks.map((soundPack) => (
             <Card 
               key={soundPack.id}
               className="overflow-hidden hover:shadow-md transition-shadow cursor-pointer"
@@ -236,9 +421,7 @@ export default function Marketplace() {
               <CardContent className="pt-4">
                 <div className="flex justify-between items-start mb-2">
                   <h3 className="text-lg font-bold">{soundPack.name}</h3>
-                  <Badge variant={soundPack.price > 0 ? "default" : "secondary"}>
-                    {formatPrice(soundPack.price)}
-                  </Badge>
+                  <PriceTag pack={soundPack} />
                 </div>
                 <p className="text-sm text-gray-500 line-clamp-2 mb-3">
                   {soundPack.description || 'No description available.'}
@@ -248,23 +431,25 @@ export default function Marketplace() {
                 <div className="flex gap-4">
                   <div className="flex items-center text-amber-500">
                     <Star className="h-4 w-4 mr-1" />
-                    <span className="text-xs">{soundPack.rating || '-'}</span>
+                    <span className="text-xs">{formatRating(soundPack)}</span>
                   </div>
                   <div className="flex items-center text-gray-500">
                     <Download className="h-4 w-4 mr-1" />
                     <span className="text-xs">{soundPack.downloads}</span>
                   </div>
                 </div>
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    navigate(`/soundpack/${soundPack.id}/edit`);
-                  }}
-                >
-                  Edit
-                </Button>
+                {canEditPack(soundPack) && (
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      navigate(`/soundpack/${soundPack.id}/edit`);
+                    }}
+                  >
+                    Edit
+                  </Button>
+                )}
               </CardFooter>
             </Card>
           ))}
@@ -283,6 +468,23 @@ export default function Marketplace() {
         </div>
       )}
       
+      {/* Infinite scroll sentinel */}
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center py-8">
+          {isFetchingNextPage && (
+            <div className="h-4 w-32 bg-gray-200 rounded animate-pulse"></div>
+          )}
+        </div>
+      )}
+      
+      {selectedBundle && (
+        <BundleDialog
+          bundle={selectedBundle}
+          open={!!selectedBundle}
+          onOpenChange={() => setSelectedBundle(null)}
+        />
+      )}
+      
       {/* Sound Pack Preview Dialog */}
       {selectedSoundPack && (
         <Dialog open={!!selectedSoundPack} onOpenChange={() => setSelectedSoundPack(null)}>
@@ -290,7 +492,7 @@ export default function Marketplace() {
             <DialogHeader>
               <DialogTitle>{selectedSoundPack.name}</DialogTitle>
               <DialogDescription>
-                Created by {selectedSoundPack.userId === 1 ? 'You' : 'Another User'}
+                Created by {isOwnPack(selectedSoundPack) ? 'You' : 'Another User'}
               </DialogDescription>
             </DialogHeader>
             
@@ -309,14 +511,49 @@ export default function Marketplace() {
                 </p>
               </div>
               
+              {previewSounds.length > 0 && (
+                <div className="flex flex-col gap-1.5">
+                  <h3 className="font-medium">Sounds</h3>
+                  <div className="grid grid-cols-2 gap-3 max-h-64 overflow-y-auto">
+                    {previewSounds.map((sound) => (
+                      <div key={sound.id} className="flex flex-col gap-1">
+                        <div className="flex justify-between text-xs">
+                          <span className="truncate">{sound.name}</span>
+                          <span className="text-gray-500">{sound.note}{sound.octave}</span>
+                        </div>
+                        {sound.soundFile ? (
+                          <WaveformThumbnail sound={sound} buckets={32} className="h-8" />
+                        ) : (
+                          <div className="h-8 rounded bg-gray-50 flex items-center justify-center text-xs text-gray-400">
+                            {sound.waveform}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {previewPack && (
+                <div className="flex flex-col gap-1.5">
+                  <h3 className="font-medium">Reviews</h3>
+                  <ReviewList reviews={previewReviews} />
+                </div>
+              )}
+              
               <div className="flex justify-between items-center my-2">
                 <div className="flex gap-4">
-                  <Badge variant={selectedSoundPack.price > 0 ? "default" : "secondary"}>
-                    {formatPrice(selectedSoundPack.price)}
-                  </Badge>
+                  <PriceTag pack={selectedSoundPack} />
                   <div className="flex items-center text-amber-500">
                     <Star className="h-4 w-4 mr-1" />
-                    <span>{selectedSoundPack.rating || '-'}</span>
+                    <span>
+                      {formatRating(selectedSoundPack)}
+                      {selectedSoundPack.reviewCount > 0 && (
+                        <span className="text-gray-500 ml-1">
+                          ({selectedSoundPack.reviewCount} {selectedSoundPack.reviewCount === 1 ? 'review' : 'reviews'})
+                        </span>
+                      )}
+                    </span>
                   </div>
                   <div className="flex items-center text-gray-500">
                     <Download className="h-4 w-4 mr-1" />
@@ -325,19 +562,27 @@ export default function Marketplace() {
                 </div>
                 
                 <div className="flex gap-2">
-                  {selectedSoundPack.userId === 1 ? (
+                  {canEditPack(selectedSoundPack) ? (
                     <Button 
                       onClick={() => navigate(`/soundpack/${selectedSoundPack.id}/edit`)}
                     >
                       Edit Pack
                     </Button>
                   ) : (
-                    <Button
-                      onClick={() => handlePurchase(selectedSoundPack.id)}
-                      disabled={purchaseMutation.isPending}
-                    >
-                      {selectedSoundPack.price > 0 ? 'Purchase' : 'Get for Free'}
-                    </Button>
+                    <>
+                      <Button variant="outline" onClick={handleGift}>
+                        <Gift className="h-4 w-4 mr-2" />
+                        Give as Gift
+                      </Button>
+                      <Button
+                        onClick={() => handlePurchase(selectedSoundPack)}
+                        disabled={purchaseMutation.isPending || addToCartMutation.isPending}
+                      >
+                        {currentPrice(selectedSoundPack) === 0
+                          ? 'Get for Free'
+                          : isInCart(selectedSoundPack) ? 'View Cart' : 'Add to Cart'}
+                      </Button>
+                    </>
                   )}
                 </div>
               </div>
@@ -345,6 +590,16 @@ export default function Marketplace() {
           </DialogContent>
         </Dialog>
       )}
+      
+      {selectedSoundPack && (
+        <GiftDialog
+          packId={selectedSoundPack.id}
+          name={selectedSoundPack.name}
+          price={currentPrice(selectedSoundPack)}
+          open={giftDialogOpen}
+          onOpenChange={setGiftDialogOpen}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Gift, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import { GiftRedemption, giftCodeSchema } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+
+export default function Redeem() {
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const [codeInput, setCodeInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // What the last code redeemed gave, to show until another is entered
+  const [redemption, setRedemption] = useState<GiftRedemption | null>(null);
+
+  const redeemMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest('/api/redeem', 'POST', { code });
+      return (await res.json()) as GiftRedemption;
+    },
+    onSuccess: (redeemed) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user!.id}/purchases`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+      setRedemption(redeemed);
+      setCodeInput('');
+    },
+    onError: (error) => {
+      console.error('Error redeeming gift code:', error);
+      setError(error.message.replace(/^\d+: /, ''));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = giftCodeSchema.safeParse(codeInput);
+    setError(code.success ? null : code.error.issues[0].message);
+    setRedemption(null);
+    if (code.success) redeemMutation.mutate(code.data);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-xl">
+      <h1 className="text-3xl font-bold mb-8">Redeem a Gift</h1>
+
+      <Card>
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle>Gift code</CardTitle>
+            <CardDescription>
+              Enter the code someone sent you to add the sound packs they bought you to your account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <Label htmlFor="gift-code" className="sr-only">Gift code</Label>
+            <Input
+              id="gift-code"
+              placeholder="XXXX-XXXX-XXXX"
+              className="font-mono"
+              value={codeInput}
+              onChange={(e) => setCodeInput(e.target.value)}
+              disabled={redeemMutation.isPending}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" disabled={redeemMutation.isPending || !codeInput.trim()}>
+              {redeemMutation.isPending
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Gift className="h-4 w-4 mr-2" />}
+              Redeem
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+
+      {redemption && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>A gift from {redemption.from.username}</CardTitle>
+            <CardDescription>
+              {redemption.purchases.length === 1 ? 'This sound pack is' : 'These sound packs are'} now yours.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {redemption.purchases.map((purchase) => (
+                <li key={purchase.id} className="py-2">{purchase.soundPack?.name}</li>
+              ))}
+            </ul>
+          </CardContent>
+          <CardFooter>
+            <Button variant="outline" onClick={() => navigate('/marketplace')}>Browse Marketplace</Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+}
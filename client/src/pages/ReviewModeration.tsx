@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Star, EyeOff, Eye, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+import { ModeratedReview, ReviewStatus } from '@shared/schema';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+
+// "queue" is the default view: held reviews and reviews with open reports
+const VIEWS: Record<string, { label: string; status?: ReviewStatus }> = {
+  queue: { label: 'Needs attention' },
+  pending: { label: 'Awaiting approval', status: 'pending' },
+  hidden: { label: 'Hidden', status: 'hidden' },
+  published: { label: 'Published', status: 'published' },
+};
+
+const STATUS_BADGES: Record<ReviewStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  published: { label: 'Published', variant: 'default' },
+  pending: { label: 'Awaiting approval', variant: 'secondary' },
+  hidden: { label: 'Hidden', variant: 'destructive' },
+};
+
+export default function ReviewModeration() {
+  const [view, setView] = useState('queue');
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const status = VIEWS[view].status;
+  const { data: reviews = [], isLoading } = useQuery<ModeratedReview[]>({
+    queryKey: ['/api/admin/reviews', { status }],
+    enabled: !!user?.isAdmin,
+  });
+
+  // Hide, restore (or approve) and delete all change the queue and the
+  // pack's rating
+  const onModerated = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/reviews'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/soundpacks'] });
+    toast({ title });
+  };
+  const onModerationError = (error: Error) => {
+    console.error('Error moderating review:', error);
+    toast({
+      title: 'Moderation failed',
+      description: error.message.replace(/^\d+: /, ''),
+      variant: 'destructive',
+    });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'hide' | 'restore' }) => {
+      return await apiRequest(`/api/admin/reviews/${id}/${action}`, 'POST');
+    },
+    onSuccess: (_, { action }) => onModerated(action === 'hide' ? 'Review hidden' : 'Review published'),
+    onError: onModerationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/reviews/${id}`, 'DELETE');
+    },
+    onSuccess: () => onModerated('Review deleted'),
+    onError: onModerationError,
+  });
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="container mx-auto px-4 py-12 max-w-6xl">
+        <h1 className="text-3xl font-bold mb-2">Review Moderation</h1>
+        <p className="text-gray-500">Only admins can moderate reviews.</p>
+      </div>
+    );
+  }
+
+  const isBusy = statusMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-6xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Review Moderation</h1>
+          <p className="text-gray-500">Approve held reviews and deal with reported ones</p>
+        </div>
+        <Select value={view} onValueChange={setView}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(VIEWS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="h-32 bg-gray-100 rounded animate-pulse"></div>
+      ) : reviews.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">Nothing to moderate</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Review</TableHead>
+              <TableHead>Pack</TableHead>
+              <TableHead>Why it's here</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reviews.map((review) => {
+              const openReports = review.reports.filter((report) => !report.resolvedAt);
+              return (
+                <TableRow key={review.id}>
+                  <TableCell className="max-w-sm align-top">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="flex items-center text-amber-500">
+                        <Star className="h-3.5 w-3.5 mr-1 fill-current" />
+                        {review.rating}
+                      </span>
+                      <span className="text-sm text-gray-500">by {review.author.username}</span>
+                      <Badge variant={STATUS_BADGES[review.status as ReviewStatus].variant}>
+                        {STATUS_BADGES[review.status as ReviewStatus].label}
+                      </Badge>
+                    </div>
+                    <p className="text-sm">{review.comment || <span className="text-gray-400">No comment</span>}</p>
+                  </TableCell>
+                  <TableCell className="align-top">{review.soundPack.name}</TableCell>
+                  <TableCell className="align-top text-sm">
+                    {review.status === 'pending' && review.heldReason && (
+                      <p>Held: {review.heldReason}</p>
+                    )}
+                    {openReports.map((report) => (
+                      <p key={report.id} className="text-gray-600">Reported: {report.reason}</p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <div className="flex justify-end gap-2">
+                      {review.status !== 'hidden' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isBusy}
+                          onClick={() => statusMutation.mutate({ id: review.id, action: 'hide' })}
+                        >
+                          <EyeOff className="h-4 w-4 mr-1" />
+                          Hide
+                        </Button>
+                      )}
+                      {(review.status !== 'published' || openReports.length > 0) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isBusy}
+                          onClick={() => statusMutation.mutate({ id: review.id, action: 'restore' })}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          {review.status === 'pending' ? 'Approve' : review.status === 'hidden' ? 'Restore' : 'Keep'}
+                        </Button>
+                      )}
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => deleteMutation.mutate(review.id)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,10 @@ import {
   PlayCircle,
   PauseCircle,
   Edit,
-  Save
+  Save,
+  Download,
+  FileMusic,
+  Piano
 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
@@ -28,11 +31,19 @@ import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 
-import { Sound, SoundPack, insertSoundSchema } from '@shared/schema';
+import { Sound, SoundPack, Tag, insertSoundSchema, adsrEnvelopeSchema } from '@shared/schema';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient, getQueryFn, apiRequest } from '@/lib/queryClient';
 import { ADSREnvelope } from '@/components/piano/SoundSettings';
+import { useAuth } from '@/hooks/use-auth';
+import EditSoundPackDialog from '@/components/soundpack/EditSoundPackDialog';
+import EditSoundDialog from '@/components/soundpack/EditSoundDialog';
+import AudioAnalysisSummary from '@/components/soundpack/AudioAnalysisSummary';
+import WaveformThumbnail from '@/components/soundpack/WaveformThumbnail';
+import ArchiveImportDialog, { describeIssuePath } from '@/components/soundpack/ArchiveImportDialog';
+import SoundFontImportDialog from '@/components/soundpack/SoundFontImportDialog';
+import SalePrices from '@/components/soundpack/SalePrices';
 
 // Note frequencies
 const getNoteFrequency = (note: string, octave: number): number => {
@@ -53,12 +64,7 @@ const createSoundSchema = insertSoundSchema.extend({
   note: z.string().min(1, { message: 'Note is required' }),
   octave: z.coerce.number().min(1).max(8),
   soundFile: z.instanceof(File).optional(),
-  envelope: z.object({
-    attack: z.number().min(0).max(2),
-    decay: z.number().min(0).max(2),
-    sustain: z.number().min(0).max(1),
-    release: z.number().min(0).max(5),
-  }).optional(),
+  envelope: adsrEnvelopeSchema.optional(),
   waveform: z.enum(['sine', 'square', 'sawtooth', 'triangle']).default('sine'),
 });
 
@@ -69,9 +75,14 @@ export default function SoundPackEditor() {
   const packId = parseInt(id);
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
   
   // UI States
   const [isAddSoundDialogOpen, setIsAddSoundDialogOpen] = useState(false);
+  const [isEditPackDialogOpen, setIsEditPackDialogOpen] = useState(false);
+  const [isSfzImportDialogOpen, setIsSfzImportDialogOpen] = useState(false);
+  const [isSoundFontImportDialogOpen, setIsSoundFontImportDialogOpen] = useState(false);
+  const [editingSound, setEditingSound] = useState<Sound | null>(null);
   const [playingSound, setPlayingSound] = useState<number | null>(null);
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [oscillator, setOscillator] = useState<OscillatorNode | null>(null);
@@ -103,7 +114,7 @@ export default function SoundPackEditor() {
   // Fetch sound pack and sounds
   const soundPackQuery = useQuery({
     queryKey: ['/api/soundpacks', packId],
-    queryFn: getQueryFn<SoundPack & { sounds: Sound[] }>({ on401: 'returnNull' }),
+    queryFn: getQueryFn<SoundPack & { sounds: Sound[]; tags: Tag[] }>({ on401: 'returnNull' }),
     enabled: !isNaN(packId)
   });
   
@@ -148,6 +159,7 @@ export default function SoundPackEditor() {
       return fetch(`/api/soundpacks/${packId}/sounds`, {
         method: 'POST',
         body: formData,
+        credentials: 'include',
       }).then(res => {
         if (!res.ok) {
           return res.json().then(err => {
@@ -334,7 +346,8 @@ export default function SoundPackEditor() {
     );
   }
   
-  if (!soundPack) {
+  // Only the owner (or an admin) can edit; the server enforces the same rule
+  if (!soundPack || !user || (soundPack.userId !== user.id && !user.isAdmin)) {
     return (
       <div className="container mx-auto px-4 py-12 text-center">
         <h1 className="text-xl font-medium mb-4">Sound Pack Not Found</h1>
@@ -356,9 +369,27 @@ export default function SoundPackEditor() {
           <h1 className="text-3xl font-bold">{soundPack.name} - Editor</h1>
         </div>
         
-        <Badge variant={soundPack.isPublic ? "default" : "outline"}>
-          {soundPack.isPublic ? 'Public' : 'Private'}
-        </Badge>
+        <div className="flex items-center gap-3">
+          <Badge variant={soundPack.isPublic ? "default" : "outline"}>
+            {soundPack.isPublic ? 'Public' : 'Private'}
+          </Badge>
+          <Button variant="outline" onClick={() => setIsEditPackDialogOpen(true)}>
+            <Edit className="h-4 w-4 mr-2" />
+            Edit Pack
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/soundpacks/${soundPack.id}/export`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export Pack
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/soundpacks/${soundPack.id}/sfz`} download>
+              <FileMusic className="h-4 w-4 mr-2" />
+              Export SFZ
+            </a>
+          </Button>
+        </div>
       </div>
       
       {/* Sound Pack Details */}
@@ -391,20 +422,43 @@ export default function SoundPackEditor() {
                   <span className="text-gray-500 mr-2">Sounds:</span> 
                   <Badge variant="secondary">{sounds.length}</Badge>
                 </div>
+                
+                {soundPack.tags.length > 0 && (
+                  <div className="flex items-center">
+                    <span className="text-gray-500 mr-2">Tags:</span> 
+                    <div className="flex flex-wrap gap-1">
+                      {soundPack.tags.map((tag) => (
+                        <Badge key={tag.id} variant="outline">{tag.name}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
       
+      <SalePrices soundPack={soundPack} />
+      
       {/* Sounds Section */}
       <div className="mb-4 flex justify-between items-center">
         <h2 className="text-2xl font-bold">Sounds</h2>
         
-        <Button onClick={() => setIsAddSoundDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Sound
-        </Button>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" onClick={() => setIsSfzImportDialogOpen(true)}>
+            <FileMusic className="h-4 w-4 mr-2" />
+            Import SFZ
+          </Button>
+          <Button variant="outline" onClick={() => setIsSoundFontImportDialogOpen(true)}>
+            <Piano className="h-4 w-4 mr-2" />
+            Import SF2
+          </Button>
+          <Button onClick={() => setIsAddSoundDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Sound
+          </Button>
+        </div>
       </div>
       
       {sounds.length === 0 ? (
@@ -431,6 +485,8 @@ export default function SoundPackEditor() {
               </CardHeader>
               
               <CardContent className="pb-3">
+                {sound.soundFile && <WaveformThumbnail sound={sound} className="mb-3" />}
+                
                 <div className="flex items-center justify-between mb-2">
                   <Badge variant="outline">{sound.waveform}</Badge>
                   
@@ -464,6 +520,8 @@ export default function SoundPackEditor() {
                     </div>
                   </div>
                 </div>
+                
+                <AudioAnalysisSummary sound={sound} />
               </CardContent>
               
               <CardFooter className="flex justify-between pt-2">
@@ -486,14 +544,25 @@ export default function SoundPackEditor() {
                   )}
                 </Button>
                 
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-8 text-red-500 hover:text-red-700 hover:bg-red-50"
-                  onClick={() => handleDeleteSound(sound.id)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8"
+                    onClick={() => setEditingSound(sound)}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 text-red-500 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => handleDeleteSound(sound.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
               </CardFooter>
             </Card>
           ))}
@@ -762,7 +831,7 @@ export default function SoundPackEditor() {
                     id="sound-upload"
                     type="file"
                     className="hidden"
-                    accept=".mp3,.wav"
+                    accept=".wav,.mp3,.ogg,.flac"
                     onChange={handleSoundFileChange}
                   />
                   
@@ -781,7 +850,7 @@ export default function SoundPackEditor() {
                         Click to upload audio file
                       </p>
                       <p className="text-xs text-gray-400">
-                        MP3, WAV or OGG (max. 5MB)
+                        WAV, MP3, OGG or FLAC (max. 10MB)
                       </p>
                     </div>
                   )}
@@ -826,6 +895,40 @@ export default function SoundPackEditor() {
           </Form>
         </DialogContent>
       </Dialog>
+      
+      <EditSoundPackDialog
+        soundPack={soundPack}
+        open={isEditPackDialogOpen}
+        onOpenChange={setIsEditPackDialogOpen}
+      />
+      
+      <ArchiveImportDialog<{ sounds: Sound[]; skipped: { path: (string | number)[]; message: string }[] }>
+        open={isSfzImportDialogOpen}
+        onOpenChange={setIsSfzImportDialogOpen}
+        title="Import SFZ"
+        description="Add sounds from a zip holding one .sfz file and the samples it uses."
+        url={`/api/soundpacks/${soundPack.id}/sfz`}
+        onImported={({ sounds, skipped }) => {
+          queryClient.invalidateQueries({ queryKey: ['/api/soundpacks', packId] });
+          toast({
+            title: `${sounds.length} ${sounds.length === 1 ? 'sound' : 'sounds'} imported`,
+            description: skipped.length > 0
+              ? `Skipped ${skipped.map((issue) => `${describeIssuePath(issue.path)} (${issue.message})`).join(', ')}`
+              : 'All regions were imported.',
+          });
+        }}
+      />
+      
+      <SoundFontImportDialog
+        packId={soundPack.id}
+        open={isSoundFontImportDialogOpen}
+        onOpenChange={setIsSoundFontImportDialogOpen}
+      />
+      
+      <EditSoundDialog
+        sound={editingSound}
+        onClose={() => setEditingSound(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
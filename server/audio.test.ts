@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AudioDecodeError, decodeWav, encodeWav } from "./audio";
+
+function chunk(id: string, data: Buffer, size = data.length): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32LE(size, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+const riff = (chunks: Buffer[]) => chunk('RIFF', Buffer.concat([Buffer.from('WAVE', 'latin1'), ...chunks]));
+
+interface Format {
+  format?: number; // PCM unless given
+  channels?: number;
+  bits: number;
+  blockAlign?: number;
+  extensible?: number; // Wrap the format in WAVE_FORMAT_EXTENSIBLE with this sub-format
+}
+
+function fmt({ format = 1, channels = 1, bits, blockAlign = channels * bits / 8, extensible }: Format): Buffer {
+  const data = Buffer.alloc(extensible ? 40 : 16);
+  data.writeUInt16LE(extensible ? 0xfffe : format, 0);
+  data.writeUInt16LE(channels, 2);
+  data.writeUInt32LE(8000, 4);
+  data.writeUInt32LE(8000 * blockAlign, 8);
+  data.writeUInt16LE(blockAlign, 12);
+  data.writeUInt16LE(bits, 14);
+  if (extensible) {
+    data.writeUInt16LE(22, 16);
+    data.writeUInt16LE(extensible, 24);
+  }
+  return chunk('fmt ', data);
+}
+
+const decoded = (data: Buffer) => decodeWav(data).channelData.map((channel) => Array.from(channel));
+
+describe('decodeWav', () => {
+  it('reads every PCM and float encoding to levels between -1 and 1', () => {
+    assert.deepEqual(decoded(riff([fmt({ bits: 8 }), chunk('data', Buffer.from([0x80, 0xc0, 0x00]))])), [[0, 0.5, -1]]);
+
+    const pcm16 = Buffer.alloc(4);
+    pcm16.writeInt16LE(0x4000, 0);
+    pcm16.writeInt16LE(-0x8000, 2);
+    assert.deepEqual(decoded(riff([fmt({ bits: 16 }), chunk('data', pcm16)])), [[0.5, -1]]);
+
+    const pcm24 = Buffer.alloc(6);
+    pcm24.writeIntLE(-0x400000, 0, 3);
+    pcm24.writeIntLE(0x200000, 3, 3);
+    assert.deepEqual(decoded(riff([fmt({ bits: 24 }), chunk('data', pcm24)])), [[-0.5, 0.25]]);
+
+    const float64 = Buffer.alloc(16);
+    float64.writeDoubleLE(0.75, 0);
+    float64.writeDoubleLE(-0.125, 8);
+    assert.deepEqual(decoded(riff([fmt({ format: 3, bits: 64 }), chunk('data', float64)])), [[0.75, -0.125]]);
+  });
+
+  it('takes the real format from an extensible header', () => {
+    const float32 = Buffer.alloc(8);
+    float32.writeFloatLE(0.5, 0);
+    float32.writeFloatLE(-0.25, 4);
+    assert.deepEqual(decoded(riff([fmt({ bits: 32, channels: 2, extensible: 3 }), chunk('data', float32)])), [[0.5], [-0.25]]);
+  });
+
+  it('skips other chunks, with their padding, and clamps an unset data size', () => {
+    const samples = Buffer.from([0x80, 0xc0, 0x40, 0x80]);
+    const wav = riff([
+      chunk('LIST', Buffer.from('INFOx', 'latin1')), // 5 bytes, so a pad byte follows
+      fmt({ bits: 8, channels: 2 }),
+      chunk('data', samples, 0xffffffff),
+    ]);
+    assert.deepEqual(decoded(wav), [[0, -0.5], [0.5, 0]]);
+  });
+
+  it('turns down files it cannot read', () => {
+    const data = chunk('data', Buffer.alloc(2));
+    const cases: [Buffer, string][] = [
+      [Buffer.from('RIFF\0\0\0\0AVI ', 'latin1'), 'Not a RIFF/WAVE file'],
+      [riff([data, fmt({ bits: 16 })]), 'WAV data chunk comes before its format chunk'],
+      [riff([fmt({ bits: 16 })]), 'WAV file is missing its format or data chunk'],
+      [riff([chunk('fmt ', Buffer.alloc(8)), data]), 'WAV format chunk is too short'],
+      [riff([fmt({ bits: 16, blockAlign: 4 }), data]), 'WAV format chunk is inconsistent'],
+      [riff([fmt({ format: 2, bits: 16 }), data]), 'Unsupported WAV encoding (format 2, 16-bit)'],
+    ];
+    for (const [wav, message] of cases) {
+      assert.throws(() => decodeWav(wav), new AudioDecodeError(message));
+    }
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes 16-bit PCM that decodes back, clipped to full scale', () => {
+    const wav = encodeWav({
+      sampleRate: 22050,
+      channelData: [Float32Array.from([0, 0.5, -0.5, 2]), Float32Array.from([1, -1, 0.25, -2])],
+    });
+    assert.equal(wav.length, 44 + 4 * 2 * 2);
+
+    const { sampleRate, channelData } = decodeWav(wav);
+    assert.equal(sampleRate, 22050);
+    const expected = [[0, 0.5, -0.5, 1], [1, -1, 0.25, -1]];
+    channelData.forEach((channel, index) => {
+      channel.forEach((level, frame) => {
+        assert.ok(Math.abs(level - expected[index][frame]) < 1 / 0x7fff, `channel ${index} frame ${frame}: ${level}`);
+      });
+    });
+  });
+
+  it('writes a header with no frames for empty audio', () => {
+    const wav = encodeWav({ sampleRate: 44100, channelData: [new Float32Array(0)] });
+    assert.deepEqual(decodeWav(wav).channelData.map((channel) => channel.length), [0]);
+  });
+});
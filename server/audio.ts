@@ -0,0 +1,292 @@
+import type { Request, Response, NextFunction } from "express";
+import { spawn } from "child_process";
+import { SILENCE_LEVEL, type AudioAnalysis } from "@shared/schema";
+
+// Decoded audio as one Float32Array of samples (-1 to 1) per channel
+export interface DecodedAudio {
+  sampleRate: number;
+  channelData: Float32Array[];
+}
+
+// Turns the bytes of an uploaded file into samples. WAV is decoded here;
+// other formats need a decoder registered with registerAudioDecoder.
+export interface AudioDecoder {
+  // Mime types as assigned by acceptUpload, e.g. 'audio/mpeg'
+  mimetypes: string[];
+  decode(data: Buffer): Promise<DecodedAudio>;
+}
+
+// The file claimed to be audio but its contents couldn't be decoded
+export class AudioDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioDecodeError';
+  }
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export function decodeWav(data: Buffer): DecodedAudio {
+  if (data.length < 12 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WAVE') {
+    throw new AudioDecodeError('Not a RIFF/WAVE file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; blockAlign: number; bitsPerSample: number } | undefined;
+  let samples: Buffer | undefined;
+
+  // Walk the chunks; anything besides fmt and data (LIST, fact, cue...) is skipped
+  let offset = 12;
+  while (offset + 8 <= data.length && !samples) {
+    const id = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const start = offset + 8;
+    // Writers that stream sometimes leave the data size unset, so clamp to the file
+    const end = Math.min(start + size, data.length);
+
+    if (id === 'fmt ') {
+      if (end - start < 16) {
+        throw new AudioDecodeError('WAV format chunk is too short');
+      }
+      let audioFormat = data.readUInt16LE(start);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && end - start >= 26) {
+        // The first two bytes of the sub-format GUID hold the real format tag
+        audioFormat = data.readUInt16LE(start + 24);
+      }
+      format = {
+        audioFormat,
+        channels: data.readUInt16LE(start + 2),
+        sampleRate: data.readUInt32LE(start + 4),
+        blockAlign: data.readUInt16LE(start + 12),
+        bitsPerSample: data.readUInt16LE(start + 14),
+      };
+    } else if (id === 'data') {
+      if (!format) {
+        throw new AudioDecodeError('WAV data chunk comes before its format chunk');
+      }
+      samples = data.subarray(start, end);
+    }
+
+    // Chunks are padded to an even length
+    offset = start + size + (size % 2);
+  }
+
+  if (!format || !samples) {
+    throw new AudioDecodeError('WAV file is missing its format or data chunk');
+  }
+
+  const { audioFormat, channels, sampleRate, blockAlign, bitsPerSample } = format;
+  const bytesPerSample = bitsPerSample / 8;
+  if (channels < 1 || sampleRate < 1 || blockAlign !== channels * bytesPerSample) {
+    throw new AudioDecodeError('WAV format chunk is inconsistent');
+  }
+
+  let read: (offset: number) => number;
+  if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 8) {
+    read = (o) => (samples!.readUInt8(o) - 128) / 128;
+  } else if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 16) {
+    read = (o) => samples!.readInt16LE(o) / 0x8000;
+  } else if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 24) {
+    read = (o) => samples!.readIntLE(o, 3) / 0x800000;
+  } else if (audioFormat === WAVE_FORMAT_PCM && bitsPerSample === 32) {
+    read = (o) => samples!.readInt32LE(o) / 0x80000000;
+  } else if (audioFormat === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    read = (o) => samples!.readFloatLE(o);
+  } else if (audioFormat === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 64) {
+    read = (o) => samples!.readDoubleLE(o);
+  } else {
+    throw new AudioDecodeError(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+  }
+
+  const frames = Math.floor(samples.length / blockAlign);
+  const channelData = Array.from({ length: channels }, () => new Float32Array(frames));
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      channelData[channel][frame] = read(frame * blockAlign + channel * bytesPerSample);
+    }
+  }
+
+  return { sampleRate, channelData };
+}
+
+// 16-bit PCM WAV of decoded audio, clipping anything outside -1 to 1
+export function encodeWav({ sampleRate, channelData }: DecodedAudio): Buffer {
+  const channels = channelData.length;
+  const frames = channelData[0]?.length ?? 0;
+  const blockAlign = channels * 2;
+  const dataSize = frames * blockAlign;
+
+  const data = Buffer.alloc(44 + dataSize);
+  data.write('RIFF', 0, 'latin1');
+  data.writeUInt32LE(36 + dataSize, 4);
+  data.write('WAVE', 8, 'latin1');
+  data.write('fmt ', 12, 'latin1');
+  data.writeUInt32LE(16, 16);
+  data.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  data.writeUInt16LE(channels, 22);
+  data.writeUInt32LE(sampleRate, 24);
+  data.writeUInt32LE(sampleRate * blockAlign, 28);
+  data.writeUInt16LE(blockAlign, 32);
+  data.writeUInt16LE(16, 34);
+  data.write('data', 36, 'latin1');
+  data.writeUInt32LE(dataSize, 40);
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channelData[channel][frame]));
+      data.writeInt16LE(Math.round(sample * 0x7fff), 44 + frame * blockAlign + channel * 2);
+    }
+  }
+  return data;
+}
+
+const wavDecoder: AudioDecoder = {
+  mimetypes: ['audio/wav'],
+  decode: async (data) => decodeWav(data),
+};
+
+// Run a command with data on stdin and collect its stdout
+function run(command: string, args: string[], input: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    child.stdout.on('data', (chunk) => stdout.push(chunk));
+    child.stderr.on('data', (chunk) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new AudioDecodeError(Buffer.concat(stderr).toString().trim() || `${command} exited with code ${code}`));
+      }
+    });
+
+    // The process may stop reading early on bad input; its exit code reports that
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
+
+// Decodes MP3, OGG and FLAC by piping them through ffmpeg, which must be
+// installed on the server
+export function createFfmpegDecoder(ffmpegPath = 'ffmpeg', ffprobePath = 'ffprobe'): AudioDecoder {
+  return {
+    mimetypes: ['audio/mpeg', 'audio/ogg', 'audio/flac'],
+    async decode(data) {
+      const probe = JSON.parse((await run(ffprobePath, [
+        '-v', 'error',
+        '-select_streams', 'a:0',
+        '-show_entries', 'stream=sample_rate,channels',
+        '-of', 'json',
+        '-i', 'pipe:0',
+      ], data)).toString());
+
+      const stream = probe.streams?.[0];
+      const sampleRate = parseInt(stream?.sample_rate);
+      const channels = parseInt(stream?.channels);
+      if (!sampleRate || !channels) {
+        throw new AudioDecodeError('No audio stream found');
+      }
+
+      // Interleaved 32-bit float samples at the file's own rate and channel count
+      const pcm = await run(ffmpegPath, ['-v', 'error', '-i', 'pipe:0', '-f', 'f32le', '-acodec', 'pcm_f32le', 'pipe:1'], data);
+      const frames = Math.floor(pcm.length / (4 * channels));
+      const channelData = Array.from({ length: channels }, () => new Float32Array(frames));
+      for (let frame = 0; frame < frames; frame++) {
+        for (let channel = 0; channel < channels; channel++) {
+          channelData[channel][frame] = pcm.readFloatLE((frame * channels + channel) * 4);
+        }
+      }
+
+      return { sampleRate, channelData };
+    },
+  };
+}
+
+const decoders: AudioDecoder[] = [wavDecoder];
+
+// Add support for more formats. Decoders registered earlier win when two
+// handle the same mime type.
+export function registerAudioDecoder(decoder: AudioDecoder) {
+  decoders.push(decoder);
+}
+
+if (process.env.FFMPEG_PATH) {
+  registerAudioDecoder(createFfmpegDecoder(process.env.FFMPEG_PATH, process.env.FFPROBE_PATH));
+}
+
+// Decode a file of the given mime type. Returns undefined when no decoder
+// handles the format; throws AudioDecodeError when the contents are broken.
+export async function decodeAudio(data: Buffer, mimetype: string): Promise<DecodedAudio | undefined> {
+  const decoder = decoders.find((d) => d.mimetypes.includes(mimetype));
+  return decoder?.decode(data);
+}
+
+export function analyzeAudio({ sampleRate, channelData }: DecodedAudio): AudioAnalysis {
+  const frames = channelData[0]?.length ?? 0;
+  let peak = 0;
+  let sumOfSquares = 0;
+  let firstAudibleFrame = frames;
+
+  for (const samples of channelData) {
+    for (let frame = 0; frame < frames; frame++) {
+      const level = Math.abs(samples[frame]);
+      if (level > peak) peak = level;
+      sumOfSquares += samples[frame] * samples[frame];
+      if (level > SILENCE_LEVEL && frame < firstAudibleFrame) firstAudibleFrame = frame;
+    }
+  }
+
+  const sampleCount = frames * channelData.length;
+  return {
+    duration: frames / sampleRate,
+    sampleRate,
+    channels: channelData.length,
+    peak,
+    rms: sampleCount > 0 ? Math.sqrt(sumOfSquares / sampleCount) : 0,
+    leadingSilence: firstAudibleFrame / sampleRate,
+  };
+}
+
+// Sound columns for a file no registered decoder understands
+const UNMEASURED: Record<keyof AudioAnalysis, null> = {
+  duration: null,
+  sampleRate: null,
+  channels: null,
+  peak: null,
+  rms: null,
+  leadingSilence: null,
+};
+
+// Analysis of a file ready to be saved on a sound, with every column null
+// when no decoder handles the format. Throws AudioDecodeError when the
+// contents are broken.
+export async function measureAudio(data: Buffer, mimetype: string): Promise<AudioAnalysis | typeof UNMEASURED> {
+  const decoded = await decodeAudio(data, mimetype);
+  return decoded ? analyzeAudio(decoded) : UNMEASURED;
+}
+
+// Measure the sound file acceptUpload just stored and put the results in
+// res.locals.audioAnalysis, ready to be saved on the sound. Files that turn
+// out not to decode are answered with a 400 (and so removed again).
+export async function analyzeSoundUpload(req: Request, res: Response, next: NextFunction) {
+  if (!req.file) {
+    return next();
+  }
+
+  try {
+    res.locals.audioAnalysis = await measureAudio(req.file.buffer, req.file.mimetype);
+    next();
+  } catch (error) {
+    if (error instanceof AudioDecodeError) {
+      return res.status(400).json({
+        status: 'error',
+        message: `Sound file could not be decoded: ${error.message}`
+      });
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,232 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { validateRequest, routeId } from "./validation";
+import {
+  registerUserSchema,
+  loginUserSchema,
+  type User as SelectUser,
+  type PublicUser
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Accounts listed in ADMIN_USERNAMES (comma separated) are made admins when they register
+function isAdminUsername(username: string): boolean {
+  return (process.env.ADMIN_USERNAMES || '')
+    .split(',')
+    .map((name) => name.trim())
+    .includes(username);
+}
+
+// Strip the password hash before a user leaves the server
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Reject requests that don't carry a logged-in session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({
+      status: 'error',
+      message: 'Authentication required'
+    });
+  }
+  next();
+}
+
+// Reject requests from anyone but a logged-in admin
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({
+      status: 'error',
+      message: 'Authentication required'
+    });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({
+      status: 'error',
+      message: 'Only admins can do this'
+    });
+  }
+  next();
+}
+
+// For /users/:userId/... routes: the session user may only act as themselves
+export function requireSelf(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({
+      status: 'error',
+      message: 'Authentication required'
+    });
+  }
+  if (routeId(req, 'userId') !== req.user.id) {
+    return res.status(403).json({
+      status: 'error',
+      message: 'You can only access your own account'
+    });
+  }
+  next();
+}
+
+// Same as requireSelf, but admins may also act on anyone's account
+export function requireSelfOrAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated() && req.user.isAdmin) {
+    if (routeId(req, 'userId') === undefined) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'User not found'
+      });
+    }
+    return next();
+  }
+  requireSelf(req, res, next);
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret || "piano-store-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+  
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+  
+  // Create an account and log straight into it
+  app.post(
+    '/api/auth/register',
+    validateRequest(registerUserSchema),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const existingUser = await storage.getUserByUsername(req.body.username);
+        if (existingUser) {
+          return res.status(400).json({
+            status: 'error',
+            message: 'Username is already taken'
+          });
+        }
+        
+        const user = await storage.createUser({
+          username: req.body.username,
+          password: await hashPassword(req.body.password),
+          isAdmin: isAdminUsername(req.body.username),
+        });
+        
+        req.login(user, (err) => {
+          if (err) return next(err);
+          res.status(201).json(toPublicUser(user));
+        });
+      } catch (error) {
+        console.error('Error registering user:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to register user' 
+        });
+      }
+    }
+  );
+  
+  app.post(
+    '/api/auth/login',
+    validateRequest(loginUserSchema),
+    (req: Request, res: Response, next: NextFunction) => {
+      passport.authenticate('local', (err: unknown, user: SelectUser | false) => {
+        if (err) return next(err);
+        if (!user) {
+          return res.status(401).json({
+            status: 'error',
+            message: 'Invalid username or password'
+          });
+        }
+        
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(toPublicUser(user));
+        });
+      })(req, res, next);
+    }
+  );
+  
+  app.post('/api/auth/logout', (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.json({ status: 'success', message: 'Logged out' });
+    });
+  });
+  
+  app.get('/api/auth/me', (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Not authenticated'
+      });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -0,0 +1,249 @@
+import express, { type RequestHandler } from "express";
+import path from "path";
+import fs from "fs";
+import { randomBytes } from "crypto";
+import { fileURLToPath } from "url";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  NotFound
+} from "@aws-sdk/client-s3";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export interface BlobInfo {
+  key: string;
+  size: number;
+  modified: Date;
+}
+
+// Where uploaded files are kept. Keys are slash-separated paths such as
+// "user_3/image-....png"; the store decides what URL each key is served at.
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Undefined when there is no blob under the key
+  get(key: string): Promise<Buffer | undefined>;
+  exists(key: string): Promise<boolean>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+  list(): Promise<BlobInfo[]>;
+  // Public URL of a key, and back. keyForUrl is undefined for URLs that
+  // don't point into this store.
+  url(key: string): string;
+  keyForUrl(url: string): string | undefined;
+  // Serves the store's URLs when they point back at this server
+  handler?: { path: string; handle: RequestHandler };
+}
+
+// Blobs as files under a local directory, served by this server
+export class LocalBlobStore implements BlobStore {
+  handler: { path: string; handle: RequestHandler };
+  private root: string;
+
+  constructor(root: string, private baseUrl = '/uploads') {
+    // Absolute, so filePath can check keys against it
+    this.root = path.resolve(root);
+    fs.mkdirSync(this.root, { recursive: true });
+    this.handler = { path: baseUrl, handle: express.static(this.root) };
+  }
+
+  // Resolve a key inside the root, refusing anything that would escape it
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    // Write next to the target and rename, so concurrent writers of the same
+    // key never expose a half-written file
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.promises.access(this.filePath(key)).then(() => true, () => false);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  private async listFiles(dir: string): Promise<string[]> {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(entries.map((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? this.listFiles(entryPath) : Promise.resolve(entry.isFile() ? [entryPath] : []);
+    }));
+    return files.flat();
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    for (const filePath of await this.listFiles(this.root)) {
+      const stats = await fs.promises.stat(filePath);
+      blobs.push({
+        key: path.relative(this.root, filePath).split(path.sep).join('/'),
+        size: stats.size,
+        modified: stats.mtime
+      });
+    }
+    return blobs;
+  }
+
+  url(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  keyForUrl(url: string): string | undefined {
+    if (!url.startsWith(this.baseUrl + '/')) return undefined;
+
+    const key = url.slice(this.baseUrl.length + 1);
+    try {
+      this.filePath(key);
+      return key;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  // For S3-compatible services such as MinIO; omit for AWS
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Base URL clients download from, e.g. a CDN in front of the bucket.
+  // Defaults to the bucket's path-style URL.
+  publicUrl?: string;
+}
+
+// Blobs as objects in an S3-compatible bucket. The bucket (or publicUrl)
+// must allow anonymous reads for the URLs to work in the browser.
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+  private publicUrl: string;
+
+  constructor({ bucket, region, endpoint, accessKeyId, secretAccessKey, publicUrl }: S3BlobStoreOptions) {
+    this.bucket = bucket;
+    this.client = new S3Client({
+      region,
+      endpoint,
+      // MinIO and most self-hosted services only support path-style addressing
+      forcePathStyle: !!endpoint,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined
+    });
+
+    const defaultUrl = endpoint
+      ? `${endpoint.replace(/\/+$/, '')}/${bucket}`
+      : `https://${bucket}.s3.${region}.amazonaws.com`;
+    this.publicUrl = (publicUrl ?? defaultUrl).replace(/\/+$/, '');
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined;
+    } catch (error) {
+      if (error instanceof NoSuchKey) return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (error instanceof NotFound) return false;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async list(): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        ContinuationToken: continuationToken
+      }));
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) continue;
+        blobs.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          modified: object.LastModified ?? new Date(0)
+        });
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return blobs;
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  keyForUrl(url: string): string | undefined {
+    if (!url.startsWith(this.publicUrl + '/')) return undefined;
+    return url.slice(this.publicUrl.length + 1).split('/').map(decodeURIComponent).join('/');
+  }
+}
+
+// S3 when BLOB_STORE=s3, otherwise files under UPLOAD_DIR (default
+// <repo>/uploads) served from /uploads
+function createBlobStore(): BlobStore {
+  if (process.env.BLOB_STORE === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET must be set when BLOB_STORE=s3');
+    }
+    return new S3BlobStore({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION ?? 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      publicUrl: process.env.S3_PUBLIC_URL
+    });
+  }
+
+  return new LocalBlobStore(process.env.UPLOAD_DIR ?? path.join(__dirname, "../uploads"));
+}
+
+export const blobStore = createBlobStore();
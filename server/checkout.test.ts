@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { CouponWithPacks, PricedPack } from "@shared/schema";
+import { checkCouponApplied, CheckoutError } from "./checkout";
+
+const coupon: CouponWithPacks = {
+  id: 7,
+  userId: 1,
+  code: 'SAVE',
+  discountType: 'percent',
+  amount: 15,
+  allPacks: false,
+  expiresAt: null,
+  maxUses: null,
+  uses: 0,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  packIds: [2],
+};
+
+const item = (packId: number, couponId: number | null): PricedPack => ({
+  packId,
+  name: `Pack ${packId}`,
+  originalPrice: 500,
+  discount: couponId ? 75 : 0,
+  price: couponId ? 425 : 500,
+  couponId,
+  bundleId: null,
+});
+
+describe('checkCouponApplied', () => {
+  it('turns down a coupon that is for none of the packs', () => {
+    assert.throws(
+      () => checkCouponApplied([item(1, null), item(3, null)], coupon),
+      new CheckoutError('This coupon is not for any of these sound packs'),
+    );
+  });
+
+  it('lets through a coupon for some of the packs, or no coupon at all', () => {
+    checkCouponApplied([item(1, null), item(2, 7)], coupon);
+    checkCouponApplied([item(1, null)]);
+  });
+});
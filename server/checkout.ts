@@ -0,0 +1,341 @@
+import type { Request } from "express";
+import { createHash, randomBytes } from "crypto";
+import {
+  DEFAULT_CURRENCY,
+  GIFT_CODE_ALPHABET,
+  IDEMPOTENCY_KEY_HEADER,
+  idempotencyKeySchema,
+  type BundleWithPacks,
+  type CouponWithPacks,
+  type GiftRedemption,
+  type OrderWithItems,
+  type PricedPack,
+  type Purchase,
+  type SoundPack,
+  type User
+} from "@shared/schema";
+import { storage } from "./storage";
+import { paymentProvider, type PaymentResult } from "./payments";
+import { canViewPack } from "./permissions";
+import { couponProblem, priceBundlePacks, pricePacks } from "./pricing";
+
+// A purchase or checkout that can't go ahead; status is the HTTP status to
+// answer with
+export class CheckoutError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+// A request's Idempotency-Key, with a fingerprint of what it asked for
+export interface IdempotentRequest {
+  key: string;
+  requestHash: string;
+}
+
+// Read the Idempotency-Key header of a validated request, if it has one
+export function idempotentRequest(req: Request): IdempotentRequest | undefined {
+  const header = req.get(IDEMPOTENCY_KEY_HEADER);
+  if (header === undefined) return undefined;
+
+  const key = idempotencyKeySchema.safeParse(header);
+  if (!key.success) {
+    throw new CheckoutError(`${IDEMPOTENCY_KEY_HEADER} must be 1 to 255 characters`);
+  }
+
+  const requestHash = createHash('sha256')
+    .update(`${req.method} ${req.path} ${JSON.stringify(req.body)}`)
+    .digest('hex');
+  return { key: key.data, requestHash };
+}
+
+// The order an earlier request with the same Idempotency-Key created, brought
+// up to date, or undefined if this is the first. Reusing a key for a
+// different request is an error.
+export async function replayOrder(user: User, idempotent?: IdempotentRequest): Promise<OrderWithItems | undefined> {
+  if (!idempotent) return undefined;
+
+  const order = await storage.getOrderByIdempotencyKey(user.id, idempotent.key);
+  if (!order) return undefined;
+  if (order.requestHash !== idempotent.requestHash) {
+    throw new CheckoutError(`This ${IDEMPOTENCY_KEY_HEADER} was already used for a different request`, 422);
+  }
+  return refreshOrder(order);
+}
+
+// Why the user can't buy the pack, or undefined if they can. Visibility is
+// checked by the caller, which knows whether to answer 404. Owning the pack
+// doesn't stop anyone giving it as a gift.
+export async function purchaseBlocker(user: User, pack: SoundPack, gift = false): Promise<string | undefined> {
+  if (pack.userId === user.id) {
+    return 'You cannot buy your own sound pack';
+  }
+  if (!gift && await storage.hasPurchased(user.id, pack.id)) {
+    return 'User has already purchased this sound pack';
+  }
+  return undefined;
+}
+
+// Packs priced for an order, with the coupon that discounted them and what
+// to call the order on the buyer's statement. Gift orders are paid for by
+// the buyer and redeemed by someone else with a gift code.
+export interface PricedOrder {
+  items: PricedPack[];
+  coupon?: CouponWithPacks;
+  description: string;
+  gift?: boolean;
+}
+
+// The coupon a code names, as long as it can be used right now
+async function usableCoupon(couponCode: string | undefined, now: Date): Promise<CouponWithPacks | undefined> {
+  if (!couponCode) return undefined;
+
+  const coupon = await storage.getCouponByCode(couponCode);
+  if (!coupon) {
+    throw new CheckoutError('This coupon code is not valid');
+  }
+  const problem = couponProblem(coupon, now);
+  if (problem) {
+    throw new CheckoutError(problem);
+  }
+  return coupon;
+}
+
+// A coupon given at checkout has to take something off one of the packs
+export function checkCouponApplied(items: PricedPack[], coupon?: CouponWithPacks) {
+  if (coupon && !items.some(item => item.couponId !== null)) {
+    throw new CheckoutError('This coupon is not for any of these sound packs');
+  }
+}
+
+// What the packs cost right now, with their sales and the coupon applied.
+// A coupon that can't be used, or that's for none of the packs, is an error.
+export async function pricePurchase(packs: SoundPack[], couponCode?: string): Promise<PricedOrder> {
+  const now = new Date();
+  const sales = await storage.getActiveSalePrices(packs.map(pack => pack.id), now);
+  const coupon = await usableCoupon(couponCode, now);
+
+  const items = pricePacks(packs, sales, coupon);
+  checkCouponApplied(items, coupon);
+  return { items, coupon, description: packs.map(pack => pack.name).join(', ') };
+}
+
+// What the bundle costs the user: the shares of the packs they don't have
+// yet, with the coupon applied. Packs they already own, or can no longer
+// see, are left out and so is their share of the price. A gift is for
+// someone else, so only the packs the user can't see are left out of it.
+export async function priceBundle(
+  user: User,
+  bundle: BundleWithPacks,
+  couponCode?: string,
+  gift = false,
+): Promise<PricedOrder> {
+  if (bundle.userId === user.id) {
+    throw new CheckoutError('You cannot buy your own bundle');
+  }
+
+  const packIds: number[] = [];
+  for (const pack of bundle.packs) {
+    if (canViewPack(user, pack) && (gift || !await storage.hasPurchased(user.id, pack.id))) {
+      packIds.push(pack.id);
+    }
+  }
+  if (packIds.length === 0) {
+    throw new CheckoutError(gift
+      ? 'There are no sound packs in this bundle to give'
+      : 'You already have every sound pack in this bundle');
+  }
+
+  const coupon = await usableCoupon(couponCode, new Date());
+  const items = priceBundlePacks(bundle, packIds, coupon);
+  checkCouponApplied(items, coupon);
+  return { items, coupon, description: bundle.name, gift };
+}
+
+// A fresh gift code, formatted as giftCodeSchema formats what people type
+function newGiftCode(): string {
+  // The alphabet has 32 letters, so every byte picks one as likely as the next
+  const letters = Array.from(randomBytes(12), (byte) => GIFT_CODE_ALPHABET[byte % GIFT_CODE_ALPHABET.length]);
+  return [0, 4, 8].map((start) => letters.slice(start, start + 4).join('')).join('-');
+}
+
+// Order the priced packs and charge for them. The order comes back paid,
+// declined, or still pending when the provider confirms payments later. Free
+// orders, including those a discount made free, are paid without involving
+// the provider. Gift orders carry the code to redeem them with.
+export async function checkout(
+  user: User,
+  { items, coupon, description, gift }: PricedOrder,
+  paymentMethod?: string,
+  idempotent?: IdempotentRequest,
+): Promise<OrderWithItems> {
+
+  // Taken now so simultaneous checkouts can't go past the coupon's limit;
+  // declining the order gives it back
+  if (coupon && !await storage.useCoupon(coupon.id)) {
+    throw new CheckoutError('This coupon has been used up');
+  }
+
+  let order: OrderWithItems;
+  try {
+    order = await storage.createOrder(user.id, items, {
+      currency: DEFAULT_CURRENCY,
+      idempotencyKey: idempotent?.key,
+      requestHash: idempotent?.requestHash,
+      couponId: coupon?.id,
+      giftCode: gift ? newGiftCode() : undefined,
+    });
+  } catch (error) {
+    if (coupon) await storage.releaseCoupon(coupon.id);
+    // A request with the same key got there first
+    const replayed = await replayOrder(user, idempotent);
+    if (replayed) return replayed;
+    throw error;
+  }
+
+  if (order.total === 0) {
+    return (await storage.completeOrder(order.id))!;
+  }
+
+  let result: PaymentResult;
+  try {
+    result = await paymentProvider.charge({
+      orderId: order.id,
+      amount: order.total,
+      currency: order.currency,
+      description: gift ? `Gift: ${description}` : description,
+      paymentMethod,
+    });
+  } catch (error) {
+    await storage.declineOrder(order.id, 'The payment could not be processed');
+    throw error;
+  }
+
+  return settleOrder(order.id, result);
+}
+
+// Bring an order in line with its payment: paid orders create purchases,
+// declined ones record why, pending ones remember the payment to ask about
+async function settleOrder(orderId: number, result: PaymentResult): Promise<OrderWithItems> {
+  switch (result.status) {
+    case 'succeeded':
+      return refundOwnedItems((await storage.completeOrder(orderId, result.paymentId))!);
+    case 'declined':
+      return (await storage.declineOrder(orderId, result.reason, result.paymentId))!;
+    case 'pending':
+      await storage.setOrderPaymentId(orderId, result.paymentId);
+      return (await storage.getOrder(orderId))!;
+  }
+}
+
+// Pay back the items of a paid order that the buyer turned out to own
+// already, as when two checkouts of the same pack run at once. Settling an
+// order again asks for the same refund, which the provider only makes once.
+async function refundOwnedItems(order: OrderWithItems): Promise<OrderWithItems> {
+  const amount = order.items
+    .filter(item => item.alreadyOwned)
+    .reduce((total, item) => total + item.price, 0);
+  if (order.status === 'paid' && order.paymentId && amount > 0) {
+    try {
+      await paymentProvider.refund({
+        paymentId: order.paymentId,
+        amount,
+        idempotencyKey: `refund_order_${order.id}_owned`,
+      });
+    } catch (error) {
+      // The order is paid either way; the items stay marked for a refund by hand
+      console.error(`Error refunding already owned packs of order ${order.id}:`, error);
+    }
+  }
+  return order;
+}
+
+// Ask the provider whether a pending order's payment has gone through yet
+export async function refreshOrder(order: OrderWithItems): Promise<OrderWithItems> {
+  if (order.status !== 'pending' || !order.paymentId) return order;
+
+  const result = await paymentProvider.getPayment(order.paymentId);
+  if (!result || result.status === 'pending') return order;
+  return settleOrder(order.id, result);
+}
+
+// Give the user the packs of a paid gift order. Packs they created or
+// already own are left out, and so are packs deleted since; the gifter gets
+// back what those cost. A gift with nothing left to give the user stays
+// unredeemed so it can go to someone else.
+export async function redeemGift(user: User, giftCode: string): Promise<GiftRedemption> {
+  const found = await storage.getOrderByGiftCode(giftCode);
+  if (!found) {
+    throw new CheckoutError('This gift code is not valid', 404);
+  }
+
+  const order = await refreshOrder(found);
+  if (order.redeemedAt) {
+    throw new CheckoutError('This gift code has already been redeemed', 409);
+  }
+  if (order.status === 'pending') {
+    throw new CheckoutError('This gift has not been paid for yet', 409);
+  }
+  if (order.status === 'declined') {
+    throw new CheckoutError('The payment for this gift was declined', 409);
+  }
+
+  const packs = new Map<number, SoundPack>();
+  for (const item of order.items) {
+    const pack = item.packId === null ? undefined : await storage.getSoundPack(item.packId);
+    if (pack && pack.userId !== user.id && !await storage.hasPurchased(user.id, pack.id)) {
+      packs.set(pack.id, pack);
+    }
+  }
+  if (packs.size === 0) {
+    throw new CheckoutError('You already have every sound pack in this gift', 409);
+  }
+
+  const gift = await storage.redeemGift(order.id, user.id, Array.from(packs.keys()));
+  if (!gift) {
+    throw new CheckoutError('This gift code has already been redeemed', 409);
+  }
+
+  for (const purchase of gift.skipped) {
+    try {
+      await refundPurchase(purchase);
+    } catch (error) {
+      // The gift is redeemed either way; the purchase stays held for the
+      // creator to refund by hand
+      console.error(`Error refunding pack ${purchase.packId} of gift order ${order.id}:`, error);
+    }
+  }
+
+  const gifter = (await storage.getUser(order.userId))!;
+  return {
+    from: { id: gifter.id, username: gifter.username },
+    purchases: gift.redeemed.map((purchase) => ({ ...purchase, soundPack: packs.get(purchase.packId) })),
+  };
+}
+
+// Give the buyer their money back and take the pack away from them. Free
+// purchases, and those made before orders existed, have nothing to pay back.
+// Refunds nobody asked for, of gifts that couldn't be given, have no
+// refundedBy.
+export async function refundPurchase(purchase: Purchase, refundedBy?: User): Promise<Purchase> {
+  if (purchase.refundedAt) {
+    throw new CheckoutError('This purchase has already been refunded', 409);
+  }
+
+  const order = purchase.orderId ? await storage.getOrder(purchase.orderId) : undefined;
+  if (order?.paymentId && purchase.price > 0) {
+    await paymentProvider.refund({
+      paymentId: order.paymentId,
+      amount: purchase.price,
+      // Two refunds of the same purchase racing each other pay out once
+      idempotencyKey: `refund_purchase_${purchase.id}`,
+    });
+  }
+
+  const refunded = await storage.refundPurchase(purchase.id, refundedBy?.id ?? null);
+  if (!refunded) {
+    throw new CheckoutError('This purchase has already been refunded', 409);
+  }
+  return refunded;
+}
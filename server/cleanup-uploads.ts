@@ -0,0 +1,64 @@
+// Report, and with --purge delete, uploaded files that no sound, pack or
+// bundle refers to any more.
+//
+//   npm run uploads:gc -- [--purge] [--min-age-hours=24]
+//
+// Files younger than --min-age-hours (default 24) are left alone, since an
+// upload in progress isn't referenced yet.
+
+import { findOrphanedUploads, releaseUploads } from "./uploads";
+
+const DEFAULT_MIN_AGE_HOURS = 24;
+
+function parseArgs(args: string[]) {
+  let purge = false;
+  let minAgeHours = DEFAULT_MIN_AGE_HOURS;
+
+  for (const arg of args) {
+    if (arg === '--purge') {
+      purge = true;
+    } else if (arg.startsWith('--min-age-hours=')) {
+      minAgeHours = Number(arg.slice('--min-age-hours='.length));
+      if (!Number.isFinite(minAgeHours) || minAgeHours < 0) {
+        throw new Error(`Invalid --min-age-hours: ${arg}`);
+      }
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return { purge, minAgeHours };
+}
+
+async function main() {
+  const { purge, minAgeHours } = parseArgs(process.argv.slice(2));
+
+  // The in-memory store starts empty in this process, so every file would
+  // look orphaned
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL must be set: uploads can only be checked against the database');
+  }
+
+  const orphans = await findOrphanedUploads(minAgeHours * 60 * 60 * 1000);
+  const totalBytes = orphans.reduce((sum, orphan) => sum + orphan.size, 0);
+
+  for (const orphan of orphans) {
+    console.log(`${orphan.url}\t${orphan.size} bytes\t${orphan.modified.toISOString()}`);
+    if (purge) {
+      // Goes through the usual release so audio blob records are dropped too
+      await releaseUploads([orphan.url]);
+    }
+  }
+
+  console.log(
+    `${orphans.length} orphaned ${orphans.length === 1 ? 'file' : 'files'} (${totalBytes} bytes)` +
+    (purge ? ' deleted' : '; run with --purge to delete')
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,20 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Postgres-flavoured drizzle instance built over our schema. Keeping the
+// storage layer typed against this (rather than the neon driver) lets it run
+// on an embedded stand-in such as PGlite as well as a real database.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createPool(connectionString: string): Pool {
+  return new Pool({ connectionString });
+}
+
+export function createDatabase(pool: Pool): Database {
+  return drizzle({ client: pool, schema });
+}
@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkReviewContent } from "./moderation";
+
+describe('checkReviewContent', () => {
+  const cases: [string | null, string | null][] = [
+    [null, null],
+    ['   ', null],
+    ['Punchy kicks, the pads sit nicely in a mix', null],
+
+    // Profanity only counts as a whole word
+    ['This pack is shit', 'Contains profanity'],
+    ['Total sh1t, $hit even', 'Contains profanity'],
+    ['Made a Scunthorpe United anthem with these', null],
+    ['A cocktail of Dickens-era sounds; my assessment: classy', null],
+
+    // Links need a scheme, www. or a domain people actually register
+    ['Get it cheaper at https://beats.example', 'Contains a link or email address'],
+    ['More free loops on loopz.com', 'Contains a link or email address'],
+    ['Mail me at me@example.org', 'Contains a link or email address'],
+    ['Works with Node.js, and the file.wav names are tidy', null],
+    ['Version 1.2.3 fixed the clicks, e.g. on the snare', null],
+
+    // Numbers only look like a phone number with enough digits, grouped like one
+    ['Call +44 20 7946 0958 for stems', 'Contains a phone number'],
+    ['Text 5551234567', 'Contains a phone number'],
+    ['Loops at 90 100 110 120 bpm', null],
+    ['Recorded 2024-03-15 2025-01-02 at 44100 Hz, 24 bit', null],
+    ['Serial 4071 5528 3190 6624 9183 worked first time', null],
+
+    ['Loved it!!!!!!!!', 'Repeats the same character'],
+    ['THE BEST DRUM PACK I HAVE EVER BOUGHT', 'Mostly written in capitals'],
+    ['NASA grade FX', null],
+    ['buy buy buy buy buy this pack now please', 'Repeats the same word'],
+  ];
+
+  for (const [comment, reason] of cases) {
+    it(`${reason ?? 'passes'}: ${JSON.stringify(comment)}`, () => {
+      assert.equal(checkReviewContent(comment), reason);
+    });
+  }
+});
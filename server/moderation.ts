@@ -0,0 +1,100 @@
+// A rough check for review text that should wait for an admin before it
+// goes live: profanity, and the usual signs of spam. It errs on the side of
+// holding; an admin can approve anything it gets wrong.
+
+// Matched as whole words, after undoing common letter swaps (sh1t, $hit)
+const PROFANITY = [
+  'arse',
+  'arsehole',
+  'asshole',
+  'bastard',
+  'bitch',
+  'bollocks',
+  'bullshit',
+  'cock',
+  'cunt',
+  'dick',
+  'dickhead',
+  'fuck',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'piss',
+  'prick',
+  'shit',
+  'shitty',
+  'slut',
+  'twat',
+  'wanker',
+  'whore',
+];
+
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+const LINK = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|ru|xyz|info|biz|top)\b/i;
+const EMAIL = /\b[\w.+-]+@[\w-]+\.[\w.]+\b/;
+// Runs of digits with the usual separators. A phone number has 9 to 15
+// digits, at least four of them together; lists of short numbers ("90 100
+// 110 120 bpm") and long dates or serials don't count.
+const PHONE = /(?:\+?\d[\s().-]*){9,}/g;
+const MAX_PHONE_DIGITS = 15;
+const PHONE_GROUP = /\d{4}/;
+// The same character over and over: "!!!!!!!!", "soooooooooo"
+const REPEATED_CHARACTER = /(.)\1{7,}/;
+
+// Longer texts that are mostly capitals
+const MIN_LETTERS_FOR_CAPS = 20;
+const MAX_CAPS_SHARE = 0.7;
+
+// A word making up this much of a longer text, e.g. "buy buy buy buy..."
+const MIN_WORDS_FOR_REPETITION = 8;
+const MAX_WORD_SHARE = 0.5;
+
+function hasPhoneNumber(text: string): boolean {
+  return (text.match(PHONE) ?? []).some((run) => run.replace(/\D/g, '').length <= MAX_PHONE_DIGITS && PHONE_GROUP.test(run));
+}
+
+function words(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/[013457@$]/g, (character) => LOOKALIKES[character] ?? character);
+  return normalized.split(/[^a-z]+/).filter(Boolean);
+}
+
+// Why a review's comment should be held for approval, or null if it looks
+// fine. Reviews without a comment are never held.
+export function checkReviewContent(comment: string | null | undefined): string | null {
+  const text = comment?.trim();
+  if (!text) return null;
+
+  const commentWords = words(text);
+  if (commentWords.some((word) => PROFANITY.includes(word))) {
+    return 'Contains profanity';
+  }
+
+  if (LINK.test(text) || EMAIL.test(text)) {
+    return 'Contains a link or email address';
+  }
+  if (hasPhoneNumber(text)) {
+    return 'Contains a phone number';
+  }
+  if (REPEATED_CHARACTER.test(text)) {
+    return 'Repeats the same character';
+  }
+
+  const letters = text.replace(/[^a-z]/gi, '');
+  const capitals = letters.replace(/[^A-Z]/g, '');
+  if (letters.length >= MIN_LETTERS_FOR_CAPS && capitals.length / letters.length > MAX_CAPS_SHARE) {
+    return 'Mostly written in capitals';
+  }
+
+  if (commentWords.length >= MIN_WORDS_FOR_REPETITION) {
+    const counts = new Map<string, number>();
+    for (const word of commentWords) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    if (Math.max(...Array.from(counts.values())) / commentWords.length > MAX_WORD_SHARE) {
+      return 'Repeats the same word';
+    }
+  }
+
+  return null;
+}
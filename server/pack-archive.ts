@@ -0,0 +1,326 @@
+import path from "path";
+import type { Writable } from "stream";
+import { z } from "zod";
+import {
+  NOTES,
+  WAVEFORMS,
+  adsrEnvelopeSchema,
+  insertSoundPackSchema,
+  insertSoundSchema,
+  soundPackTagsSchema,
+  type ADSREnvelope,
+  type Sound,
+  type SoundPack,
+  type Tag
+} from "@shared/schema";
+import { storage, type ImportedSoundPack, type NewPackSound } from "./storage";
+import { checkUpload, readUpload, releaseStoredUploads, storeUpload, InvalidUploadError, type UploadField } from "./uploads";
+import { measureAudio, AudioDecodeError } from "./audio";
+import { ZipReader, ZipWriter, ZipError } from "./zip";
+
+// A pack archive is a zip with manifest.json at the root, the cover image and
+// one file per distinct audio file under sounds/. File names in the manifest
+// are paths inside the zip. Bump the version whenever the manifest changes
+// shape; importers should refuse versions they don't know.
+export const PACK_ARCHIVE_VERSION = 1;
+export const PACK_MANIFEST_NAME = 'manifest.json';
+
+export interface PackManifest {
+  version: number;
+  exportedAt: string;
+  pack: {
+    name: string;
+    description: string | null;
+    price: number;
+    isPublic: boolean;
+    tags: string[];
+    image: string | null;
+  };
+  sounds: {
+    name: string;
+    note: string;
+    octave: number;
+    waveform: string;
+    envelope: ADSREnvelope;
+    file: string | null;
+  }[];
+}
+
+// A pack's name made safe for file names, e.g. "lo-fi-keys"
+export function packFileSlug(pack: SoundPack): string {
+  const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || `pack-${pack.id}`;
+}
+
+// Suggested download name, e.g. "lo-fi-keys.zip"
+export const packArchiveName = (pack: SoundPack) => `${packFileSlug(pack)}.zip`;
+
+// Adds uploaded files to a zip by URL, each under the given name plus the
+// upload's extension. Sounds sharing a file share an entry. Uploads that have
+// gone missing are left out and resolve to null, rather than failing the
+// whole export.
+export function uploadAdder(zip: ZipWriter) {
+  const entries = new Map<string, string | null>();
+  return async (url: string | null, name: string): Promise<string | null> => {
+    if (!url) return null;
+    if (entries.has(url)) return entries.get(url)!;
+
+    const upload = await readUpload(url);
+    const entryName = upload ? name + path.posix.extname(url) : null;
+    if (upload && entryName) {
+      await zip.add(entryName, upload.data);
+    }
+    entries.set(url, entryName);
+    return entryName;
+  };
+}
+
+// Write a pack's archive to output. Files are read from the blob store one at
+// a time so a large pack never sits in memory whole. The manifest goes last,
+// once it's known which files made it in.
+export async function writePackArchive(
+  pack: SoundPack,
+  tags: Tag[],
+  sounds: Sound[],
+  output: Writable
+): Promise<void> {
+  const zip = new ZipWriter(output);
+  const addFile = uploadAdder(zip);
+
+  try {
+    const image = await addFile(pack.imageUrl, 'cover');
+
+    const manifestSounds: PackManifest['sounds'] = [];
+    for (let index = 0; index < sounds.length; index++) {
+      const sound = sounds[index];
+      const number = String(index + 1).padStart(3, '0');
+      manifestSounds.push({
+        name: sound.name,
+        note: sound.note,
+        octave: sound.octave,
+        waveform: sound.waveform,
+        envelope: sound.envelope as ADSREnvelope,
+        file: await addFile(sound.soundFile, `sounds/${number}-${sound.note}${sound.octave}`)
+      });
+    }
+
+    const manifest: PackManifest = {
+      version: PACK_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      pack: {
+        name: pack.name,
+        description: pack.description,
+        price: pack.price,
+        isPublic: pack.isPublic,
+        tags: tags.map((tag) => tag.name),
+        image
+      },
+      sounds: manifestSounds
+    };
+    await zip.add(PACK_MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+
+    await zip.finish();
+  } catch (error) {
+    zip.abort();
+    throw error;
+  }
+}
+
+const MB = 1024 * 1024;
+
+// Largest archive POST /soundpacks/import accepts
+export const MAX_PACK_ARCHIVE_BYTES = 200 * MB;
+const MAX_MANIFEST_BYTES = 1 * MB;
+const MAX_ARCHIVE_ENTRIES = 1000;
+
+// What an importer accepts: the same rules as creating a pack and its sounds
+// by hand, minus the fields the server fills in
+const packManifestSchema = z.object({
+  version: z.number(),
+  pack: insertSoundPackSchema.omit({ userId: true, imageUrl: true }).extend({
+    tags: soundPackTagsSchema.default([]),
+    image: z.string().nullable().default(null)
+  }),
+  sounds: z.array(
+    insertSoundSchema.pick({ name: true, note: true, octave: true, waveform: true, envelope: true }).extend({
+      note: z.enum(NOTES),
+      octave: z.number().int().min(1).max(8),
+      waveform: z.enum(WAVEFORMS),
+      envelope: adsrEnvelopeSchema,
+      file: z.string().nullable().default(null)
+    })
+  ).max(MAX_ARCHIVE_ENTRIES)
+});
+
+// One problem with an archive, located like a zod issue: ['sounds', 3, 'file']
+export interface PackArchiveIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+// An archive that can't be imported, with every problem found in it
+export class PackArchiveError extends Error {
+  constructor(message: string, public errors: PackArchiveIssue[] = []) {
+    super(message);
+    this.name = 'PackArchiveError';
+  }
+}
+
+// Audio measurements for a file, as saved on its sounds
+type Measurements = Awaited<ReturnType<typeof measureAudio>>;
+
+// Files an archive refers to, by name inside the zip, with each upload field
+// the file is used for and where it's first referenced as one (for error
+// reporting)
+export type ArchiveFiles = Map<string, { field: UploadField; path: (string | number)[] }[]>;
+
+// Note that an archive uses a file for an upload field. A file used for
+// several fields, say as the cover and as a sample, has to pass as each.
+export function addArchiveFile(files: ArchiveFiles, name: string, field: UploadField, path: (string | number)[]) {
+  const uses = files.get(name) ?? [];
+  if (!uses.some((use) => use.field === field)) {
+    uses.push({ field, path });
+  }
+  files.set(name, uses);
+}
+
+// Check every file an archive refers to, one in memory at a time, and
+// measure the audio ones. Throws PackArchiveError listing each file that is
+// missing, of the wrong type or broken.
+export async function checkArchiveFiles(zip: ZipReader, files: ArchiveFiles): Promise<Map<string, Measurements>> {
+  const issues: PackArchiveIssue[] = [];
+  const analyses = new Map<string, Measurements>();
+
+  for (const [name, uses] of Array.from(files)) {
+    let data: Buffer;
+    try {
+      data = await zip.read(name, MAX_PACK_ARCHIVE_BYTES);
+    } catch (error) {
+      if (error instanceof ZipError) {
+        issues.push({ path: uses[0].path, message: error.message });
+        continue;
+      }
+      throw error;
+    }
+
+    for (const { field, path: issuePath } of uses) {
+      try {
+        const type = checkUpload(field, data);
+        if (field === 'soundFile') {
+          analyses.set(name, await measureAudio(data, type.mimetype));
+        }
+      } catch (error) {
+        if (error instanceof InvalidUploadError) {
+          issues.push({ path: issuePath, message: `${name}: ${error.message}` });
+        } else if (error instanceof AudioDecodeError) {
+          issues.push({ path: issuePath, message: `${name} could not be decoded: ${error.message}` });
+        } else {
+          throw error;
+        }
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new PackArchiveError('Some files in the archive could not be imported', issues);
+  }
+  return analyses;
+}
+
+// Store files checked by checkArchiveFiles and run create with their URLs
+// (by name inside the zip). A file used for several fields passed as each,
+// so it's stored once, for the first. The stored files are released again
+// afterwards, which deletes them if storing or create failed.
+export async function storeArchiveFiles<T>(
+  zip: ZipReader,
+  files: ArchiveFiles,
+  ownerId: number,
+  create: (urls: Map<string, string>) => Promise<T>
+): Promise<T> {
+  const urls = new Map<string, string>();
+  try {
+    for (const [name, [{ field }]] of Array.from(files)) {
+      const { url } = await storeUpload(field, await zip.read(name, MAX_PACK_ARCHIVE_BYTES), ownerId);
+      urls.set(name, url);
+    }
+    return await create(urls);
+  } finally {
+    await releaseStoredUploads(Array.from(urls.values()));
+  }
+}
+
+// Open an uploaded archive, turning zip problems into PackArchiveError
+export async function openPackArchive(data: Buffer): Promise<ZipReader> {
+  try {
+    return await ZipReader.open(data, MAX_ARCHIVE_ENTRIES);
+  } catch (error) {
+    if (error instanceof ZipError) {
+      throw new PackArchiveError(error.message);
+    }
+    throw error;
+  }
+}
+
+// Check a pack archive and create the pack it describes for the given owner,
+// with its cover image, tags and sounds. Every file is checked (and audio
+// measured) before anything is stored, so a bad archive leaves no trace;
+// the pack and sounds are then created in one transaction. Throws
+// PackArchiveError listing what is wrong with the archive.
+export async function importPackArchive(data: Buffer, ownerId: number): Promise<ImportedSoundPack> {
+  const zip = await openPackArchive(data);
+  try {
+    if (!zip.has(PACK_MANIFEST_NAME)) {
+      throw new PackArchiveError(`Archive has no ${PACK_MANIFEST_NAME}`);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse((await zip.read(PACK_MANIFEST_NAME, MAX_MANIFEST_BYTES)).toString('utf8'));
+    } catch {
+      throw new PackArchiveError(`${PACK_MANIFEST_NAME} is not valid JSON`);
+    }
+
+    const version = (json as { version?: unknown } | null)?.version;
+    if (version !== PACK_ARCHIVE_VERSION) {
+      throw new PackArchiveError(`Unsupported pack archive version: ${JSON.stringify(version ?? null)}`);
+    }
+
+    const parsed = packManifestSchema.safeParse(json);
+    if (!parsed.success) {
+      throw new PackArchiveError(
+        'Invalid pack manifest',
+        parsed.error.errors.map((issue) => ({ path: issue.path, message: issue.message }))
+      );
+    }
+    const manifest = parsed.data;
+
+    const files: ArchiveFiles = new Map();
+    if (manifest.pack.image) {
+      addArchiveFile(files, manifest.pack.image, 'image', ['pack', 'image']);
+    }
+    manifest.sounds.forEach((sound, index) => {
+      if (sound.file) {
+        addArchiveFile(files, sound.file, 'soundFile', ['sounds', index, 'file']);
+      }
+    });
+
+    const analyses = await checkArchiveFiles(zip, files);
+
+    return await storeArchiveFiles(zip, files, ownerId, (urls) => {
+      const { tags, image, ...pack } = manifest.pack;
+      const sounds: NewPackSound[] = manifest.sounds.map(({ file, ...sound }) => ({
+        ...sound,
+        ...(file ? analyses.get(file) : {}),
+        soundFile: file ? urls.get(file) : undefined
+      }));
+
+      return storage.importSoundPack(
+        { ...pack, userId: ownerId, imageUrl: image ? urls.get(image) : null },
+        tags,
+        sounds
+      );
+    });
+  } finally {
+    zip.close();
+  }
+}
@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto";
+
+export interface PaymentRequest {
+  orderId: number;
+  amount: number; // In the currency's minor unit, e.g. cents
+  currency: string; // ISO 4217, lower case
+  description: string;
+  // Provider specific, e.g. a card token from the provider's checkout form
+  paymentMethod?: string;
+}
+
+// Give back part or all of a succeeded payment. Retrying with the same
+// idempotencyKey doesn't refund twice.
+export interface RefundRequest {
+  paymentId: string;
+  amount: number; // In the payment's currency's minor unit
+  idempotencyKey: string;
+}
+
+// Where a payment stands. Pending payments are confirmed or declined later;
+// ask the provider again with getPayment.
+export type PaymentResult =
+  | { status: 'succeeded'; paymentId: string }
+  | { status: 'pending'; paymentId: string }
+  | { status: 'declined'; paymentId: string; reason: string };
+
+// A payment method the buyer can pick in the checkout form
+export interface PaymentMethodOption {
+  id: string;
+  label: string;
+}
+
+// Takes payments for orders. Throws when the provider can't be reached or
+// the request is malformed; a declined payment is a result, not an error.
+export interface PaymentProvider {
+  readonly name: string;
+  // Methods to offer in the checkout form; empty when the provider collects
+  // payment details itself
+  readonly paymentMethods: PaymentMethodOption[];
+  charge(request: PaymentRequest): Promise<PaymentResult>;
+  // Undefined for a payment the provider doesn't know
+  getPayment(paymentId: string): Promise<PaymentResult | undefined>;
+  // Throws when the payment can't be refunded, e.g. when that would give back
+  // more than was paid
+  refund(request: RefundRequest): Promise<void>;
+}
+
+// Test payment methods understood by FakePaymentProvider
+export const FAKE_PAYMENT_METHODS = {
+  success: 'fake_success',
+  decline: 'fake_decline',
+  delayed: 'fake_delayed',
+} as const;
+
+// Pretends to take payments, for development and testing. The payment
+// method picks the outcome: fake_success is paid at once, fake_decline is
+// declined and fake_delayed stays pending for confirmationDelay ms before
+// succeeding. Payments and refunds are kept in memory.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly paymentMethods: PaymentMethodOption[] = [
+    { id: FAKE_PAYMENT_METHODS.success, label: 'Test card (succeeds)' },
+    { id: FAKE_PAYMENT_METHODS.decline, label: 'Test card (declined)' },
+    { id: FAKE_PAYMENT_METHODS.delayed, label: 'Test card (confirmed later)' },
+  ];
+
+  private payments = new Map<string, {
+    result: PaymentResult;
+    amount: number;
+    refunded: number;
+    confirmAt?: number;
+  }>();
+  private refunds = new Set<string>(); // Idempotency keys of refunds made
+
+  constructor(private confirmationDelay = 5000) {}
+
+  async charge({ amount, paymentMethod }: PaymentRequest): Promise<PaymentResult> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error(`Invalid payment amount: ${amount}`);
+    }
+
+    const paymentId = `fake_${randomUUID()}`;
+    let result: PaymentResult;
+    let confirmAt: number | undefined;
+    switch (paymentMethod) {
+      case FAKE_PAYMENT_METHODS.success:
+        result = { status: 'succeeded', paymentId };
+        break;
+      case FAKE_PAYMENT_METHODS.delayed:
+        result = { status: 'pending', paymentId };
+        confirmAt = Date.now() + this.confirmationDelay;
+        break;
+      case FAKE_PAYMENT_METHODS.decline:
+        result = { status: 'declined', paymentId, reason: 'Your card was declined' };
+        break;
+      default:
+        result = { status: 'declined', paymentId, reason: 'Choose a payment method' };
+    }
+
+    this.payments.set(paymentId, { result, amount, refunded: 0, confirmAt });
+    return result;
+  }
+
+  async getPayment(paymentId: string): Promise<PaymentResult | undefined> {
+    const payment = this.payments.get(paymentId);
+    if (payment?.confirmAt !== undefined && Date.now() >= payment.confirmAt) {
+      payment.result = { status: 'succeeded', paymentId };
+      payment.confirmAt = undefined;
+    }
+    return payment?.result;
+  }
+
+  async refund({ paymentId, amount, idempotencyKey }: RefundRequest): Promise<void> {
+    if (this.refunds.has(idempotencyKey)) return;
+
+    const result = await this.getPayment(paymentId);
+    const payment = this.payments.get(paymentId);
+    // Payments are forgotten on restart; let orders paid before then be refunded
+    if (!payment) return;
+    if (result?.status !== 'succeeded') {
+      throw new Error(`Payment ${paymentId} can't be refunded`);
+    }
+    if (!Number.isInteger(amount) || amount <= 0 || payment.refunded + amount > payment.amount) {
+      throw new Error(`Invalid refund amount for payment ${paymentId}: ${amount}`);
+    }
+
+    payment.refunded += amount;
+    this.refunds.add(idempotencyKey);
+  }
+}
+
+// Only the fake provider exists so far; PAYMENT_PROVIDER is there so a real
+// one can't be switched on by accident without being configured
+function createPaymentProvider(): PaymentProvider {
+  const provider = process.env.PAYMENT_PROVIDER ?? 'fake';
+  if (provider !== 'fake') {
+    throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+  }
+  return new FakePaymentProvider(
+    process.env.FAKE_PAYMENT_DELAY_MS ? parseInt(process.env.FAKE_PAYMENT_DELAY_MS) : undefined,
+  );
+}
+
+export const paymentProvider = createPaymentProvider();
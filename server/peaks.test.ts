@@ -0,0 +1,37 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { computePeaks, PEAK_RESOLUTIONS } from "./peaks";
+
+const audio = (...channels: number[][]) => ({
+  sampleRate: 8000,
+  channelData: channels.map((levels) => Float32Array.from(levels)),
+});
+
+describe('computePeaks', () => {
+  it('finds the lowest and highest level in each bucket', () => {
+    const peaks = computePeaks(audio([0, 0.5, -0.25, 0.1, -1, 0.3, 0.2, -0.1]), [2, 4]);
+
+    assert.equal(peaks.duration, 0.001);
+    assert.deepEqual(peaks.levels, [
+      { buckets: 2, min: [-0.25, -1], max: [0.5, 0.3] },
+      { buckets: 4, min: [0, -0.25, -1, -0.1], max: [0.5, 0.1, 0.3, 0.2] },
+    ]);
+  });
+
+  it('spans every channel and rounds to three places', () => {
+    const peaks = computePeaks(audio([0.12345, -0.5], [-0.98765, 0.0625]), [1]);
+    assert.deepEqual(peaks.levels, [{ buckets: 1, min: [-0.988], max: [0.123] }]);
+  });
+
+  it('leaves buckets flat where there are more of them than frames', () => {
+    const peaks = computePeaks(audio([0.5, -0.5]), [4]);
+    assert.deepEqual(peaks.levels, [{ buckets: 4, min: [0, 0, 0, -0.5], max: [0, 0.5, 0, 0] }]);
+  });
+
+  it('serves every resolution by default, flat for silence', () => {
+    const peaks = computePeaks(audio([]));
+    assert.equal(peaks.duration, 0);
+    assert.deepEqual(peaks.levels.map((level) => level.buckets), PEAK_RESOLUTIONS);
+    assert.ok(peaks.levels.every((level) => [...level.min, ...level.max].every((value) => value === 0)));
+  });
+});
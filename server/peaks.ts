@@ -0,0 +1,84 @@
+import type { WaveformPeaks } from "@shared/schema";
+import { decodeAudio, type DecodedAudio } from "./audio";
+import { readUpload } from "./uploads";
+
+// Bucket counts served for every sound, from small thumbnails up to a
+// full-width editor view
+export const PEAK_RESOLUTIONS = [32, 128, 512];
+
+// How many sounds' peaks to keep in memory
+const CACHE_SIZE = 200;
+
+// Rounded to keep the JSON small; waveforms are drawn a few pixels high
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function computePeaks({ sampleRate, channelData }: DecodedAudio, resolutions = PEAK_RESOLUTIONS): WaveformPeaks {
+  const frames = channelData[0]?.length ?? 0;
+
+  const levels = resolutions.map((buckets) => {
+    const min = new Array<number>(buckets).fill(0);
+    const max = new Array<number>(buckets).fill(0);
+
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      const start = Math.floor((bucket * frames) / buckets);
+      const end = Math.floor(((bucket + 1) * frames) / buckets);
+      let low = 0;
+      let high = 0;
+      for (const samples of channelData) {
+        for (let frame = start; frame < end; frame++) {
+          if (samples[frame] < low) low = samples[frame];
+          if (samples[frame] > high) high = samples[frame];
+        }
+      }
+      min[bucket] = round(low);
+      max[bucket] = round(high);
+    }
+
+    return { buckets, min, max };
+  });
+
+  return { duration: frames / sampleRate, levels };
+}
+
+// Keyed by upload URL. Replacing a sound's file gives it a new URL, so entries
+// never go stale; the oldest are dropped once the cache is full.
+const cache = new Map<string, Promise<WaveformPeaks | undefined>>();
+
+async function loadPeaks(soundFile: string): Promise<WaveformPeaks | undefined> {
+  const upload = await readUpload(soundFile);
+  if (!upload) {
+    return undefined;
+  }
+
+  const decoded = await decodeAudio(upload.data, upload.mimetype);
+  return decoded && computePeaks(decoded);
+}
+
+// Peaks for an uploaded sound file, or undefined when the file is gone or
+// its format has no decoder. Concurrent requests for the same file share
+// one computation.
+export function getPeaks(soundFile: string): Promise<WaveformPeaks | undefined> {
+  let peaks = cache.get(soundFile);
+  if (peaks) {
+    // Move to the back so it's evicted last
+    cache.delete(soundFile);
+  } else {
+    const loading = loadPeaks(soundFile);
+    // Only peaks are cached: missing files and failed decodes are tried again
+    // next time, so a restored file or a new decoder gets picked up. The entry
+    // may have been evicted and replaced meanwhile, so only this one goes.
+    const forget = () => {
+      if (cache.get(soundFile) === loading) cache.delete(soundFile);
+    };
+    loading.then((result) => {
+      if (!result) forget();
+    }, forget);
+    peaks = loading;
+  }
+
+  cache.set(soundFile, peaks);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return peaks;
+}
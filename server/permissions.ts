@@ -0,0 +1,302 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { routeId } from "./validation";
+import type { SoundPack, Sound, Review, Bundle } from "@shared/schema";
+
+// Who may see and change which packs. Admins can do anything, owners can do
+// anything to their own packs, everyone else only sees public packs.
+
+export function canManagePack(user: Express.User | undefined, pack: SoundPack): boolean {
+  if (!user) return false;
+  return user.isAdmin || pack.userId === user.id;
+}
+
+export function canViewPack(user: Express.User | undefined, pack: SoundPack): boolean {
+  return pack.isPublic || canManagePack(user, pack);
+}
+
+// Bundles follow the same rules as packs
+export function canManageBundle(user: Express.User | undefined, bundle: Bundle): boolean {
+  if (!user) return false;
+  return user.isAdmin || bundle.userId === user.id;
+}
+
+export function canViewBundle(user: Express.User | undefined, bundle: Bundle): boolean {
+  return bundle.isPublic || canManageBundle(user, bundle);
+}
+
+// Reviews can be changed by whoever wrote them, and by admins
+export function canManageReview(user: Express.User | undefined, review: Review): boolean {
+  if (!user) return false;
+  return user.isAdmin || review.userId === user.id;
+}
+
+// Held and hidden reviews are only shown to their author and admins
+export function canSeeReview(user: Express.User | undefined, review: Review): boolean {
+  return review.status === 'published' || canManageReview(user, review);
+}
+
+// Filter for storage.getAllSoundPacks: undefined means "everything" (admins),
+// otherwise public packs plus those owned by the given user (null = anonymous)
+export function packVisibilityFor(user: Express.User | undefined): number | null | undefined {
+  if (user?.isAdmin) return undefined;
+  return user?.id ?? null;
+}
+
+const packNotFound = (res: Response) =>
+  res.status(404).json({
+    status: 'error',
+    message: 'Sound pack not found'
+  });
+
+const forbidden = (res: Response, message: string) =>
+  res.status(403).json({
+    status: 'error',
+    message
+  });
+
+// Load the pack named by a route param into res.locals.soundPack, answering
+// 404 for packs the caller isn't allowed to see
+export function requireViewablePack(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const soundPack = id && await storage.getSoundPack(id);
+      if (!soundPack || !canViewPack(req.user, soundPack)) {
+        return packNotFound(res);
+      }
+
+      res.locals.soundPack = soundPack;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+const soundNotFound = (res: Response) =>
+  res.status(404).json({
+    status: 'error',
+    message: 'Sound not found'
+  });
+
+// Load the sound named by a route param into res.locals.sound (and its pack
+// into res.locals.soundPack), answering 404 if the caller can't see the pack
+export function requireViewableSound(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const sound = id && await storage.getSound(id);
+      const soundPack = sound && await storage.getSoundPack(sound.packId);
+      if (!sound || !soundPack || !canViewPack(req.user, soundPack)) {
+        return soundNotFound(res);
+      }
+
+      res.locals.sound = sound;
+      res.locals.soundPack = soundPack;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Load the pack named by a route param into res.locals.soundPack and make sure
+// the session user owns it (or is an admin). Must run after requireAuth and
+// before any upload middleware so rejected requests never write files.
+export function requirePackOwner(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const soundPack = id && await storage.getSoundPack(id);
+      if (!soundPack || !canViewPack(req.user, soundPack)) {
+        return packNotFound(res);
+      }
+      if (!canManagePack(req.user, soundPack)) {
+        return forbidden(res, 'You do not have permission to modify this sound pack');
+      }
+
+      res.locals.soundPack = soundPack;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Same as requirePackOwner, for routes addressing a sound. Loads both
+// res.locals.sound and its res.locals.soundPack.
+export function requireSoundOwner(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const sound = id && await storage.getSound(id);
+      const soundPack = sound && await storage.getSoundPack(sound.packId);
+      if (!sound || !soundPack || !canViewPack(req.user, soundPack)) {
+        return soundNotFound(res);
+      }
+      if (!canManagePack(req.user, soundPack)) {
+        return forbidden(res, 'You do not have permission to modify this sound');
+      }
+
+      res.locals.sound = sound as Sound;
+      res.locals.soundPack = soundPack;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Load the pack named by a route param into res.locals.soundPack and make sure
+// the session user may review it: they bought it and didn't make it. Must run
+// after requireAuth.
+export function requirePackReviewer(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const soundPack = id && await storage.getSoundPack(id);
+      if (!soundPack || !canViewPack(req.user, soundPack)) {
+        return packNotFound(res);
+      }
+      if (soundPack.userId === req.user!.id) {
+        return forbidden(res, 'You cannot review your own sound pack');
+      }
+      if (!await storage.hasPurchased(req.user!.id, soundPack.id)) {
+        return forbidden(res, 'Only buyers of this sound pack can review it');
+      }
+
+      res.locals.soundPack = soundPack;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+const reviewNotFound = (res: Response) =>
+  res.status(404).json({
+    status: 'error',
+    message: 'Review not found'
+  });
+
+// Load the review named by a route param into res.locals.review (and its pack
+// into res.locals.soundPack) and make sure the session user wrote it or is an
+// admin. Must run after requireAuth.
+export function requireReviewOwner(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const review = id && await storage.getReview(id);
+      const soundPack = review && await storage.getSoundPack(review.packId);
+      if (!review || !soundPack || !canViewPack(req.user, soundPack)) {
+        return reviewNotFound(res);
+      }
+      if (!canManageReview(req.user, review)) {
+        return forbidden(res, 'You do not have permission to modify this review');
+      }
+
+      res.locals.review = review;
+      res.locals.soundPack = soundPack;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Load the review named by a route param into res.locals.review (and its pack
+// into res.locals.soundPack), answering 404 if the caller can't see it
+export function requireViewableReview(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const review = id && await storage.getReview(id);
+      const soundPack = review && await storage.getSoundPack(review.packId);
+      if (!review || !soundPack || !canViewPack(req.user, soundPack) || !canSeeReview(req.user, review)) {
+        return reviewNotFound(res);
+      }
+
+      res.locals.review = review;
+      res.locals.soundPack = soundPack;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Load the purchase named by a route param into res.locals.purchase and make
+// sure the session user is the creator the sale is credited to, or an admin.
+// The pack isn't needed, so sales of deleted packs can still be refunded.
+// Must run after requireAuth.
+export function requirePackSale(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const purchase = id && await storage.getPurchase(id);
+      if (!purchase) {
+        return res.status(404).json({
+          status: 'error',
+          message: 'Purchase not found'
+        });
+      }
+      if (!req.user!.isAdmin && purchase.creatorId !== req.user!.id) {
+        return forbidden(res, 'Only the creator of this sound pack can refund it');
+      }
+
+      res.locals.purchase = purchase;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+const bundleNotFound = (res: Response) =>
+  res.status(404).json({
+    status: 'error',
+    message: 'Bundle not found'
+  });
+
+// Load the bundle named by a route param into res.locals.bundle, answering
+// 404 for bundles the caller isn't allowed to see
+export function requireViewableBundle(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const bundle = id && await storage.getBundle(id);
+      if (!bundle || !canViewBundle(req.user, bundle)) {
+        return bundleNotFound(res);
+      }
+
+      res.locals.bundle = bundle;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Load the bundle named by a route param into res.locals.bundle and make sure
+// the session user made it (or is an admin). Must run after requireAuth and
+// before any upload middleware so rejected requests never write files.
+export function requireBundleOwner(param: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = routeId(req, param);
+      const bundle = id && await storage.getBundle(id);
+      if (!bundle || !canViewBundle(req.user, bundle)) {
+        return bundleNotFound(res);
+      }
+      if (!canManageBundle(req.user, bundle)) {
+        return forbidden(res, 'You do not have permission to modify this bundle');
+      }
+
+      res.locals.bundle = bundle;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ActiveSale, BundleWithPacks, CouponWithPacks, PricedPack, SoundPack } from "@shared/schema";
+import { couponProblem, priceBundlePacks, pricePacks, shareOut } from "./pricing";
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+const pack = (id: number, price: number, userId = 1): SoundPack => ({
+  id,
+  name: `Pack ${id}`,
+  description: null,
+  userId,
+  price,
+  isPublic: true,
+  downloads: 0,
+  rating: 0,
+  reviewCount: 0,
+  imageUrl: null,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+// A coupon of creator 1's for all their packs, with no expiry or limit
+const coupon = (overrides: Partial<CouponWithPacks> = {}): CouponWithPacks => ({
+  id: 7,
+  userId: 1,
+  code: 'SAVE',
+  discountType: 'percent',
+  amount: 15,
+  allPacks: true,
+  expiresAt: null,
+  maxUses: null,
+  uses: 0,
+  createdAt,
+  packIds: [],
+  ...overrides,
+});
+
+const sale = (price: number): ActiveSale => ({ price, endsAt: new Date('2026-02-01T00:00:00Z') });
+
+// [packId, originalPrice, discount, price, couponId] for each line
+const lines = (items: PricedPack[]) =>
+  items.map(item => [item.packId, item.originalPrice, item.discount, item.price, item.couponId]);
+
+const keys = pack(1, 999);
+const pads = pack(2, 500);
+const theirs = pack(3, 300, 2);
+
+describe('couponProblem', () => {
+  const now = new Date('2026-01-15T00:00:00Z');
+
+  it('turns down expired and used up coupons', () => {
+    assert.equal(couponProblem(coupon({ expiresAt: now }), now), 'This coupon has expired');
+    assert.equal(couponProblem(coupon({ expiresAt: new Date('2026-01-16T00:00:00Z') }), now), undefined);
+    assert.equal(couponProblem(coupon({ maxUses: 2, uses: 2 }), now), 'This coupon has been used up');
+    assert.equal(couponProblem(coupon({ maxUses: 2, uses: 1 }), now), undefined);
+  });
+});
+
+describe('pricePacks', () => {
+  it('charges the sale price unless the list price is lower', () => {
+    const items = pricePacks([keys, pads], new Map([[1, sale(700)], [2, sale(600)]]));
+    assert.deepEqual(lines(items), [
+      [1, 999, 299, 700, null],
+      [2, 500, 0, 500, null],
+    ]);
+    assert.equal(items[0].bundleId, null);
+  });
+
+  it('takes a percent coupon off the sale price, rounded to the cent', () => {
+    const items = pricePacks([keys, pads, theirs], new Map([[2, sale(450)]]), coupon());
+    assert.deepEqual(lines(items), [
+      [1, 999, 150, 849, 7], // 149.85 off
+      [2, 500, 118, 382, 7], // 67.5 off the sale price
+      [3, 300, 0, 300, null], // Another creator's pack
+    ]);
+  });
+
+  it('never takes a fixed coupon below zero', () => {
+    const items = pricePacks([keys, pads], new Map(), coupon({ discountType: 'fixed', amount: 600 }));
+    assert.deepEqual(lines(items), [
+      [1, 999, 600, 399, 7],
+      [2, 500, 500, 0, 7],
+    ]);
+  });
+
+  it('only discounts the packs a coupon is limited to', () => {
+    const items = pricePacks([keys, pads], new Map(), coupon({ allPacks: false, packIds: [2] }));
+    assert.deepEqual(lines(items), [
+      [1, 999, 0, 999, null],
+      [2, 500, 75, 425, 7],
+    ]);
+  });
+});
+
+describe('shareOut', () => {
+  it('splits a price by list price into whole cents that add up', () => {
+    // 666.44 and 333.56: the spare cent goes to the larger remainder
+    assert.deepEqual(shareOut(1000, [keys, pads]), new Map([[1, 666], [2, 334]]));
+  });
+
+  it('splits evenly between free packs', () => {
+    assert.deepEqual(shareOut(100, [pack(1, 0), pack(2, 0), pack(3, 0)]), new Map([[1, 34], [2, 33], [3, 33]]));
+  });
+});
+
+describe('priceBundlePacks', () => {
+  const bundle: BundleWithPacks = {
+    id: 5,
+    userId: 1,
+    name: 'Everything',
+    description: '',
+    price: 1000,
+    isPublic: true,
+    imageUrl: null,
+    createdAt,
+    updatedAt: createdAt,
+    packs: [keys, pads],
+  };
+
+  it('charges only the shares of the packs being bought', () => {
+    const items = priceBundlePacks(bundle, [2]);
+    assert.deepEqual(lines(items), [[2, 334, 0, 334, null]]);
+    assert.equal(items[0].bundleId, 5);
+  });
+
+  it('takes the coupon off the shares it applies to', () => {
+    assert.deepEqual(lines(priceBundlePacks(bundle, [1, 2], coupon({ allPacks: false, packIds: [1] }))), [
+      [1, 666, 100, 566, 7], // 99.9 off
+      [2, 334, 0, 334, null],
+    ]);
+    assert.deepEqual(lines(priceBundlePacks(bundle, [1, 2], coupon({ discountType: 'fixed', amount: 400 }))), [
+      [1, 666, 400, 266, 7],
+      [2, 334, 334, 0, 7],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  ActiveSale,
+  BundleWithPacks,
+  CartQuote,
+  Coupon,
+  CouponWithPacks,
+  PricedPack,
+  SoundPack
+} from "@shared/schema";
+
+// Why a coupon can't be used right now, or undefined if it can
+export function couponProblem(coupon: Coupon, now = new Date()): string | undefined {
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    return 'This coupon has expired';
+  }
+  if (coupon.maxUses !== null && coupon.uses >= coupon.maxUses) {
+    return 'This coupon has been used up';
+  }
+  return undefined;
+}
+
+export function couponApplies(coupon: CouponWithPacks, pack: Pick<SoundPack, 'id' | 'userId'>): boolean {
+  if (pack.userId !== coupon.userId) return false;
+  return coupon.allPacks || coupon.packIds.includes(pack.id);
+}
+
+// Cents the coupon takes off a price, never more than the price itself
+export function couponDiscount(coupon: Coupon, price: number): number {
+  const discount = coupon.discountType === 'percent'
+    ? Math.round(price * coupon.amount / 100)
+    : coupon.amount;
+  return Math.min(discount, price);
+}
+
+// What each pack costs: its sale price when it's on sale (unless the list
+// price has since dropped below that), less the coupon where it applies
+export function pricePacks(
+  packs: Pick<SoundPack, 'id' | 'userId' | 'name' | 'price'>[],
+  sales: Map<number, ActiveSale>,
+  coupon?: CouponWithPacks,
+): PricedPack[] {
+  return packs.map((pack) => {
+    const sale = sales.get(pack.id);
+    let price = sale ? Math.min(sale.price, pack.price) : pack.price;
+
+    const applies = !!coupon && couponApplies(coupon, pack);
+    if (applies) {
+      price -= couponDiscount(coupon, price);
+    }
+
+    return {
+      packId: pack.id,
+      name: pack.name,
+      originalPrice: pack.price,
+      discount: pack.price - price,
+      price,
+      couponId: applies ? coupon.id : null,
+      bundleId: null,
+    };
+  });
+}
+
+// Split a price over packs in proportion to their list prices (evenly when
+// they're all free). The shares are whole cents adding up to the price; the
+// cents left over from rounding down go to the largest remainders.
+export function shareOut(price: number, packs: Pick<SoundPack, 'id' | 'price'>[]): Map<number, number> {
+  const listTotal = packs.reduce((total, pack) => total + pack.price, 0);
+  const weight = (pack: Pick<SoundPack, 'price'>) => listTotal > 0 ? pack.price : 1;
+  const weights = listTotal > 0 ? listTotal : packs.length;
+
+  const shares = packs.map((pack) => ({
+    id: pack.id,
+    cents: Math.floor(price * weight(pack) / weights),
+    remainder: (price * weight(pack)) % weights,
+  }));
+  let leftOver = price - shares.reduce((total, share) => total + share.cents, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftOver === 0) break;
+    share.cents++;
+    leftOver--;
+  }
+  return new Map(shares.map((share) => [share.id, share.cents]));
+}
+
+// What each of the bundle's packs costs when bought in it: its share of the
+// bundle's price, less the coupon where it applies. Only the packs in
+// packIds are priced; the others' shares aren't charged.
+export function priceBundlePacks(
+  bundle: BundleWithPacks,
+  packIds: number[],
+  coupon?: CouponWithPacks,
+): PricedPack[] {
+  const shares = shareOut(bundle.price, bundle.packs);
+  return bundle.packs
+    .filter((pack) => packIds.includes(pack.id))
+    .map((pack) => {
+      const share = shares.get(pack.id)!;
+      const applies = !!coupon && couponApplies(coupon, pack);
+      const discount = applies ? couponDiscount(coupon, share) : 0;
+      return {
+        packId: pack.id,
+        name: pack.name,
+        originalPrice: share,
+        discount,
+        price: share - discount,
+        couponId: applies ? coupon.id : null,
+        bundleId: bundle.id,
+      };
+    });
+}
+
+export function summarizeQuote(items: PricedPack[], coupon?: Coupon, couponError: string | null = null): CartQuote {
+  const originalTotal = items.reduce((total, item) => total + item.originalPrice, 0);
+  const total = items.reduce((total, item) => total + item.price, 0);
+  return {
+    items,
+    couponCode: coupon?.code ?? null,
+    couponError,
+    originalTotal,
+    discount: originalTotal - total,
+    total,
+  };
+}
@@ -1,74 +1,149 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import path from "path";
-import { fileURLToPath } from "url";
+import { storage, type ReviewModeration, type SoundPackQuery } from "./storage";
+import { setupAuth, requireAuth, requireAdmin, requireSelf, requireSelfOrAdmin } from "./auth";
+import { validateRequest, validateQuery, routeId } from "./validation";
+import {
+  canSeeReview,
+  canViewPack,
+  canViewBundle,
+  packVisibilityFor,
+  requireViewablePack,
+  requirePackOwner,
+  requireSoundOwner,
+  requireViewableSound,
+  requirePackReviewer,
+  requireReviewOwner,
+  requireViewableReview,
+  requirePackSale,
+  requireViewableBundle,
+  requireBundleOwner
+} from "./permissions";
+import { checkReviewContent } from "./moderation";
+import { acceptUpload, receiveFile, releaseUploads, uploadUrl } from "./uploads";
+import { blobStore } from "./blobs";
+import {
+  importPackArchive,
+  packArchiveName,
+  writePackArchive,
+  MAX_PACK_ARCHIVE_BYTES,
+  PackArchiveError
+} from "./pack-archive";
+import { importSfzArchive, sfzArchiveName, writeSfzArchive } from "./sfz";
+import { importSoundFontPreset, listSoundFontPresets, MAX_SOUNDFONT_BYTES, SoundFontError } from "./sf2";
+import { analyzeSoundUpload } from "./audio";
+import { getPeaks } from "./peaks";
+import { resolveSalesRange, summarizeSales } from "./sales";
+import { summarizeQuote } from "./pricing";
+import {
+  checkout,
+  idempotentRequest,
+  priceBundle,
+  pricePurchase,
+  purchaseBlocker,
+  redeemGift,
+  refreshOrder,
+  refundPurchase,
+  replayOrder,
+  CheckoutError
+} from "./checkout";
+import { paymentProvider } from "./payments";
 import { 
-  insertSoundPackSchema, 
-  insertSoundSchema, 
+  newSoundPackSchema, 
+  newSoundSchema, 
   insertReviewSchema, 
-  insertPurchaseSchema 
+  updateReviewSchema,
+  insertReviewReportSchema,
+  reviewModerationQuerySchema,
+  cartItemSchema,
+  cartQuoteQuerySchema,
+  checkoutSchema,
+  insertCouponSchema,
+  insertSalePriceSchema,
+  insertBundleSchema,
+  updateBundleSchema,
+  bundleQuerySchema,
+  purchaseSchema,
+  redeemSchema,
+  updateSoundPackSchema,
+  updateSoundSchema,
+  soundPackQuerySchema,
+  salesQuerySchema,
+  creatorPurchasesQuerySchema,
+  CREATOR_PURCHASES_LIMIT,
+  MAX_SALES_DAYS,
+  MIN_BUNDLE_PACKS,
+  type SoundPackQueryParams,
+  type SalesQueryParams,
+  type CreatorPurchasesQueryParams,
+  type ActiveSale,
+  type CartQuoteQueryParams,
+  type CheckoutRequest,
+  type InsertCoupon,
+  type InsertSalePrice,
+  type BundleWithPacks,
+  type BundleQueryParams,
+  type InsertBundle,
+  type UpdateBundle,
+  type PurchaseRequest,
+  type RedeemRequest,
+  type OrderWithItems,
+  type UpdateSoundPack,
+  type NewSoundPack,
+  type SoundPack,
+  type Sound,
+  type Review,
+  type ReviewStatus
 } from "@shared/schema";
-import { ZodError } from "zod";
-import multer from "multer";
-import fs from "fs";
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-
-// Set up file upload storage
-const uploadDir = path.join(__dirname, "../uploads");
-// Create the uploads directory if it doesn't exist
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-// Configure multer for file uploads
-const storage_config = multer.diskStorage({
-  destination: function (req, file, cb) {
-    // Create user directory if it doesn't exist
-    const userId = req.body.userId || 1; // Default to user 1 if not specified
-    const userDir = path.join(uploadDir, `user_${userId}`);
-    if (!fs.existsSync(userDir)) {
-      fs.mkdirSync(userDir, { recursive: true });
-    }
-    cb(null, userDir);
-  },
-  filename: function (req, file, cb) {
-    // Generate a unique filename with timestamp
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const ext = path.extname(file.originalname);
-    cb(null, file.fieldname + '-' + uniqueSuffix + ext);
+// Turn a validated catalogue query string into storage filters. Returns null
+// when the named creator doesn't exist, so nothing can match.
+async function resolveSoundPackQuery(req: Request): Promise<SoundPackQuery | null> {
+  const { q, creator, ...query } = req.query as unknown as SoundPackQueryParams;
+  
+  // Resolve a creator's username to their id
+  let userId = query.userId;
+  if (creator !== undefined) {
+    const creatorUser = await storage.getUserByUsername(creator);
+    if (!creatorUser || (userId !== undefined && userId !== creatorUser.id)) {
+      return null;
+    }
+    userId = creatorUser.id;
   }
-});
+  
+  return {
+    ...query,
+    userId,
+    search: q,
+    visibleTo: packVisibilityFor(req.user)
+  };
+}
 
-const upload = multer({ storage: storage_config });
+// The packs with the sale each is on right now, for showing discounted prices
+async function withSales<T extends SoundPack>(packs: T[]): Promise<(T & { sale: ActiveSale | null })[]> {
+  const sales = await storage.getActiveSalePrices(packs.map(pack => pack.id), new Date());
+  return packs.map(pack => {
+    const sale = sales.get(pack.id);
+    // A sale price above a since lowered list price isn't a sale any more
+    return {
+      ...pack,
+      sale: sale && sale.price < pack.price ? { price: sale.price, endsAt: sale.endsAt } : null
+    };
+  });
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, passport and the /api/auth routes
+  setupAuth(app);
+  
   // API routes
   const apiRouter = express.Router();
   
-  // Middleware to handle validation errors
-  const validateRequest = (schema: any) => {
-    return (req: Request, res: Response, next: NextFunction) => {
-      try {
-        req.body = schema.parse(req.body);
-        next();
-      } catch (error) {
-        if (error instanceof ZodError) {
-          return res.status(400).json({
-            status: 'error',
-            message: 'Validation error',
-            errors: error.errors
-          });
-        }
-        next(error);
-      }
-    };
-  };
-  
-  // Serve static files from uploads directory
-  app.use('/uploads', express.static(uploadDir));
+  // Serve uploaded files, unless the blob store serves them itself
+  if (blobStore.handler) {
+    app.use(blobStore.handler.path, blobStore.handler.handle);
+  }
   
   // Health check endpoint
   apiRouter.get('/health', (req: Request, res: Response) => {
@@ -77,15 +152,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Sound Pack Routes
   
-  // Get all sound packs
-  apiRouter.get('/soundpacks', async (req: Request, res: Response) => {
+  // Get all sound packs, filtered, sorted and paginated by the query string
+  apiRouter.get('/soundpacks', validateQuery(soundPackQuerySchema), async (req: Request, res: Response) => {
     try {
-      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
-      const isPublic = req.query.isPublic === 'true' ? true : 
-                       req.query.isPublic === 'false' ? false : undefined;
+      const query = await resolveSoundPackQuery(req);
+      if (!query) {
+        const { page, pageSize } = req.query as unknown as SoundPackQueryParams;
+        return res.json({ items: [], total: 0, page, pageSize, hasMore: false });
+      }
       
-      const soundPacks = await storage.getAllSoundPacks({ userId, isPublic });
-      res.json(soundPacks);
+      const soundPacks = await storage.getAllSoundPacks(query);
+      res.json({ ...soundPacks, items: await withSales(soundPacks.items) });
     } catch (error) {
       console.error('Error fetching sound packs:', error);
       res.status(500).json({ 
@@ -95,29 +172,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get a single sound pack by ID
-  apiRouter.get('/soundpacks/:id', async (req: Request, res: Response) => {
+  // Tag Routes
+  
+  // Get tags with the number of visible packs carrying each. Accepts the same
+  // filters as GET /soundpacks so counts can follow the current search.
+  apiRouter.get('/tags', validateQuery(soundPackQuerySchema), async (req: Request, res: Response) => {
+    try {
+      const query = await resolveSoundPackQuery(req);
+      const facets = query ? await storage.getTagFacets(query) : [];
+      res.json(facets);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch tags' 
+      });
+    }
+  });
+  
+  // Every pack the user can play, by name: their own, the ones they bought
+  // and the free ones. Unlike the catalogue this isn't paginated, so the
+  // piano's pack menu can list all of them.
+  apiRouter.get('/soundpacks/playable', async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
-      const soundPack = await storage.getSoundPack(id);
+      const { items } = await storage.getAllSoundPacks({
+        visibleTo: packVisibilityFor(req.user),
+        sort: 'name-asc',
+      });
+      const purchases = req.user ? await storage.getUserPurchases(req.user.id) : [];
+      const purchased = new Set(purchases.filter(purchase => !purchase.refundedAt).map(purchase => purchase.packId));
       
-      if (!soundPack) {
-        return res.status(404).json({ 
-          status: 'error', 
-          message: 'Sound pack not found' 
-        });
-      }
+      res.json(items.filter(pack => 
+        pack.price === 0 || pack.userId === req.user?.id || purchased.has(pack.id)
+      ));
+    } catch (error) {
+      console.error('Error fetching playable sound packs:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch sound packs' 
+      });
+    }
+  });
+  
+  // Get a single sound pack by ID
+  apiRouter.get('/soundpacks/:id', requireViewablePack('id'), async (req: Request, res: Response) => {
+    try {
+      const id: number = res.locals.soundPack.id;
+      const [soundPack] = await withSales([res.locals.soundPack as SoundPack]);
       
       // Get sounds associated with this pack
       const sounds = await storage.getSoundsByPackId(id);
       
-      // Get reviews for this pack
-      const reviews = await storage.getReviewsByPackId(id);
+      // Get the reviews of this pack the caller may see
+      const reviews = (await storage.getReviewsByPackId(id))
+        .filter(review => canSeeReview(req.user, review));
+      
+      const tags = await storage.getTagsByPackId(id);
       
       res.json({
         ...soundPack,
         sounds,
-        reviews
+        reviews,
+        tags
       });
     } catch (error) {
       console.error('Error fetching sound pack:', error);
@@ -128,48 +244,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Download a pack as a zip of its manifest, cover image and audio files
+  apiRouter.get('/soundpacks/:id/export', requireAuth, requirePackOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const soundPack: SoundPack = res.locals.soundPack;
+      const id = soundPack.id;
+      const sounds = await storage.getSoundsByPackId(id);
+      const tags = await storage.getTagsByPackId(id);
+
+      res.attachment(packArchiveName(soundPack));
+      res.type('application/zip');
+      await writePackArchive(soundPack, tags, sounds, res);
+    } catch (error) {
+      console.error('Error exporting sound pack:', error);
+      // Once the zip has started there's no way to report the error but to
+      // cut the download short
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to export sound pack'
+      });
+    }
+  });
+
+  // Download a pack as an SFZ instrument with its samples, zipped
+  apiRouter.get('/soundpacks/:id/sfz', requireAuth, requirePackOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const soundPack: SoundPack = res.locals.soundPack;
+      const sounds = await storage.getSoundsByPackId(soundPack.id);
+
+      res.attachment(sfzArchiveName(soundPack));
+      res.type('application/zip');
+      await writeSfzArchive(soundPack, sounds, res);
+    } catch (error) {
+      console.error('Error exporting SFZ:', error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to export SFZ'
+      });
+    }
+  });
+
   // Create a new sound pack
   apiRouter.post(
     '/soundpacks', 
-    upload.single('image'),
+    requireAuth,
+    acceptUpload('image'),
+    validateRequest(newSoundPackSchema),
     async (req: Request, res: Response) => {
       try {
-        // Parse and validate the data from the form
-        const formData = {
-          name: req.body.name,
-          description: req.body.description || '',
-          userId: parseInt(req.body.userId),
-          price: parseInt(req.body.price),
-          isPublic: req.body.isPublic === 'true',
-        };
-
-        try {
-          // Validate using the schema
-          insertSoundPackSchema.parse(formData);
-        } catch (validationError) {
-          if (validationError instanceof ZodError) {
-            return res.status(400).json({
-              status: 'error',
-              message: 'Validation error',
-              errors: validationError.errors
-            });
-          }
-          throw validationError;
-        }
-        
-        let imageUrl = '';
-        
-        // If an image was uploaded, set the URL
-        if (req.file) {
-          imageUrl = `/uploads/user_${formData.userId}/${req.file.filename}`;
-        }
+        const { tags: tagNames, ...fields }: NewSoundPack = req.body;
         
         const soundPack = await storage.createSoundPack({
-          ...formData,
-          imageUrl
+          ...fields,
+          userId: req.user!.id,
+          imageUrl: req.file ? uploadUrl(req.file) : null
         });
+        const tags = await storage.setSoundPackTags(soundPack.id, tagNames);
         
-        res.status(201).json(soundPack);
+        res.status(201).json({ ...soundPack, tags });
       } catch (error) {
         console.error('Error creating sound pack:', error);
         res.status(500).json({ 
@@ -180,31 +318,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
   
+  // Create a pack, with its sounds and files, from an exported archive
+  apiRouter.post(
+    '/soundpacks/import',
+    requireAuth,
+    receiveFile('archive', 'Pack archive', MAX_PACK_ARCHIVE_BYTES),
+    async (req: Request, res: Response) => {
+      if (!req.file) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Expected a pack archive in the "archive" field'
+        });
+      }
+      
+      try {
+        const soundPack = await importPackArchive(req.file.buffer, req.user!.id);
+        res.status(201).json(soundPack);
+      } catch (error) {
+        if (error instanceof PackArchiveError) {
+          return res.status(400).json({
+            status: 'error',
+            message: error.message,
+            errors: error.errors
+          });
+        }
+        console.error('Error importing sound pack:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to import sound pack' 
+        });
+      }
+    }
+  );
+  
   // Update a sound pack
   apiRouter.patch(
     '/soundpacks/:id',
-    upload.single('image'),
+    requireAuth,
+    requirePackOwner('id'),
+    acceptUpload('image'),
+    validateRequest(updateSoundPackSchema),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        const existingPack = await storage.getSoundPack(id);
-        
-        if (!existingPack) {
-          return res.status(404).json({ 
-            status: 'error', 
-            message: 'Sound pack not found' 
-          });
-        }
+        const id: number = res.locals.soundPack.id;
         
-        let updates = req.body;
+        const { tags: tagNames, ...updates }: UpdateSoundPack & { imageUrl?: string } = req.body;
         
         // If an image was uploaded, set the URL
         if (req.file) {
-          updates.imageUrl = `/uploads/user_${existingPack.userId}/${req.file.filename}`;
+          updates.imageUrl = uploadUrl(req.file);
         }
         
         const updatedPack = await storage.updateSoundPack(id, updates);
-        res.json(updatedPack);
+        const tags = tagNames !== undefined
+          ? await storage.setSoundPackTags(id, tagNames)
+          : await storage.getTagsByPackId(id);
+        
+        // Drop the image this one replaced
+        if (req.file) {
+          await releaseUploads([res.locals.soundPack.imageUrl]);
+        }
+        
+        res.json({ ...updatedPack, tags });
       } catch (error) {
         console.error('Error updating sound pack:', error);
         res.status(500).json({ 
@@ -216,9 +391,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
   
   // Delete a sound pack
-  apiRouter.delete('/soundpacks/:id', async (req: Request, res: Response) => {
+  apiRouter.delete('/soundpacks/:id', requireAuth, requirePackOwner('id'), async (req: Request, res: Response) => {
     try {
-      const id = parseInt(req.params.id);
+      const soundPack: SoundPack = res.locals.soundPack;
+      const id = soundPack.id;
+      const sounds = await storage.getSoundsByPackId(id);
       const success = await storage.deleteSoundPack(id);
       
       if (!success) {
@@ -228,6 +405,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      await releaseUploads([soundPack.imageUrl, ...sounds.map(sound => sound.soundFile)]);
+      
       res.json({ status: 'success', message: 'Sound pack deleted' });
     } catch (error) {
       console.error('Error deleting sound pack:', error);
@@ -238,302 +417,1269 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Sound Routes
+  // Sale Price Routes
   
-  // Get sounds by pack ID
-  apiRouter.get('/soundpacks/:packId/sounds', async (req: Request, res: Response) => {
+  // A pack's past, current and future sales, for its creator
+  apiRouter.get('/soundpacks/:id/sale-prices', requireAuth, requirePackOwner('id'), async (req: Request, res: Response) => {
     try {
-      const packId = parseInt(req.params.packId);
-      const sounds = await storage.getSoundsByPackId(packId);
-      res.json(sounds);
+      res.json(await storage.getSalePrices(res.locals.soundPack.id));
     } catch (error) {
-      console.error('Error fetching sounds:', error);
+      console.error('Error fetching sale prices:', error);
       res.status(500).json({ 
         status: 'error', 
-        message: 'Failed to fetch sounds' 
+        message: 'Failed to fetch sale prices' 
       });
     }
   });
   
-  // Add a sound to a pack
+  // Schedule a sale. It must be cheaper than the pack and can't overlap
+  // another sale of the same pack.
   apiRouter.post(
-    '/soundpacks/:packId/sounds',
-    upload.single('soundFile'),
+    '/soundpacks/:id/sale-prices',
+    requireAuth,
+    requirePackOwner('id'),
+    validateRequest(insertSalePriceSchema),
     async (req: Request, res: Response) => {
       try {
-        const packId = parseInt(req.params.packId);
+        const soundPack: SoundPack = res.locals.soundPack;
+        const sale = req.body as InsertSalePrice;
         
-        // Verify the sound pack exists
-        const soundPack = await storage.getSoundPack(packId);
-        if (!soundPack) {
-          return res.status(404).json({ 
+        if (sale.price >= soundPack.price) {
+          return res.status(400).json({ 
             status: 'error', 
-            message: 'Sound pack not found' 
+            message: 'The sale price must be lower than the price of the sound pack' 
           });
         }
-        
-        // Parse envelope if it's a string
-        let envelope = req.body.envelope;
-        if (typeof envelope === 'string') {
-          try {
-            envelope = JSON.parse(envelope);
-          } catch (e) {
-            envelope = {
-              attack: 0.1,
-              decay: 0.2,
-              sustain: 0.7,
-              release: 0.5
-            };
-          }
-        } else if (!envelope) {
-          envelope = {
-            attack: 0.1,
-            decay: 0.2,
-            sustain: 0.7,
-            release: 0.5
-          };
+        if (sale.endsAt <= new Date()) {
+          return res.status(400).json({ 
+            status: 'error', 
+            message: 'The sale must end in the future' 
+          });
         }
         
-        // Parse and validate form data manually
-        const formData = {
-          name: req.body.name,
-          note: req.body.note,
-          octave: parseInt(req.body.octave),
-          packId: packId,
-          waveform: req.body.waveform || 'sine',
-          envelope: envelope
-        };
-        
-        // Handle the sound file if it was uploaded
-        let soundFilePath = undefined; // undefined matches the optional string in the schema
-        if (req.file) {
-          soundFilePath = `/uploads/user_${soundPack.userId}/${req.file.filename}`;
+        const overlaps = (await storage.getSalePrices(soundPack.id))
+          .some(other => other.startsAt < sale.endsAt && sale.startsAt < other.endsAt);
+        if (overlaps) {
+          return res.status(409).json({ 
+            status: 'error', 
+            message: 'This sale overlaps another sale of the sound pack' 
+          });
         }
         
-        // Create the sound
-        const sound = await storage.createSound({
-          ...formData,
-          soundFile: soundFilePath
-        });
-        
-        res.status(201).json(sound);
+        res.status(201).json(await storage.createSalePrice(soundPack.id, sale));
       } catch (error) {
-        console.error('Error creating sound:', error);
+        console.error('Error creating sale price:', error);
         res.status(500).json({ 
           status: 'error', 
-          message: 'Failed to create sound',
-          details: error instanceof Error ? error.message : String(error)
+          message: 'Failed to create sale price' 
         });
       }
     }
   );
   
-  // Update a sound
-  apiRouter.patch(
-    '/sounds/:id',
-    upload.single('soundFile'),
+  apiRouter.delete(
+    '/soundpacks/:id/sale-prices/:saleId',
+    requireAuth,
+    requirePackOwner('id'),
     async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id);
-        const existingSound = await storage.getSound(id);
-        
-        if (!existingSound) {
+        const saleId = routeId(req, 'saleId');
+        const sale = saleId && await storage.getSalePrice(saleId);
+        if (!sale || sale.packId !== res.locals.soundPack.id) {
           return res.status(404).json({ 
             status: 'error', 
-            message: 'Sound not found' 
+            message: 'Sale price not found' 
           });
         }
         
-        let updates = req.body;
-        
-        // If a sound file was uploaded, set the URL
-        if (req.file) {
-          const soundPack = await storage.getSoundPack(existingSound.packId);
-          if (soundPack) {
-            updates.soundFile = `/uploads/user_${soundPack.userId}/${req.file.filename}`;
-          }
-        }
-        
-        const updatedSound = await storage.updateSound(id, updates);
-        res.json(updatedSound);
+        await storage.deleteSalePrice(sale.id);
+        res.json({ status: 'success', message: 'Sale price deleted' });
       } catch (error) {
-        console.error('Error updating sound:', error);
+        console.error('Error deleting sale price:', error);
         res.status(500).json({ 
           status: 'error', 
-          message: 'Failed to update sound' 
+          message: 'Failed to delete sale price' 
         });
       }
     }
   );
   
-  // Delete a sound
-  apiRouter.delete('/sounds/:id', async (req: Request, res: Response) => {
-    try {
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteSound(id);
-      
-      if (!success) {
-        return res.status(404).json({ 
-          status: 'error', 
-          message: 'Sound not found' 
-        });
-      }
-      
-      res.json({ status: 'success', message: 'Sound deleted' });
-    } catch (error) {
-      console.error('Error deleting sound:', error);
-      res.status(500).json({ 
-        status: 'error', 
-        message: 'Failed to delete sound' 
-      });
-    }
+  // Bundle Routes
+  
+  // Bundles are listed with only the packs the caller can see
+  const visibleBundle = (req: Request, bundle: BundleWithPacks): BundleWithPacks => ({
+    ...bundle,
+    packs: bundle.packs.filter(pack => canViewPack(req.user, pack)),
   });
   
-  // Review Routes
+  // Why the packs can't go in the creator's bundle, or undefined if they can.
+  // Buyers only get the public ones, so private packs can't go in.
+  const bundlePacksProblem = async (creatorId: number, packIds: number[]) => {
+    for (const packId of packIds) {
+      const soundPack = await storage.getSoundPack(packId);
+      if (soundPack?.userId !== creatorId) {
+        return 'Bundles can only include your own sound packs';
+      }
+      if (!soundPack.isPublic) {
+        return `${soundPack.name} is private, so it can't be sold in a bundle`;
+      }
+    }
+    return undefined;
+  };
   
-  // Get reviews for a sound pack
-  apiRouter.get('/soundpacks/:packId/reviews', async (req: Request, res: Response) => {
+  // Public bundles plus the caller's own, newest first
+  apiRouter.get('/bundles', validateQuery(bundleQuerySchema), async (req: Request, res: Response) => {
     try {
-      const packId = parseInt(req.params.packId);
-      const reviews = await storage.getReviewsByPackId(packId);
-      res.json(reviews);
+      const { userId } = req.query as unknown as BundleQueryParams;
+      const bundles = await storage.getBundles({ userId, visibleTo: packVisibilityFor(req.user) });
+      res.json(bundles.map(bundle => visibleBundle(req, bundle)));
     } catch (error) {
-      console.error('Error fetching reviews:', error);
+      console.error('Error fetching bundles:', error);
       res.status(500).json({ 
         status: 'error', 
-        message: 'Failed to fetch reviews' 
+        message: 'Failed to fetch bundles' 
       });
     }
   });
   
-  // Add a review to a sound pack
+  apiRouter.get('/bundles/:id', requireViewableBundle('id'), async (req: Request, res: Response) => {
+    res.json(visibleBundle(req, res.locals.bundle));
+  });
+  
   apiRouter.post(
-    '/soundpacks/:packId/reviews',
-    validateRequest(insertReviewSchema),
+    '/bundles',
+    requireAuth,
+    acceptUpload('image'),
+    validateRequest(insertBundleSchema),
     async (req: Request, res: Response) => {
       try {
-        const packId = parseInt(req.params.packId);
+        const bundle = req.body as InsertBundle;
         
-        // Verify the sound pack exists
-        const soundPack = await storage.getSoundPack(packId);
-        if (!soundPack) {
-          return res.status(404).json({ 
+        const problem = await bundlePacksProblem(req.user!.id, bundle.packIds);
+        if (problem) {
+          return res.status(400).json({ 
             status: 'error', 
-            message: 'Sound pack not found' 
+            message: problem 
           });
         }
         
-        const review = await storage.createReview({
-          ...req.body,
-          packId
-        });
-        
-        res.status(201).json(review);
+        res.status(201).json(await storage.createBundle(req.user!.id, {
+          ...bundle,
+          ...(req.file && { imageUrl: uploadUrl(req.file) }),
+        }));
       } catch (error) {
-        console.error('Error creating review:', error);
+        console.error('Error creating bundle:', error);
         res.status(500).json({ 
           status: 'error', 
-          message: 'Failed to create review' 
+          message: 'Failed to create bundle' 
         });
       }
     }
   );
   
-  // Purchase Routes
-  
-  // Get purchases for a user
-  apiRouter.get('/users/:userId/purchases', async (req: Request, res: Response) => {
-    try {
-      const userId = parseInt(req.params.userId);
-      const purchases = await storage.getUserPurchases(userId);
-      
-      // Get the full sound pack details for each purchase
-      const purchasesWithDetails = await Promise.all(
-        purchases.map(async purchase => {
-          const soundPack = await storage.getSoundPack(purchase.packId);
-          return {
-            ...purchase,
-            soundPack
-          };
-        })
-      );
-      
-      res.json(purchasesWithDetails);
-    } catch (error) {
-      console.error('Error fetching purchases:', error);
-      res.status(500).json({ 
-        status: 'error', 
-        message: 'Failed to fetch purchases' 
-      });
-    }
-  });
-  
-  // Create a purchase
-  apiRouter.post(
-    '/users/:userId/purchases',
+  apiRouter.patch(
+    '/bundles/:id',
+    requireAuth,
+    requireBundleOwner('id'),
+    acceptUpload('image'),
+    validateRequest(updateBundleSchema),
     async (req: Request, res: Response) => {
       try {
-        // Parse the parameters
-        const userId = parseInt(req.params.userId);
-        const packId = parseInt(req.body.packId);
+        const bundle: BundleWithPacks = res.locals.bundle;
+        const updates = req.body as UpdateBundle & { imageUrl?: string };
         
-        if (isNaN(userId) || isNaN(packId)) {
-          return res.status(400).json({
-            status: 'error',
-            message: 'Invalid user ID or pack ID'
+        // Deleting packs can leave a bundle with too few to publish again
+        const problem = updates.packIds
+          ? await bundlePacksProblem(bundle.userId, updates.packIds)
+          : updates.isPublic && bundle.packs.length < MIN_BUNDLE_PACKS
+            ? `A bundle needs at least ${MIN_BUNDLE_PACKS} sound packs`
+            : undefined;
+        if (problem) {
+          return res.status(400).json({ 
+            status: 'error', 
+            message: problem 
           });
         }
         
-        // Check if user already purchased this pack
-        const alreadyPurchased = await storage.hasPurchased(userId, packId);
-        if (alreadyPurchased) {
-          return res.status(400).json({
-            status: 'error',
-            message: 'User has already purchased this sound pack'
-          });
+        // If an image was uploaded, set the URL
+        if (req.file) {
+          updates.imageUrl = uploadUrl(req.file);
         }
         
-        // Verify the sound pack exists
-        const soundPack = await storage.getSoundPack(packId);
-        if (!soundPack) {
-          return res.status(404).json({ 
-            status: 'error', 
-            message: 'Sound pack not found' 
-          });
-        }
+        const updatedBundle = await storage.updateBundle(bundle.id, updates);
         
-        // Create the purchase
-        const purchase = await storage.createPurchase({
-          userId,
-          packId,
-          price: soundPack.price // Use the current price from the sound pack
-        });
+        // Drop the image this one replaced
+        if (req.file) {
+          await releaseUploads([bundle.imageUrl]);
+        }
         
-        res.status(201).json(purchase);
+        res.json(visibleBundle(req, updatedBundle!));
       } catch (error) {
-        console.error('Error creating purchase:', error);
+        console.error('Error updating bundle:', error);
         res.status(500).json({ 
           status: 'error', 
-          message: 'Failed to create purchase' 
+          message: 'Failed to update bundle' 
         });
       }
     }
   );
   
-  // Check if a user has purchased a sound pack
-  apiRouter.get('/users/:userId/purchases/:packId', async (req: Request, res: Response) => {
+  // Its packs stay, and so do purchases made through it
+  apiRouter.delete('/bundles/:id', requireAuth, requireBundleOwner('id'), async (req: Request, res: Response) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const packId = parseInt(req.params.packId);
-      
-      const hasPurchased = await storage.hasPurchased(userId, packId);
-      
-      res.json({ hasPurchased });
+      const bundle: BundleWithPacks = res.locals.bundle;
+      await storage.deleteBundle(bundle.id);
+      await releaseUploads([bundle.imageUrl]);
+      res.json({ status: 'success', message: 'Bundle deleted' });
     } catch (error) {
-      console.error('Error checking purchase status:', error);
+      console.error('Error deleting bundle:', error);
       res.status(500).json({ 
         status: 'error', 
-        message: 'Failed to check purchase status' 
+        message: 'Failed to delete bundle' 
+      });
+    }
+  });
+  
+  // Sound Routes
+  
+  // Get sounds by pack ID
+  apiRouter.get('/soundpacks/:packId/sounds', requireViewablePack('packId'), async (req: Request, res: Response) => {
+    try {
+      const sounds = await storage.getSoundsByPackId(res.locals.soundPack.id);
+      res.json(sounds);
+    } catch (error) {
+      console.error('Error fetching sounds:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch sounds' 
+      });
+    }
+  });
+  
+  // Add a sound to a pack
+  apiRouter.post(
+    '/soundpacks/:packId/sounds',
+    requireAuth,
+    requirePackOwner('packId'),
+    acceptUpload('soundFile'),
+    analyzeSoundUpload,
+    validateRequest(newSoundSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const packId: number = res.locals.soundPack.id;
+        
+        // Handle the sound file if it was uploaded
+        let soundFilePath = undefined; // undefined matches the optional string in the schema
+        if (req.file) {
+          soundFilePath = uploadUrl(req.file);
+        }
+        
+        // Create the sound
+        const sound = await storage.createSound({
+          ...req.body,
+          packId,
+          ...res.locals.audioAnalysis,
+          soundFile: soundFilePath
+        });
+        
+        res.status(201).json(sound);
+      } catch (error) {
+        console.error('Error creating sound:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to create sound',
+          details: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  );
+  
+  // Add the sounds of a zipped SFZ instrument to a pack
+  apiRouter.post(
+    '/soundpacks/:packId/sfz',
+    requireAuth,
+    requirePackOwner('packId'),
+    receiveFile('archive', 'SFZ archive', MAX_PACK_ARCHIVE_BYTES),
+    async (req: Request, res: Response) => {
+      if (!req.file) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Expected a zip of an .sfz file and its samples in the "archive" field'
+        });
+      }
+      
+      try {
+        const result = await importSfzArchive(req.file.buffer, res.locals.soundPack);
+        res.status(201).json(result);
+      } catch (error) {
+        if (error instanceof PackArchiveError) {
+          return res.status(400).json({
+            status: 'error',
+            message: error.message,
+            errors: error.errors
+          });
+        }
+        console.error('Error importing SFZ:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to import SFZ' 
+        });
+      }
+    }
+  );
+  
+  const missingSoundFont = (res: Response) =>
+    res.status(400).json({
+      status: 'error',
+      message: 'Expected an .sf2 file in the "soundfont" field'
+    });
+  
+  // List the presets in a SoundFont, to choose one to import. The bank isn't
+  // kept, so the import sends it again.
+  apiRouter.post(
+    '/soundpacks/:packId/sf2/presets',
+    requireAuth,
+    requirePackOwner('packId'),
+    receiveFile('soundfont', 'SoundFont', MAX_SOUNDFONT_BYTES),
+    async (req: Request, res: Response) => {
+      if (!req.file) {
+        return missingSoundFont(res);
+      }
+      
+      try {
+        res.json(listSoundFontPresets(req.file.buffer));
+      } catch (error) {
+        if (error instanceof SoundFontError) {
+          return res.status(400).json({ status: 'error', message: error.message });
+        }
+        console.error('Error reading SoundFont:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to read SoundFont' 
+        });
+      }
+    }
+  );
+  
+  // Add one preset of a SoundFont to a pack, as a sound per key it plays
+  apiRouter.post(
+    '/soundpacks/:packId/sf2',
+    requireAuth,
+    requirePackOwner('packId'),
+    receiveFile('soundfont', 'SoundFont', MAX_SOUNDFONT_BYTES),
+    async (req: Request, res: Response) => {
+      if (!req.file) {
+        return missingSoundFont(res);
+      }
+      
+      const preset = parseInt(req.body.preset);
+      if (!Number.isInteger(preset) || preset < 0) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Choose a preset to import'
+        });
+      }
+      
+      try {
+        const sounds = await importSoundFontPreset(req.file.buffer, res.locals.soundPack, preset);
+        res.status(201).json(sounds);
+      } catch (error) {
+        if (error instanceof SoundFontError) {
+          return res.status(400).json({ status: 'error', message: error.message });
+        }
+        console.error('Error importing SoundFont:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to import SoundFont' 
+        });
+      }
+    }
+  );
+  
+  // Get waveform peaks for a sound's audio file, at each of PEAK_RESOLUTIONS
+  apiRouter.get('/sounds/:id/peaks', requireViewableSound('id'), async (req: Request, res: Response) => {
+    try {
+      const sound: Sound = res.locals.sound;
+      const peaks = sound.soundFile ? await getPeaks(sound.soundFile) : undefined;
+      
+      if (!peaks) {
+        return res.status(404).json({ 
+          status: 'error', 
+          message: 'No waveform is available for this sound' 
+        });
+      }
+      
+      res.json(peaks);
+    } catch (error) {
+      console.error('Error computing waveform peaks:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to compute waveform peaks' 
+      });
+    }
+  });
+  
+  // Update a sound
+  apiRouter.patch(
+    '/sounds/:id',
+    requireAuth,
+    requireSoundOwner('id'),
+    acceptUpload('soundFile'),
+    analyzeSoundUpload,
+    validateRequest(updateSoundSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const id: number = res.locals.sound.id;
+        
+        const updates: Partial<Sound> = req.body;
+        
+        // If a sound file was uploaded, set the URL and replace its measurements
+        if (req.file) {
+          updates.soundFile = uploadUrl(req.file);
+          Object.assign(updates, res.locals.audioAnalysis);
+        }
+        
+        const updatedSound = await storage.updateSound(id, updates);
+        
+        // Drop the audio file this one replaced
+        if (req.file) {
+          await releaseUploads([res.locals.sound.soundFile]);
+        }
+        
+        res.json(updatedSound);
+      } catch (error) {
+        console.error('Error updating sound:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to update sound' 
+        });
+      }
+    }
+  );
+  
+  // Delete a sound
+  apiRouter.delete('/sounds/:id', requireAuth, requireSoundOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const sound: Sound = res.locals.sound;
+      const id = sound.id;
+      const success = await storage.deleteSound(id);
+      
+      if (!success) {
+        return res.status(404).json({ 
+          status: 'error', 
+          message: 'Sound not found' 
+        });
+      }
+      
+      await releaseUploads([sound.soundFile]);
+      
+      res.json({ status: 'success', message: 'Sound deleted' });
+    } catch (error) {
+      console.error('Error deleting sound:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to delete sound' 
+      });
+    }
+  });
+  
+  // Review Routes
+  
+  // Get reviews for a sound pack
+  apiRouter.get('/soundpacks/:packId/reviews', requireViewablePack('packId'), async (req: Request, res: Response) => {
+    try {
+      const reviews = await storage.getReviewsByPackId(res.locals.soundPack.id);
+      res.json(reviews.filter(review => canSeeReview(req.user, review)));
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch reviews' 
+      });
+    }
+  });
+  
+  // Add a review to a sound pack. Buyers only, one review each. Reviews that
+  // look like profanity or spam are held for an admin to approve.
+  apiRouter.post(
+    '/soundpacks/:packId/reviews',
+    requireAuth,
+    requirePackReviewer('packId'),
+    (req: Request, res: Response, next: NextFunction) => {
+      // The reviewer is always the session user and the pack comes from the URL
+      req.body = {
+        ...req.body,
+        userId: req.user!.id,
+        packId: res.locals.soundPack.id
+      };
+      next();
+    },
+    validateRequest(insertReviewSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const existing = await storage.getUserReview(req.body.userId, req.body.packId);
+        if (existing) {
+          return res.status(409).json({
+            status: 'error',
+            message: 'You have already reviewed this sound pack',
+            reviewId: existing.id
+          });
+        }
+        
+        const heldReason = checkReviewContent(req.body.comment);
+        const review = await storage.createReview({
+          ...req.body,
+          status: heldReason ? 'pending' : 'published',
+          heldReason
+        });
+        
+        res.status(201).json(review);
+      } catch (error) {
+        console.error('Error creating review:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to create review' 
+        });
+      }
+    }
+  );
+  
+  // Change a review's rating or comment. A new comment is checked again;
+  // reviews an admin has hidden stay hidden.
+  apiRouter.patch(
+    '/reviews/:id',
+    requireAuth,
+    requireReviewOwner('id'),
+    validateRequest(updateReviewSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const review: Review = res.locals.review;
+        let moderation: ReviewModeration = {};
+        if (req.body.comment !== undefined && review.status !== 'hidden') {
+          const heldReason = checkReviewContent(req.body.comment);
+          moderation = { status: heldReason ? 'pending' : 'published', heldReason };
+        }
+        
+        const updatedReview = await storage.updateReview(review.id, { ...req.body, ...moderation });
+        
+        if (!updatedReview) {
+          return res.status(404).json({ 
+            status: 'error', 
+            message: 'Review not found' 
+          });
+        }
+        
+        res.json(updatedReview);
+      } catch (error) {
+        console.error('Error updating review:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to update review' 
+        });
+      }
+    }
+  );
+  
+  // Delete a review
+  apiRouter.delete('/reviews/:id', requireAuth, requireReviewOwner('id'), async (req: Request, res: Response) => {
+    try {
+      const review: Review = res.locals.review;
+      const success = await storage.deleteReview(review.id);
+      
+      if (!success) {
+        return res.status(404).json({ 
+          status: 'error', 
+          message: 'Review not found' 
+        });
+      }
+      
+      res.json({ status: 'success', message: 'Review deleted' });
+    } catch (error) {
+      console.error('Error deleting review:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to delete review' 
+      });
+    }
+  });
+  
+  // Report a review for an admin to look at
+  apiRouter.post(
+    '/reviews/:id/reports',
+    requireAuth,
+    requireViewableReview('id'),
+    (req: Request, res: Response, next: NextFunction) => {
+      // The reporter is always the session user and the review comes from the URL
+      req.body = {
+        ...req.body,
+        userId: req.user!.id,
+        reviewId: res.locals.review.id
+      };
+      next();
+    },
+    validateRequest(insertReviewReportSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const review: Review = res.locals.review;
+        if (review.userId === req.user!.id) {
+          return res.status(400).json({
+            status: 'error',
+            message: 'You cannot report your own review'
+          });
+        }
+        if (await storage.hasReportedReview(req.user!.id, review.id)) {
+          return res.status(409).json({
+            status: 'error',
+            message: 'You have already reported this review'
+          });
+        }
+        
+        const report = await storage.createReviewReport(req.body);
+        res.status(201).json(report);
+      } catch (error) {
+        console.error('Error reporting review:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to report review' 
+        });
+      }
+    }
+  );
+  
+  // Admin Routes
+  
+  // The moderation queue: held and reported reviews, or all reviews with
+  // the given ?status
+  apiRouter.get(
+    '/admin/reviews',
+    requireAdmin,
+    validateQuery(reviewModerationQuerySchema),
+    async (req: Request, res: Response) => {
+      try {
+        const { status } = req.query as { status?: ReviewStatus };
+        res.json(await storage.getModeratedReviews(status));
+      } catch (error) {
+        console.error('Error fetching moderation queue:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to fetch moderation queue' 
+        });
+      }
+    }
+  );
+  
+  // Hide a review, or publish (restore or approve) one. Either way its open
+  // reports are resolved. Deleting goes through DELETE /reviews/:id.
+  const moderateReview = (status: ReviewStatus) => async (req: Request, res: Response) => {
+    try {
+      const id = routeId(req, 'id');
+      const review = id && await storage.setReviewStatus(id, status);
+      
+      if (!review) {
+        return res.status(404).json({ 
+          status: 'error', 
+          message: 'Review not found' 
+        });
+      }
+      
+      res.json(review);
+    } catch (error) {
+      console.error('Error moderating review:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to moderate review' 
+      });
+    }
+  };
+  apiRouter.post('/admin/reviews/:id/hide', requireAdmin, moderateReview('hidden'));
+  apiRouter.post('/admin/reviews/:id/restore', requireAdmin, moderateReview('published'));
+  
+  // Cart Routes
+  
+  // Packs in the user's cart that they can still see, oldest first
+  const getVisibleCart = async (req: Request) =>
+    (await storage.getCartItems(req.user!.id)).filter(item => canViewPack(req.user, item.soundPack));
+  
+  apiRouter.get('/users/:userId/cart', requireSelf, async (req: Request, res: Response) => {
+    try {
+      res.json(await getVisibleCart(req));
+    } catch (error) {
+      console.error('Error fetching cart:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch cart' 
+      });
+    }
+  });
+  
+  // What checking out would cost, with sales and the coupon applied. A
+  // coupon that can't be used is reported in couponError rather than failing
+  // the quote.
+  apiRouter.get(
+    '/users/:userId/cart/quote',
+    requireSelf,
+    validateQuery(cartQuoteQuerySchema),
+    async (req: Request, res: Response) => {
+      try {
+        const { couponCode } = req.query as unknown as CartQuoteQueryParams;
+        
+        const packs: SoundPack[] = [];
+        for (const { soundPack } of await getVisibleCart(req)) {
+          if (!await purchaseBlocker(req.user!, soundPack)) {
+            packs.push(soundPack);
+          }
+        }
+        
+        let couponError: string | null = null;
+        let priced;
+        try {
+          priced = await pricePurchase(packs, couponCode);
+        } catch (error) {
+          if (!(error instanceof CheckoutError)) throw error;
+          couponError = error.message;
+          priced = await pricePurchase(packs);
+        }
+        
+        res.json(summarizeQuote(priced.items, priced.coupon, couponError));
+      } catch (error) {
+        console.error('Error pricing cart:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to price cart' 
+        });
+      }
+    }
+  );
+  
+  apiRouter.post(
+    '/users/:userId/cart',
+    requireSelf,
+    validateRequest(cartItemSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const soundPack = await storage.getSoundPack(req.body.packId);
+        if (!soundPack || !canViewPack(req.user, soundPack)) {
+          return res.status(404).json({ 
+            status: 'error', 
+            message: 'Sound pack not found' 
+          });
+        }
+        
+        const blocker = await purchaseBlocker(req.user!, soundPack);
+        if (blocker) {
+          return res.status(400).json({
+            status: 'error',
+            message: blocker
+          });
+        }
+        
+        const item = await storage.addCartItem(req.user!.id, soundPack.id);
+        res.status(201).json({ ...item, soundPack });
+      } catch (error) {
+        console.error('Error adding to cart:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to add to cart' 
+        });
+      }
+    }
+  );
+  
+  apiRouter.delete('/users/:userId/cart/:packId', requireSelf, async (req: Request, res: Response) => {
+    try {
+      const packId = routeId(req, 'packId');
+      const removed = packId && await storage.removeCartItem(req.user!.id, packId);
+      
+      if (!removed) {
+        return res.status(404).json({ 
+          status: 'error', 
+          message: 'Sound pack is not in your cart' 
+        });
+      }
+      
+      res.json({ 
+        status: 'success', 
+        message: 'Removed from cart' 
+      });
+    } catch (error) {
+      console.error('Error removing from cart:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to remove from cart' 
+      });
+    }
+  });
+  
+  // Checkout Routes
+  
+  // Paid orders answer 201, orders waiting for the payment to be confirmed
+  // 202 (fetch the order again to see how it went) and declined ones 402
+  const sendOrder = (res: Response, order: OrderWithItems) => {
+    if (order.status === 'declined') {
+      return res.status(402).json({
+        status: 'error',
+        message: order.failureReason,
+        order
+      });
+    }
+    res.status(order.status === 'paid' ? 201 : 202).json(order);
+  };
+  
+  // What the checkout form should offer for paying
+  apiRouter.get('/payment-methods', (_req: Request, res: Response) => {
+    res.json({ 
+      provider: paymentProvider.name, 
+      methods: paymentProvider.paymentMethods 
+    });
+  });
+  
+  // Order everything in the cart and pay for it. Packs bought since they
+  // were added are dropped from the cart rather than bought twice.
+  apiRouter.post(
+    '/users/:userId/checkout',
+    requireSelf,
+    validateRequest(checkoutSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const { paymentMethod, couponCode } = req.body as CheckoutRequest;
+        
+        // A retry gets the order the first attempt made, even though the
+        // cart has been emptied since
+        const idempotent = idempotentRequest(req);
+        const replayed = await replayOrder(req.user!, idempotent);
+        if (replayed) {
+          return sendOrder(res, replayed);
+        }
+        
+        const packs: SoundPack[] = [];
+        for (const { soundPack } of await getVisibleCart(req)) {
+          if (await purchaseBlocker(req.user!, soundPack)) {
+            await storage.removeCartItem(req.user!.id, soundPack.id);
+          } else {
+            packs.push(soundPack);
+          }
+        }
+        
+        if (packs.length === 0) {
+          return res.status(400).json({ 
+            status: 'error', 
+            message: 'Your cart is empty' 
+          });
+        }
+        
+        sendOrder(res, await checkout(req.user!, await pricePurchase(packs, couponCode), paymentMethod, idempotent));
+      } catch (error) {
+        if (error instanceof CheckoutError) {
+          return res.status(error.status).json({
+            status: 'error',
+            message: error.message
+          });
+        }
+        console.error('Error checking out:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to check out' 
+        });
+      }
+    }
+  );
+  
+  // The user's orders, newest first
+  apiRouter.get('/users/:userId/orders', requireSelf, async (req: Request, res: Response) => {
+    try {
+      const orders = await storage.getUserOrders(req.user!.id);
+      res.json(await Promise.all(orders.map(refreshOrder)));
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch orders' 
+      });
+    }
+  });
+  
+  // One order; pending ones are checked with the payment provider first
+  apiRouter.get('/users/:userId/orders/:orderId', requireSelf, async (req: Request, res: Response) => {
+    try {
+      const orderId = routeId(req, 'orderId');
+      const order = orderId && await storage.getOrder(orderId);
+      
+      if (!order || order.userId !== req.user!.id) {
+        return res.status(404).json({ 
+          status: 'error', 
+          message: 'Order not found' 
+        });
+      }
+      
+      res.json(await refreshOrder(order));
+    } catch (error) {
+      console.error('Error fetching order:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch order' 
+      });
+    }
+  });
+  
+  // Purchase Routes
+  
+  // Get purchases for a user
+  apiRouter.get('/users/:userId/purchases', requireSelf, async (req: Request, res: Response) => {
+    try {
+      const purchases = await storage.getUserPurchases(req.user!.id);
+      
+      // Get the full sound pack details for each purchase
+      const purchasesWithDetails = await Promise.all(
+        purchases.map(async purchase => {
+          const soundPack = await storage.getSoundPack(purchase.packId);
+          return {
+            ...purchase,
+            soundPack
+          };
+        })
+      );
+      
+      res.json(purchasesWithDetails);
+    } catch (error) {
+      console.error('Error fetching purchases:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch purchases' 
+      });
+    }
+  });
+  
+  // Buy a single pack or a bundle straight away, without going through the
+  // cart. A bundle buys the packs the user doesn't have yet, each for its
+  // share of the bundle's price. A gift buys the pack or the whole bundle
+  // for someone else: the order comes with a gift code for them to redeem.
+  apiRouter.post(
+    '/users/:userId/purchases',
+    requireSelf,
+    validateRequest(purchaseSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const { packId, bundleId, gift, paymentMethod, couponCode } = req.body as PurchaseRequest;
+        
+        const idempotent = idempotentRequest(req);
+        const replayed = await replayOrder(req.user!, idempotent);
+        if (replayed) {
+          return sendOrder(res, replayed);
+        }
+        
+        if (bundleId !== undefined) {
+          const bundle = await storage.getBundle(bundleId);
+          if (!bundle || !canViewBundle(req.user, bundle)) {
+            return res.status(404).json({ 
+              status: 'error', 
+              message: 'Bundle not found' 
+            });
+          }
+          
+          return sendOrder(res, await checkout(
+            req.user!,
+            await priceBundle(req.user!, bundle, couponCode, gift),
+            paymentMethod,
+            idempotent,
+          ));
+        }
+        
+        // Verify the sound pack exists
+        const soundPack = await storage.getSoundPack(packId!);
+        if (!soundPack || !canViewPack(req.user, soundPack)) {
+          return res.status(404).json({ 
+            status: 'error', 
+            message: 'Sound pack not found' 
+          });
+        }
+        
+        const blocker = await purchaseBlocker(req.user!, soundPack, gift);
+        if (blocker) {
+          return res.status(400).json({
+            status: 'error',
+            message: blocker
+          });
+        }
+        
+        sendOrder(res, await checkout(
+          req.user!,
+          { ...await pricePurchase([soundPack], couponCode), gift },
+          paymentMethod,
+          idempotent,
+        ));
+      } catch (error) {
+        if (error instanceof CheckoutError) {
+          return res.status(error.status).json({
+            status: 'error',
+            message: error.message
+          });
+        }
+        console.error('Error creating purchase:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to create purchase' 
+        });
+      }
+    }
+  );
+  
+  // Redeem a gift code, giving the user the packs someone bought for them
+  apiRouter.post(
+    '/redeem',
+    requireAuth,
+    validateRequest(redeemSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const { code } = req.body as RedeemRequest;
+        res.status(201).json(await redeemGift(req.user!, code));
+      } catch (error) {
+        if (error instanceof CheckoutError) {
+          return res.status(error.status).json({
+            status: 'error',
+            message: error.message
+          });
+        }
+        console.error('Error redeeming gift:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to redeem gift' 
+        });
+      }
+    }
+  );
+  
+  // What buying the bundle would cost the user, leaving out the packs they
+  // already have. As with the cart's quote, a coupon that can't be used is
+  // reported in couponError.
+  apiRouter.get(
+    '/users/:userId/bundles/:bundleId/quote',
+    requireSelf,
+    requireViewableBundle('bundleId'),
+    validateQuery(cartQuoteQuerySchema),
+    async (req: Request, res: Response) => {
+      try {
+        const { couponCode } = req.query as unknown as CartQuoteQueryParams;
+        const bundle: BundleWithPacks = res.locals.bundle;
+        
+        let priced = await priceBundle(req.user!, bundle);
+        let couponError: string | null = null;
+        if (couponCode) {
+          try {
+            priced = await priceBundle(req.user!, bundle, couponCode);
+          } catch (error) {
+            if (!(error instanceof CheckoutError)) throw error;
+            couponError = error.message;
+          }
+        }
+        
+        res.json(summarizeQuote(priced.items, priced.coupon, couponError));
+      } catch (error) {
+        if (error instanceof CheckoutError) {
+          return res.status(error.status).json({
+            status: 'error',
+            message: error.message
+          });
+        }
+        console.error('Error pricing bundle:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to price bundle' 
+        });
+      }
+    }
+  );
+  
+  // Check if a user has purchased a sound pack
+  apiRouter.get('/users/:userId/purchases/:packId', requireSelf, async (req: Request, res: Response) => {
+    try {
+      const packId = routeId(req, 'packId');
+      const hasPurchased = !!packId && await storage.hasPurchased(req.user!.id, packId);
+      
+      res.json({ hasPurchased });
+    } catch (error) {
+      console.error('Error checking purchase status:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to check purchase status' 
+      });
+    }
+  });
+  
+  // Refund a sale, taking the pack away from the buyer. For the pack's
+  // creator and admins.
+  apiRouter.post(
+    '/purchases/:purchaseId/refund',
+    requireAuth,
+    requirePackSale('purchaseId'),
+    async (req: Request, res: Response) => {
+      try {
+        res.json(await refundPurchase(res.locals.purchase, req.user!));
+      } catch (error) {
+        if (error instanceof CheckoutError) {
+          return res.status(error.status).json({
+            status: 'error',
+            message: error.message
+          });
+        }
+        console.error('Error refunding purchase:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to refund purchase' 
+        });
+      }
+    }
+  );
+  
+  // Creator Routes
+  
+  // Revenue, units and refunds of a creator's packs, in total, per pack and
+  // per day or week
+  apiRouter.get(
+    '/creators/:userId/sales',
+    requireSelfOrAdmin,
+    validateQuery(salesQuerySchema),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = routeId(req, 'userId')!;
+        const { from, to, days, range } = resolveSalesRange(req.query as unknown as SalesQueryParams);
+        
+        if (days > MAX_SALES_DAYS) {
+          return res.status(400).json({ 
+            status: 'error', 
+            message: `Choose a range of at most ${MAX_SALES_DAYS} days` 
+          });
+        }
+        
+        const [{ items: packs }, rows] = await Promise.all([
+          storage.getAllSoundPacks({ userId }),
+          storage.getCreatorSales(userId, range),
+        ]);
+        
+        res.json(summarizeSales(packs, rows, from, to, range.groupBy));
+      } catch (error) {
+        console.error('Error fetching sales:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to fetch sales' 
+        });
+      }
+    }
+  );
+  
+  // Individual sales of a creator's packs, newest first, so they can be
+  // refunded. Takes the same dates as the sales report.
+  apiRouter.get(
+    '/creators/:userId/purchases',
+    requireSelfOrAdmin,
+    validateQuery(creatorPurchasesQuerySchema),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = routeId(req, 'userId')!;
+        const query = req.query as unknown as CreatorPurchasesQueryParams;
+        const { days, range } = resolveSalesRange({ ...query, groupBy: 'day' });
+        
+        if (days > MAX_SALES_DAYS) {
+          return res.status(400).json({ 
+            status: 'error', 
+            message: `Choose a range of at most ${MAX_SALES_DAYS} days` 
+          });
+        }
+        
+        res.json(await storage.getCreatorPurchases(userId, range, CREATOR_PURCHASES_LIMIT));
+      } catch (error) {
+        console.error('Error fetching sales:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to fetch sales' 
+        });
+      }
+    }
+  );
+  
+  // Coupon Routes
+  
+  // A creator's coupons, newest first
+  apiRouter.get('/creators/:userId/coupons', requireSelfOrAdmin, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getUserCoupons(routeId(req, 'userId')!));
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to fetch coupons' 
+      });
+    }
+  });
+  
+  apiRouter.post(
+    '/creators/:userId/coupons',
+    requireSelfOrAdmin,
+    validateRequest(insertCouponSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = routeId(req, 'userId')!;
+        const coupon = req.body as InsertCoupon;
+        
+        if (coupon.expiresAt && coupon.expiresAt <= new Date()) {
+          return res.status(400).json({ 
+            status: 'error', 
+            message: 'The expiry date must be in the future' 
+          });
+        }
+        
+        for (const packId of coupon.packIds) {
+          const soundPack = await storage.getSoundPack(packId);
+          if (soundPack?.userId !== userId) {
+            return res.status(400).json({ 
+              status: 'error', 
+              message: 'Coupons can only be for your own sound packs' 
+            });
+          }
+        }
+        
+        if (await storage.getCouponByCode(coupon.code)) {
+          return res.status(409).json({ 
+            status: 'error', 
+            message: 'This coupon code is already taken' 
+          });
+        }
+        
+        res.status(201).json(await storage.createCoupon(userId, coupon));
+      } catch (error) {
+        console.error('Error creating coupon:', error);
+        res.status(500).json({ 
+          status: 'error', 
+          message: 'Failed to create coupon' 
+        });
+      }
+    }
+  );
+  
+  // Orders and purchases that used the coupon keep their discount
+  apiRouter.delete('/coupons/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = routeId(req, 'id');
+      const coupon = id && await storage.getCoupon(id);
+      if (!coupon) {
+        return res.status(404).json({ 
+          status: 'error', 
+          message: 'Coupon not found' 
+        });
+      }
+      if (coupon.userId !== req.user!.id && !req.user!.isAdmin) {
+        return res.status(403).json({ 
+          status: 'error', 
+          message: 'You do not have permission to delete this coupon' 
+        });
+      }
+      
+      await storage.deleteCoupon(coupon.id);
+      res.json({ status: 'success', message: 'Coupon deleted' });
+    } catch (error) {
+      console.error('Error deleting coupon:', error);
+      res.status(500).json({ 
+        status: 'error', 
+        message: 'Failed to delete coupon' 
       });
     }
   });
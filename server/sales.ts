@@ -0,0 +1,118 @@
+import type {
+  CreatorSales,
+  PackSales,
+  SalesFigures,
+  SalesGrouping,
+  SalesPeriod,
+  SalesQueryParams,
+  SoundPack
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days covered when the query leaves out one end of the range
+const DEFAULT_SALES_DAYS = 30;
+
+// What storage reports are built from: sales and refunds of one pack in one
+// period. A pack and period can appear more than once; their figures add up.
+export type SalesRow = Omit<SalesFigures, 'netRevenue'> & {
+  packId: number;
+  name: string; // As the pack was sold, for packs deleted since
+  period: string; // Start of the period, YYYY-MM-DD
+};
+
+// Sales between from (inclusive) and to (exclusive), bucketed by groupBy
+export interface SalesRange {
+  from: Date;
+  to: Date;
+  groupBy: SalesGrouping;
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// The UTC day, or the Monday starting the UTC week, that a moment falls in
+export function salesPeriod(date: Date, groupBy: SalesGrouping): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (groupBy === 'week') {
+    // getUTCDay() is 0 for Sunday
+    day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  }
+  return isoDay(day);
+}
+
+// Fill in the missing end(s) of a report's dates: 30 days ending today, or
+// starting or ending on the one given. Returns the first and last day as
+// YYYY-MM-DD and the range storage should cover.
+export function resolveSalesRange(query: SalesQueryParams, now = new Date()) {
+  const span = (DEFAULT_SALES_DAYS - 1) * DAY_MS;
+  const to = query.to ?? (query.from ? isoDay(new Date(Date.parse(query.from) + span)) : isoDay(now));
+  const from = query.from ?? isoDay(new Date(Date.parse(to) - span));
+
+  return {
+    from,
+    to,
+    days: (Date.parse(to) - Date.parse(from)) / DAY_MS + 1,
+    range: {
+      from: new Date(from),
+      to: new Date(Date.parse(to) + DAY_MS),
+      groupBy: query.groupBy,
+    } satisfies SalesRange,
+  };
+}
+
+function emptyFigures(): SalesFigures {
+  return { revenue: 0, units: 0, refunds: 0, refundedUnits: 0, netRevenue: 0 };
+}
+
+function addRow(figures: SalesFigures, row: SalesRow) {
+  figures.revenue += row.revenue;
+  figures.units += row.units;
+  figures.refunds += row.refunds;
+  figures.refundedUnits += row.refundedUnits;
+  figures.netRevenue = figures.revenue - figures.refunds;
+}
+
+// Total storage's rows per pack, per period and overall. Packs and periods
+// without sales are included with zeros so charts and tables stay complete;
+// deleted packs only when they have sales or refunds in the range.
+export function summarizeSales(
+  packs: Pick<SoundPack, 'id' | 'name'>[],
+  rows: SalesRow[],
+  from: string,
+  to: string,
+  groupBy: SalesGrouping,
+): CreatorSales {
+  const totals = emptyFigures();
+  const byPack = new Map<number, PackSales>(
+    packs.map((pack) => [pack.id, { packId: pack.id, name: pack.name, ...emptyFigures() }]),
+  );
+  const byPeriod = new Map<string, SalesPeriod>();
+
+  const step = groupBy === 'week' ? 7 : 1;
+  const last = Date.parse(to);
+  for (let time = Date.parse(salesPeriod(new Date(from), groupBy)); time <= last; time += step * DAY_MS) {
+    const start = isoDay(new Date(time));
+    byPeriod.set(start, { start, ...emptyFigures() });
+  }
+
+  for (const row of rows) {
+    addRow(totals, row);
+    let pack = byPack.get(row.packId);
+    if (!pack) {
+      pack = { packId: row.packId, name: row.name, ...emptyFigures() };
+      byPack.set(row.packId, pack);
+    }
+    addRow(pack, row);
+    const period = byPeriod.get(row.period);
+    if (period) addRow(period, row);
+  }
+
+  return {
+    from,
+    to,
+    groupBy,
+    totals,
+    packs: Array.from(byPack.values()).sort((a, b) => b.revenue - a.revenue || b.units - a.units || a.name.localeCompare(b.name)),
+    series: Array.from(byPeriod.values()),
+  };
+}
@@ -0,0 +1,320 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  envelopeForKey,
+  GEN,
+  listSoundFontPresets,
+  parseSoundFont,
+  presetVoices,
+  readZones,
+  renderKey,
+  SoundFontError,
+  voicesForKey
+} from "./sf2";
+
+// Building small banks: zones are lists of [generator, amount], with key and
+// velocity ranges packed as lo | hi << 8 like the file stores them
+
+type TestZone = [number, number][];
+
+interface TestSample {
+  name: string;
+  start: number;
+  end: number;
+  loopStart?: number;
+  loopEnd?: number;
+  pitch?: number;
+  type?: number;
+}
+
+interface TestBank {
+  samples: number[]; // 16-bit sample values, shared by every sample header
+  sampleHeaders: TestSample[];
+  instruments: { name: string; zones: TestZone[] }[];
+  presets: { name: string; bank?: number; program?: number; zones: TestZone[] }[];
+}
+
+const range = (lo: number, hi: number) => lo | (hi << 8);
+
+function chunk(id: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+const list = (type: string, chunks: Buffer[]) => chunk('LIST', Buffer.concat([Buffer.from(type, 'latin1'), ...chunks]));
+const riff = (lists: Buffer[]) => chunk('RIFF', Buffer.concat([Buffer.from('sfbk', 'latin1'), ...lists]));
+
+// Fixed-size records, with the name in the first 20 bytes
+function record(size: number, name: string, write: (data: Buffer) => void): Buffer {
+  const data = Buffer.alloc(size);
+  data.write(name.slice(0, 20), 0, 'latin1');
+  write(data);
+  return data;
+}
+
+// Headers, bags and generators for presets or instruments, each list ending
+// with its terminal record
+function zoneChunks(items: { name: string; zones: TestZone[] }[], header: (name: string, bag: number, index: number) => Buffer) {
+  const headers: Buffer[] = [];
+  const bags: Buffer[] = [];
+  const generators: Buffer[] = [];
+  const bag = (generator: number) => record(4, '', (data) => data.writeUInt16LE(generator, 0));
+  const generator = (oper: number, amount: number) => record(4, '', (data) => {
+    data.writeUInt16LE(oper, 0);
+    data.writeInt16LE(amount, 2);
+  });
+
+  items.forEach((item, index) => {
+    headers.push(header(item.name, bags.length, index));
+    for (const zone of item.zones) {
+      bags.push(bag(generators.length));
+      generators.push(...zone.map(([oper, amount]) => generator(oper, amount)));
+    }
+  });
+  headers.push(header('EOI', bags.length, items.length));
+  bags.push(bag(generators.length));
+  generators.push(generator(0, 0));
+  return { headers: Buffer.concat(headers), bags: Buffer.concat(bags), generators: Buffer.concat(generators) };
+}
+
+function soundFont(bank: TestBank): Buffer {
+  const samples = Buffer.alloc(bank.samples.length * 2);
+  bank.samples.forEach((value, index) => samples.writeInt16LE(value, index * 2));
+
+  const presets = zoneChunks(bank.presets, (name, bag, index) => record(38, name, (data) => {
+    data.writeUInt16LE(bank.presets[index]?.program ?? 0, 20);
+    data.writeUInt16LE(bank.presets[index]?.bank ?? 0, 22);
+    data.writeUInt16LE(bag, 24);
+  }));
+  const instruments = zoneChunks(bank.instruments, (name, bag) => record(22, name, (data) => data.writeUInt16LE(bag, 20)));
+  const sampleHeaders = [...bank.sampleHeaders, { name: 'EOS', start: 0, end: 0 }].map((sample) =>
+    record(46, sample.name, (data) => {
+      data.writeUInt32LE(sample.start, 20);
+      data.writeUInt32LE(sample.end, 24);
+      data.writeUInt32LE(sample.loopStart ?? 0, 28);
+      data.writeUInt32LE(sample.loopEnd ?? 0, 32);
+      data.writeUInt32LE(44100, 36);
+      data.writeUInt8(sample.pitch ?? 60, 40);
+      data.writeUInt16LE(sample.type ?? 1, 44);
+    })
+  );
+
+  return riff([
+    // An odd length, so the chunks after it start after a pad byte
+    list('INFO', [chunk('INAM', Buffer.from('Test Bank\0\0', 'latin1'))]),
+    list('sdta', [chunk('smpl', samples)]),
+    list('pdta', [
+      chunk('phdr', presets.headers),
+      chunk('pbag', presets.bags),
+      chunk('pgen', presets.generators),
+      chunk('inst', instruments.headers),
+      chunk('ibag', instruments.bags),
+      chunk('igen', instruments.generators),
+      chunk('shdr', Buffer.concat(sampleHeaders)),
+    ]),
+  ]);
+}
+
+// A ramp for every sample to read from: value i * 100 at frame i
+const ramp = Array.from({ length: 200 }, (_, index) => index * 100);
+
+// Low and high halves of the keyboard, played from two samples
+const piano: TestBank = {
+  samples: ramp,
+  sampleHeaders: [
+    { name: 'Low', start: 0, end: 100, loopStart: 10, loopEnd: 20 },
+    { name: 'High', start: 100, end: 200, pitch: 72 },
+  ],
+  instruments: [{
+    name: 'Piano',
+    zones: [
+      [[GEN.initialAttenuation, 20]],
+      [[GEN.keyRange, range(0, 59)], [GEN.sampleID, 0]],
+      [[GEN.keyRange, range(60, 127)], [GEN.sampleID, 1]],
+    ],
+  }],
+  presets: [
+    { name: 'Grand', program: 1, zones: [[[GEN.keyRange, range(48, 72)], [GEN.initialAttenuation, 30], [GEN.instrument, 0]]] },
+    { name: 'Organ', program: 0, zones: [[[GEN.instrument, 0]]] },
+  ],
+};
+
+describe('parseSoundFont', () => {
+  it('reads the bank name, presets and sample headers', () => {
+    const font = parseSoundFont(soundFont(piano));
+    assert.equal(font.name, 'Test Bank');
+    assert.deepEqual(font.presets.map((preset) => [preset.name, preset.program]), [['Grand', 1], ['Organ', 0]]);
+    assert.deepEqual(font.instruments.map((instrument) => [instrument.name, instrument.zones.length]), [['Piano', 2]]);
+    assert.deepEqual(font.sampleHeaders.map((sample) => [sample.name, sample.start, sample.end]), [
+      ['Low', 0, 100],
+      ['High', 100, 200],
+    ]);
+    assert.equal(font.samples.length, 400);
+  });
+
+  it('turns down files that are not whole SoundFont banks', () => {
+    assert.throws(() => parseSoundFont(Buffer.from('RIFF\0\0\0\0WAVE')), new SoundFontError('File is not a SoundFont 2 bank'));
+
+    const bank = soundFont(piano);
+    assert.throws(() => parseSoundFont(bank.subarray(0, bank.length - 10)), new SoundFontError('SoundFont is truncated in its LIST chunk'));
+
+    const infoOnly = riff([list('INFO', [chunk('INAM', Buffer.from('Bank\0', 'latin1'))])]);
+    assert.throws(() => parseSoundFont(infoOnly), new SoundFontError('SoundFont is missing its phdr chunk'));
+  });
+});
+
+describe('readZones', () => {
+  const generator = (oper: number, amount: number) => ({ oper, generator: { amount, lo: amount & 0xff, hi: amount >> 8 } });
+
+  it('splits off global zones and drops zones without the terminal generator', () => {
+    const items = readZones(
+      [{ name: 'A', bag: 0 }, { name: 'B', bag: 3 }, { name: 'EOI', bag: 4 }],
+      [0, 1, 3, 4, 5],
+      [
+        generator(GEN.keyRange, range(0, 63)), // A's global zone
+        generator(GEN.keyRange, range(64, 127)),
+        generator(GEN.sampleID, 0),
+        generator(GEN.pan, 100), // Not the first zone, and no sample
+        generator(GEN.sampleID, 1), // B has no global zone
+        generator(0, 0),
+      ],
+      GEN.sampleID
+    );
+
+    assert.deepEqual(items.map((item) => item.name), ['A', 'B']);
+    assert.deepEqual(Array.from(items[0].global.keys()), [GEN.keyRange]);
+    assert.deepEqual(items[0].zones.map((zone) => zone.get(GEN.sampleID)?.amount), [0]);
+    assert.equal(items[1].global.size, 0);
+    assert.deepEqual(items[1].zones.map((zone) => zone.get(GEN.sampleID)?.amount), [1]);
+  });
+});
+
+describe('presetVoices', () => {
+  it('narrows key ranges to the preset and adds its offsets', () => {
+    const font = parseSoundFont(soundFont(piano));
+    const voices = presetVoices(font, font.presets[0]);
+
+    assert.deepEqual(voices.map((voice) => [voice.sample.name, voice.keyLo, voice.keyHi]), [
+      ['Low', 48, 59],
+      ['High', 60, 72],
+    ]);
+    // 20 from the instrument's global zone plus 30 from the preset
+    assert.equal(voices[0].value(GEN.initialAttenuation), 50);
+    assert.equal(voices[0].value(GEN.attackVolEnv), -12000);
+  });
+
+  it('skips ROM samples and zones whose ranges do not meet', () => {
+    const font = parseSoundFont(soundFont({
+      ...piano,
+      sampleHeaders: [{ ...piano.sampleHeaders[0], type: 0x8001 }, piano.sampleHeaders[1]],
+      presets: [{ name: 'Bass', zones: [[[GEN.keyRange, range(0, 40)], [GEN.instrument, 0]]] }],
+    }));
+    assert.deepEqual(presetVoices(font, font.presets[0]), []);
+  });
+});
+
+describe('voicesForKey', () => {
+  it('keeps only the loudest velocity layer each key has', () => {
+    const font = parseSoundFont(soundFont({
+      ...piano,
+      instruments: [{
+        name: 'Layers',
+        zones: [
+          [[GEN.keyRange, range(41, 127)], [GEN.velRange, range(0, 63)], [GEN.sampleID, 0]],
+          [[GEN.keyRange, range(41, 127)], [GEN.velRange, range(64, 127)], [GEN.sampleID, 1]],
+          [[GEN.keyRange, range(0, 40)], [GEN.velRange, range(0, 63)], [GEN.sampleID, 0]],
+        ],
+      }],
+    }));
+    const voices = presetVoices(font, font.presets[1]);
+
+    assert.deepEqual(voicesForKey(voices, 60).map((voice) => voice.sample.name), ['High']);
+    assert.deepEqual(voicesForKey(voices, 30).map((voice) => [voice.sample.name, voice.velHi]), [['Low', 63]]);
+  });
+});
+
+describe('envelopeForKey', () => {
+  const envelopeBank = (zone: TestZone) => {
+    const font = parseSoundFont(soundFont({
+      ...piano,
+      instruments: [{ name: 'Pad', zones: [[...zone, [GEN.sampleID, 0]]] }],
+    }));
+    return presetVoices(font, font.presets[1])[0];
+  };
+
+  it('converts timecents and centibels into the ranges sounds allow', () => {
+    const voice = envelopeBank([
+      [GEN.attackVolEnv, 0], // 1 second
+      [GEN.decayVolEnv, 2400], // 4 seconds, more than a sound's decay can be
+      [GEN.sustainVolEnv, 60], // -6 dB
+      [GEN.releaseVolEnv, -1200],
+    ]);
+    assert.deepEqual(envelopeForKey(voice, 60), { attack: 1, decay: 2, sustain: 0.501, release: 0.5 });
+  });
+
+  it('shortens the decay of higher keys', () => {
+    const voice = envelopeBank([[GEN.decayVolEnv, 0], [GEN.keynumToVolEnvDecay, 100]]);
+    // The hold stage that is left, 1 ms at its default, is counted in the decay
+    assert.equal(envelopeForKey(voice, 60).decay, 1.001);
+    assert.equal(envelopeForKey(voice, 72).decay, 0.501);
+  });
+});
+
+describe('renderKey', () => {
+  const font = parseSoundFont(soundFont(piano));
+  const voices = presetVoices(font, font.presets[1]);
+
+  it('plays the sample at its own pitch on its root key', () => {
+    const [channel] = renderKey(font, voicesForKey(voices, 72), 72).channelData;
+    // 100 frames, less whatever floating point rounds away
+    assert.ok(channel.length >= 99 && channel.length <= 100);
+    // The instrument's 2 dB attenuation scales everything
+    const gain = Math.pow(10, -20 / 200);
+    assert.ok(Math.abs(channel[5] - (10500 / 0x8000) * gain) < 1e-6);
+  });
+
+  it('steps through the sample faster an octave up', () => {
+    const [channel] = renderKey(font, voicesForKey(voices, 84), 84).channelData;
+    assert.ok(channel.length >= 49 && channel.length <= 50);
+    assert.ok(Math.abs(channel[5] - (11000 / 0x8000) * Math.pow(10, -20 / 200)) < 1e-6);
+  });
+
+  it('renders looping samples for a fixed time, wrapping into the loop', () => {
+    const loopingFont = parseSoundFont(soundFont({
+      ...piano,
+      instruments: [{ name: 'Loop', zones: [[[GEN.sampleModes, 1], [GEN.overridingRootKey, 60], [GEN.sampleID, 0]]] }],
+    }));
+    const audio = renderKey(loopingFont, presetVoices(loopingFont, loopingFont.presets[1]), 60);
+
+    assert.equal(audio.sampleRate, 44100);
+    assert.equal(audio.channelData[0].length, 4 * 44100);
+    // Frame 25 is 15 frames into the 10-frame loop from frame 10
+    assert.ok(Math.abs(audio.channelData[0][25] - 1500 / 0x8000) < 1e-6);
+  });
+
+  it('keeps stereo pairs apart', () => {
+    const stereoFont = parseSoundFont(soundFont({
+      ...piano,
+      sampleHeaders: [{ ...piano.sampleHeaders[0], type: 4 }, { ...piano.sampleHeaders[1], pitch: 60, type: 2 }],
+      instruments: [{ name: 'Wide', zones: [[[GEN.sampleID, 0]], [[GEN.sampleID, 1]]] }],
+    }));
+    const [left, right] = renderKey(stereoFont, presetVoices(stereoFont, stereoFont.presets[1]), 60).channelData;
+
+    assert.ok(Math.abs(left[5] - 500 / 0x8000) < 1e-6);
+    assert.ok(Math.abs(right[5] - 10500 / 0x8000) < 1e-6);
+  });
+});
+
+describe('listSoundFontPresets', () => {
+  it('lists presets by bank and program with the keys they play', () => {
+    assert.deepEqual(listSoundFontPresets(soundFont(piano)), {
+      name: 'Test Bank',
+      presets: [
+        { index: 1, name: 'Organ', bank: 0, program: 0, keys: 96 },
+        { index: 0, name: 'Grand', bank: 0, program: 1, keys: 25 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,475 @@
+import type { ADSREnvelope, InsertSound, Sound, SoundPack } from "@shared/schema";
+import { storage } from "./storage";
+import { analyzeAudio, encodeWav, type DecodedAudio } from "./audio";
+import { releaseStoredUploads, storeUpload } from "./uploads";
+import { clamp, noteForKey, MAX_OCTAVE, MIN_OCTAVE } from "./sfz";
+
+// SoundFont 2 banks: a RIFF file holding one block of 16-bit sample data and
+// a tree of presets -> instruments -> samples, each level split into zones
+// by key and velocity range. A preset is imported by rendering every piano
+// key it plays to its own WAV, since our sounds aren't pitched from a root
+// sample. Modulators, filters, LFOs and the modulation envelope are ignored.
+
+const MB = 1024 * 1024;
+
+// Largest bank the SF2 routes accept
+export const MAX_SOUNDFONT_BYTES = 200 * MB;
+
+// The file isn't a SoundFont bank, or is missing or mangling part of one
+export class SoundFontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SoundFontError';
+  }
+}
+
+interface Chunk {
+  id: string;
+  data: Buffer;
+}
+
+// The chunks one after the other in a RIFF body, e.g. a LIST's contents
+function readChunks(data: Buffer): Chunk[] {
+  const chunks: Chunk[] = [];
+  let offset = 0;
+  while (offset + 8 <= data.length) {
+    const id = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const start = offset + 8;
+    if (start + size > data.length) {
+      throw new SoundFontError(`SoundFont is truncated in its ${id.trim()} chunk`);
+    }
+    chunks.push({ id, data: data.subarray(start, start + size) });
+    // Chunks are padded to an even length
+    offset = start + size + (size % 2);
+  }
+  return chunks;
+}
+
+// Fixed-size records, e.g. the 38-byte preset headers in phdr
+function readRecords<T>(data: Buffer, size: number, read: (offset: number) => T): T[] {
+  return Array.from({ length: Math.floor(data.length / size) }, (_, index) => read(index * size));
+}
+
+// Names are 20 bytes, padded with zeros (and sometimes junk after the first)
+const readName = (data: Buffer, offset: number) =>
+  data.toString('latin1', offset, offset + 20).split('\0')[0].trim();
+
+// The generators we use, by their number in the SF2 spec
+export const GEN = {
+  startAddrsOffset: 0,
+  endAddrsOffset: 1,
+  startloopAddrsOffset: 2,
+  endloopAddrsOffset: 3,
+  startAddrsCoarseOffset: 4,
+  endAddrsCoarseOffset: 12,
+  pan: 17,
+  attackVolEnv: 34,
+  holdVolEnv: 35,
+  decayVolEnv: 36,
+  sustainVolEnv: 37,
+  releaseVolEnv: 38,
+  keynumToVolEnvHold: 39,
+  keynumToVolEnvDecay: 40,
+  instrument: 41,
+  keyRange: 43,
+  velRange: 44,
+  startloopAddrsCoarseOffset: 45,
+  initialAttenuation: 48,
+  endloopAddrsCoarseOffset: 50,
+  coarseTune: 51,
+  fineTune: 52,
+  sampleID: 53,
+  sampleModes: 54,
+  scaleTuning: 56,
+  overridingRootKey: 58,
+} as const;
+
+// Values a generator has when no zone sets it; anything unlisted is 0
+const GEN_DEFAULTS: Record<number, number> = {
+  [GEN.attackVolEnv]: -12000,
+  [GEN.holdVolEnv]: -12000,
+  [GEN.decayVolEnv]: -12000,
+  [GEN.releaseVolEnv]: -12000,
+  [GEN.scaleTuning]: 100,
+  [GEN.overridingRootKey]: -1,
+};
+
+// Generators a preset zone may set, as offsets added to the instrument's
+const PRESET_OFFSETS = [
+  GEN.pan,
+  GEN.attackVolEnv,
+  GEN.holdVolEnv,
+  GEN.decayVolEnv,
+  GEN.sustainVolEnv,
+  GEN.releaseVolEnv,
+  GEN.keynumToVolEnvHold,
+  GEN.keynumToVolEnvDecay,
+  GEN.initialAttenuation,
+  GEN.coarseTune,
+  GEN.fineTune,
+  GEN.scaleTuning,
+];
+
+// A generator's amount, read both ways: signed, and as the low/high bytes
+// of a key or velocity range
+interface Generator {
+  amount: number;
+  lo: number;
+  hi: number;
+}
+
+// A zone's generators by number
+type Zone = Map<number, Generator>;
+
+interface SampleHeader {
+  name: string;
+  start: number;
+  end: number;
+  loopStart: number;
+  loopEnd: number;
+  sampleRate: number;
+  originalPitch: number;
+  pitchCorrection: number;
+  type: number;
+}
+
+const SAMPLE_TYPE_RIGHT = 2;
+const SAMPLE_TYPE_LEFT = 4;
+const SAMPLE_TYPE_ROM = 0x8000;
+
+// A preset or instrument: its global zone (generators every other zone
+// starts from) and the rest
+interface ZonedItem {
+  name: string;
+  global: Zone;
+  zones: Zone[];
+}
+
+interface PresetHeader extends ZonedItem {
+  bank: number;
+  program: number;
+}
+
+interface SoundFont {
+  name: string;
+  // 16-bit little-endian samples
+  samples: Buffer;
+  sampleHeaders: SampleHeader[];
+  presets: PresetHeader[];
+  instruments: ZonedItem[];
+}
+
+// Split items' bags into zones. The first zone is global when it lacks the
+// generator every other zone ends with (an instrument for presets, a sample
+// for instruments); zones after it that lack one are ignored.
+export function readZones(
+  headers: { name: string; bag: number }[],
+  bags: number[],
+  generators: { oper: number; generator: Generator }[],
+  terminal: number
+): ZonedItem[] {
+  // The last header and bag only mark where the previous one ends
+  return headers.slice(0, -1).map((header, index) => {
+    const zones: Zone[] = [];
+    for (let bag = header.bag; bag < headers[index + 1].bag && bag + 1 < bags.length; bag++) {
+      zones.push(new Map(generators.slice(bags[bag], bags[bag + 1]).map(({ oper, generator }) => [oper, generator])));
+    }
+    const global = zones.length > 0 && !zones[0].has(terminal) ? zones.shift()! : new Map();
+    return { name: header.name, global, zones: zones.filter((zone) => zone.has(terminal)) };
+  });
+}
+
+export function parseSoundFont(data: Buffer): SoundFont {
+  if (data.length < 12 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'sfbk') {
+    throw new SoundFontError('File is not a SoundFont 2 bank');
+  }
+
+  // Writers that stream sometimes leave the RIFF size unset, so clamp to the file
+  const lists = new Map<string, Chunk[]>();
+  for (const chunk of readChunks(data.subarray(12, Math.min(data.length, 8 + data.readUInt32LE(4))))) {
+    if (chunk.id === 'LIST' && chunk.data.length >= 4) {
+      lists.set(chunk.data.toString('latin1', 0, 4), readChunks(chunk.data.subarray(4)));
+    }
+  }
+  const chunk = (list: string, id: string) => {
+    const found = lists.get(list)?.find((candidate) => candidate.id === id);
+    if (!found) {
+      throw new SoundFontError(`SoundFont is missing its ${id} chunk`);
+    }
+    return found.data;
+  };
+
+  const readGenerators = (data: Buffer) => readRecords(data, 4, (offset) => ({
+    oper: data.readUInt16LE(offset),
+    generator: { amount: data.readInt16LE(offset + 2), lo: data[offset + 2], hi: data[offset + 3] }
+  }));
+  const readBags = (data: Buffer) => readRecords(data, 4, (offset) => data.readUInt16LE(offset));
+
+  const phdr = chunk('pdta', 'phdr');
+  const presetHeaders = readRecords(phdr, 38, (offset) => ({
+    name: readName(phdr, offset),
+    program: phdr.readUInt16LE(offset + 20),
+    bank: phdr.readUInt16LE(offset + 22),
+    bag: phdr.readUInt16LE(offset + 24),
+  }));
+  const inst = chunk('pdta', 'inst');
+  const instrumentHeaders = readRecords(inst, 22, (offset) => ({
+    name: readName(inst, offset),
+    bag: inst.readUInt16LE(offset + 20),
+  }));
+  const shdr = chunk('pdta', 'shdr');
+  const sampleHeaders = readRecords(shdr, 46, (offset) => ({
+    name: readName(shdr, offset),
+    start: shdr.readUInt32LE(offset + 20),
+    end: shdr.readUInt32LE(offset + 24),
+    loopStart: shdr.readUInt32LE(offset + 28),
+    loopEnd: shdr.readUInt32LE(offset + 32),
+    sampleRate: shdr.readUInt32LE(offset + 36),
+    originalPitch: shdr[offset + 40],
+    pitchCorrection: shdr.readInt8(offset + 41),
+    type: shdr.readUInt16LE(offset + 44),
+  }));
+
+  const presetZones = readZones(presetHeaders, readBags(chunk('pdta', 'pbag')), readGenerators(chunk('pdta', 'pgen')), GEN.instrument);
+  const infoName = lists.get('INFO')?.find((candidate) => candidate.id === 'INAM')?.data;
+
+  return {
+    name: infoName ? infoName.toString('latin1').split('\0')[0].trim() : '',
+    samples: chunk('sdta', 'smpl'),
+    // The last header of each kind is the terminal record
+    sampleHeaders: sampleHeaders.slice(0, -1),
+    presets: presetZones.map((zones, index) => ({ ...zones, bank: presetHeaders[index].bank, program: presetHeaders[index].program })),
+    instruments: readZones(instrumentHeaders, readBags(chunk('pdta', 'ibag')), readGenerators(chunk('pdta', 'igen')), GEN.sampleID),
+  };
+}
+
+// A sample as one preset plays it, with the generators that apply
+interface Voice {
+  keyLo: number;
+  keyHi: number;
+  velLo: number;
+  velHi: number;
+  sample: SampleHeader;
+  value: (oper: number) => number;
+}
+
+// Every sample a preset plays, each with its instrument's generators plus
+// the preset's offsets. Zones whose key or velocity ranges don't overlap
+// play nothing, and ROM samples aren't in the file to be played.
+export function presetVoices(font: SoundFont, preset: PresetHeader): Voice[] {
+  const voices: Voice[] = [];
+  const range = (zone: Zone, global: Zone, oper: number) => zone.get(oper) ?? global.get(oper) ?? { lo: 0, hi: 127 };
+
+  for (const presetZone of preset.zones) {
+    const instrument = font.instruments[presetZone.get(GEN.instrument)!.amount];
+    if (!instrument) continue;
+
+    for (const zone of instrument.zones) {
+      const sample = font.sampleHeaders[zone.get(GEN.sampleID)!.amount];
+      if (!sample || sample.type & SAMPLE_TYPE_ROM) continue;
+
+      const keys = [range(presetZone, preset.global, GEN.keyRange), range(zone, instrument.global, GEN.keyRange)];
+      const velocities = [range(presetZone, preset.global, GEN.velRange), range(zone, instrument.global, GEN.velRange)];
+      const voice: Voice = {
+        keyLo: Math.max(keys[0].lo, keys[1].lo),
+        keyHi: Math.min(keys[0].hi, keys[1].hi),
+        velLo: Math.max(velocities[0].lo, velocities[1].lo),
+        velHi: Math.min(velocities[0].hi, velocities[1].hi),
+        sample,
+        value: (oper) => {
+          const own = zone.get(oper) ?? instrument.global.get(oper);
+          const offset = PRESET_OFFSETS.includes(oper as typeof PRESET_OFFSETS[number])
+            ? (presetZone.get(oper) ?? preset.global.get(oper))?.amount ?? 0
+            : 0;
+          return (own ? own.amount : GEN_DEFAULTS[oper] ?? 0) + offset;
+        }
+      };
+      if (voice.keyLo <= voice.keyHi && voice.velLo <= voice.velHi) {
+        voices.push(voice);
+      }
+    }
+  }
+  return voices;
+}
+
+// Keys the piano plays, as MIDI note numbers
+const LOWEST_KEY = (MIN_OCTAVE + 1) * 12;
+const HIGHEST_KEY = (MAX_OCTAVE + 2) * 12 - 1;
+
+// What plays when a key is struck: velocity layers share a key, so only the
+// loudest layer (the one reaching the highest velocity) is kept
+export function voicesForKey(voices: Voice[], key: number): Voice[] {
+  const onKey = voices.filter((voice) => voice.keyLo <= key && key <= voice.keyHi);
+  const velocity = Math.max(...onKey.map((voice) => voice.velHi));
+  return onKey.filter((voice) => voice.velLo <= velocity && velocity <= voice.velHi);
+}
+
+function presetKeys(voices: Voice[]): number[] {
+  const keys: number[] = [];
+  for (let key = LOWEST_KEY; key <= HIGHEST_KEY; key++) {
+    if (voices.some((voice) => voice.keyLo <= key && key <= voice.keyHi)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+const OUTPUT_SAMPLE_RATE = 44100;
+// Looping samples are rendered this long, as sounds can't loop themselves
+const LOOPED_SECONDS = 4;
+// Longest one-shot render, which keeps each WAV well under the upload limit
+const MAX_RENDERED_SECONDS = 20;
+
+// SF2 times are in timecents: 1200 * log2(seconds)
+const timecentsToSeconds = (timecents: number) => Math.pow(2, timecents / 1200);
+// Levels are attenuations in centibels
+const centibelsToGain = (centibels: number) => Math.pow(10, -clamp(centibels, 0, 1440) / 200);
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// The volume envelope as it applies to a key, squeezed into
+// adsrEnvelopeSchema's ranges. Our envelope has no hold stage, so hold is
+// counted as part of the decay.
+export function envelopeForKey(voice: Voice, key: number): ADSREnvelope {
+  const hold = voice.value(GEN.holdVolEnv) + voice.value(GEN.keynumToVolEnvHold) * (60 - key);
+  const decay = voice.value(GEN.decayVolEnv) + voice.value(GEN.keynumToVolEnvDecay) * (60 - key);
+  return {
+    attack: round(clamp(timecentsToSeconds(voice.value(GEN.attackVolEnv)), 0, 2)),
+    decay: round(clamp(timecentsToSeconds(hold) + timecentsToSeconds(decay), 0, 2)),
+    sustain: round(centibelsToGain(voice.value(GEN.sustainVolEnv))),
+    release: round(clamp(timecentsToSeconds(voice.value(GEN.releaseVolEnv)), 0, 5)),
+  };
+}
+
+// Render the voices a key plays into one clip, pitched and mixed. Stereo
+// pairs come out in stereo; anything else in mono.
+export function renderKey(font: SoundFont, voices: Voice[], key: number): DecodedAudio {
+  const frameCount = font.samples.length >> 1;
+  const stereo = voices.some(({ sample }) => sample.type === SAMPLE_TYPE_LEFT || sample.type === SAMPLE_TYPE_RIGHT);
+
+  const sources = voices.map((voice) => {
+    const { sample, value } = voice;
+    const start = clamp(sample.start + value(GEN.startAddrsOffset) + 32768 * value(GEN.startAddrsCoarseOffset), 0, frameCount);
+    const end = clamp(sample.end + value(GEN.endAddrsOffset) + 32768 * value(GEN.endAddrsCoarseOffset), start, frameCount);
+    const loopStart = sample.loopStart + value(GEN.startloopAddrsOffset) + 32768 * value(GEN.startloopAddrsCoarseOffset);
+    const loopEnd = sample.loopEnd + value(GEN.endloopAddrsOffset) + 32768 * value(GEN.endloopAddrsCoarseOffset);
+    // Modes 1 and 3 loop (3 plays on past the loop on release, which we can't)
+    const loops = (value(GEN.sampleModes) & 1) === 1 && start <= loopStart && loopStart + 1 < loopEnd && loopEnd <= end;
+
+    const rootKey = value(GEN.overridingRootKey) >= 0
+      ? value(GEN.overridingRootKey)
+      : sample.originalPitch <= 127 ? sample.originalPitch : 60;
+    const cents = (key - rootKey) * value(GEN.scaleTuning) + value(GEN.coarseTune) * 100 + value(GEN.fineTune) + sample.pitchCorrection;
+    const step = Math.pow(2, cents / 1200) * (sample.sampleRate || OUTPUT_SAMPLE_RATE) / OUTPUT_SAMPLE_RATE;
+
+    const pan = clamp(value(GEN.pan), -500, 500) / 1000;
+    const gains = sample.type === SAMPLE_TYPE_LEFT ? [1, 0]
+      : sample.type === SAMPLE_TYPE_RIGHT ? [0, 1]
+      : stereo ? [Math.cos((pan + 0.5) * Math.PI / 2), Math.sin((pan + 0.5) * Math.PI / 2)]
+      : [1, 1];
+    const gain = centibelsToGain(value(GEN.initialAttenuation));
+
+    const seconds = loops ? LOOPED_SECONDS : Math.min((end - start) / step / OUTPUT_SAMPLE_RATE, MAX_RENDERED_SECONDS);
+    return { start, end, loopStart, loopEnd, loops, step, gains: gains.map((channel) => channel * gain), frames: Math.floor(seconds * OUTPUT_SAMPLE_RATE) };
+  });
+
+  const frames = Math.max(0, ...sources.map((source) => source.frames));
+  const channelData = Array.from({ length: stereo ? 2 : 1 }, () => new Float32Array(frames));
+
+  for (const { start, end, loopStart, loopEnd, loops, step, gains, frames } of sources) {
+    // Position in the sample data, wrapped back into the loop when it has one
+    const at = (index: number) => {
+      if (loops && index >= loopEnd) {
+        index = loopStart + (index - loopStart) % (loopEnd - loopStart);
+      }
+      return index < end ? font.samples.readInt16LE(index * 2) / 0x8000 : 0;
+    };
+
+    for (let frame = 0; frame < frames; frame++) {
+      const position = start + frame * step;
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const level = at(index) * (1 - fraction) + at(index + 1) * fraction;
+      for (let channel = 0; channel < channelData.length; channel++) {
+        channelData[channel][frame] += level * gains[channel];
+      }
+    }
+  }
+
+  return { sampleRate: OUTPUT_SAMPLE_RATE, channelData };
+}
+
+export interface SoundFontPreset {
+  // Position in the bank, as passed to importSoundFontPreset
+  index: number;
+  name: string;
+  bank: number;
+  program: number;
+  // How many piano keys it plays, i.e. sounds it would add
+  keys: number;
+}
+
+export interface SoundFontSummary {
+  name: string;
+  presets: SoundFontPreset[];
+}
+
+// The presets in a bank, in bank and program order, to choose one from.
+// Throws SoundFontError when the file can't be read.
+export function listSoundFontPresets(data: Buffer): SoundFontSummary {
+  const font = parseSoundFont(data);
+  const presets = font.presets.map((preset, index) => ({
+    index,
+    name: preset.name,
+    bank: preset.bank,
+    program: preset.program,
+    keys: presetKeys(presetVoices(font, preset)).length
+  }));
+  presets.sort((a, b) => a.bank - b.bank || a.program - b.program);
+  return { name: font.name, presets };
+}
+
+// Add one preset of a bank to a pack, as a sound per piano key it plays:
+// each key is rendered to a WAV, stored like an uploaded sound file, and
+// given the preset's volume envelope. The sounds are created together, and
+// the WAVs released again afterwards, which deletes them if that failed. Throws SoundFontError when the file
+// can't be read or the preset plays nothing on the piano.
+export async function importSoundFontPreset(data: Buffer, soundPack: SoundPack, presetIndex: number): Promise<Sound[]> {
+  const font = parseSoundFont(data);
+  const preset = font.presets[presetIndex];
+  if (!preset) {
+    throw new SoundFontError('Preset not found in the SoundFont');
+  }
+
+  const voices = presetVoices(font, preset);
+  const keys = presetKeys(voices);
+  if (keys.length === 0) {
+    throw new SoundFontError(`${preset.name || 'The preset'} plays no notes on the piano`);
+  }
+
+  const urls: string[] = [];
+  try {
+    const sounds: InsertSound[] = [];
+    for (const key of keys) {
+      const keyVoices = voicesForKey(voices, key);
+      const audio = renderKey(font, keyVoices, key);
+      const { url } = await storeUpload('soundFile', encodeWav(audio), soundPack.userId);
+      urls.push(url);
+
+      const { note, octave } = noteForKey(key);
+      sounds.push({
+        packId: soundPack.id,
+        name: `${preset.name} ${note}${octave}`.trim().slice(0, 50),
+        note,
+        octave,
+        waveform: 'sine',
+        envelope: envelopeForKey(keyVoices[0], key),
+        soundFile: url,
+        ...analyzeAudio(audio)
+      });
+    }
+    return await storage.createSounds(sounds);
+  } finally {
+    await releaseStoredUploads(urls);
+  }
+}
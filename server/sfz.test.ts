@@ -0,0 +1,135 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import type { ADSREnvelope, Sound } from "@shared/schema";
+import { encodeWav } from "./audio";
+
+// The round trip stores samples, so the blob store is pointed at a scratch
+// directory before anything loads it
+const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sfz-test-'));
+let sfz: typeof import("./sfz");
+let archive: typeof import("./pack-archive");
+let uploads: typeof import("./uploads");
+let storage: typeof import("./storage").storage;
+
+before(async () => {
+  process.env.UPLOAD_DIR = uploadDir;
+  sfz = await import("./sfz");
+  archive = await import("./pack-archive");
+  uploads = await import("./uploads");
+  storage = (await import("./storage")).storage;
+});
+
+after(() => fs.rmSync(uploadDir, { recursive: true, force: true }));
+
+const opcodes = (text: string) => sfz.parseSfz(text).map((region) => region.opcodes);
+
+describe('parseSfz', () => {
+  it('substitutes #define values, longest name first', () => {
+    assert.deepEqual(opcodes([
+      '#define $KEY 60',
+      '#define $KEY_HI 72',
+      '<region> sample=a.wav lokey=$KEY hikey=$KEY_HI',
+    ].join('\n')), [{ sample: 'a.wav', lokey: '60', hikey: '72' }]);
+  });
+
+  it('gives regions the opcodes of the headers above them until one is replaced', () => {
+    const regions = sfz.parseSfz([
+      '<control> default_path=Samples/',
+      '<global> ampeg_release=1',
+      '<group> lokey=10 ampeg_attack=0.5',
+      '<region> sample=a.wav',
+      '<region> sample=b.wav ampeg_attack=0.1',
+      '<group> hikey=20',
+      '<region> sample=c.wav',
+    ].join('\n'));
+
+    assert.deepEqual(regions, [
+      { index: 0, opcodes: { default_path: 'Samples/', ampeg_release: '1', lokey: '10', ampeg_attack: '0.5', sample: 'a.wav' } },
+      { index: 1, opcodes: { default_path: 'Samples/', ampeg_release: '1', lokey: '10', ampeg_attack: '0.1', sample: 'b.wav' } },
+      { index: 2, opcodes: { default_path: 'Samples/', ampeg_release: '1', hikey: '20', sample: 'c.wav' } },
+    ]);
+  });
+
+  it('skips comments and headers it does not use', () => {
+    assert.deepEqual(opcodes([
+      '/* A block comment',
+      '   <region> sample=commented.wav */',
+      '<curve> curve_index=7 v000=0 // and a line comment',
+      '<region> sample=a.wav // lokey=1',
+    ].join('\r\n')), [{ sample: 'a.wav' }]);
+  });
+
+  it('reads sample paths with spaces up to the next opcode', () => {
+    assert.deepEqual(opcodes('<region> sample=Grand Piano/C 4.wav lokey=60 <region> key=62 sample=Grand Piano/D 4.wav'), [
+      { sample: 'Grand Piano/C 4.wav', lokey: '60' },
+      { key: '62', sample: 'Grand Piano/D 4.wav' },
+    ]);
+  });
+
+  it('turns down directives other than #define', () => {
+    assert.throws(() => sfz.parseSfz('#include "drums.sfz"'), new archive.PackArchiveError('#include is not supported in .sfz files'));
+  });
+});
+
+describe('parseSfzKey', () => {
+  const cases: [string | undefined, number | undefined][] = [
+    ['60', 60],
+    [' 64 ', 64],
+    ['c4', 60],
+    ['C#4', 61],
+    ['db4', 61],
+    ['c-1', 0],
+    ['g9', 127],
+    ['g#9', undefined],
+    ['128', undefined],
+    ['h4', undefined],
+    ['', undefined],
+    [undefined, undefined],
+  ];
+  for (const [value, key] of cases) {
+    it(`reads ${JSON.stringify(value)} as ${key}`, () => {
+      assert.equal(sfz.parseSfzKey(value), key);
+    });
+  }
+});
+
+describe('SFZ archives', () => {
+  // Write the sounds out as an archive, in memory
+  async function exportSounds(sounds: Sound[]): Promise<Buffer> {
+    const pack = (await storage.getSoundPack(sounds[0].packId))!;
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    await sfz.writeSfzArchive(pack, sounds, output);
+    return Buffer.concat(chunks);
+  }
+
+  const fields = (sound: Sound) => [sound.name, sound.note, sound.octave, sound.waveform, sound.envelope, sound.soundFile];
+
+  it('imports what it exports', async () => {
+    const creator = await storage.createUser({ username: 'sfz-creator', password: 'hash' });
+    const source = await storage.createSoundPack({ userId: creator.id, name: 'Source', price: 0 });
+    const copy = await storage.createSoundPack({ userId: creator.id, name: 'Copy', price: 0 });
+
+    const audio = { sampleRate: 8000, channelData: [Float32Array.from({ length: 800 }, (_, i) => Math.sin(i / 10) / 2)] };
+    const { url } = await uploads.storeUpload('soundFile', encodeWav(audio), creator.id);
+    const envelope: ADSREnvelope = { attack: 0.05, decay: 0.3, sustain: 0.6, release: 1.25 };
+    const sounds = [
+      await storage.createSound({ packId: source.id, name: 'Soft Keys', note: 'C', octave: 4, envelope, soundFile: url }),
+      await storage.createSound({ packId: source.id, name: 'Square Lead', note: 'A', octave: 3, waveform: 'square', envelope }),
+      await storage.createSound({ packId: source.id, name: 'Drawn', note: 'D', octave: 4, waveform: 'custom', envelope }),
+    ];
+
+    const imported = await sfz.importSfzArchive(await exportSounds(sounds), copy);
+
+    assert.deepEqual(imported.skipped, []);
+    // Sorted by key; the custom waveform can't be written out. The sample
+    // comes back to the same content-addressed URL.
+    assert.deepEqual(imported.sounds.map(fields), [fields(sounds[1]), fields(sounds[0])]);
+    assert.equal(imported.sounds[1].duration, 0.1);
+  });
+});
@@ -0,0 +1,376 @@
+import path from "path";
+import type { Writable } from "stream";
+import { NOTES, type ADSREnvelope, type InsertSound, type Sound, type SoundPack } from "@shared/schema";
+import { storage } from "./storage";
+import { ZipWriter } from "./zip";
+import {
+  addArchiveFile,
+  checkArchiveFiles,
+  openPackArchive,
+  packFileSlug,
+  storeArchiveFiles,
+  uploadAdder,
+  PackArchiveError,
+  type ArchiveFiles,
+  type PackArchiveIssue
+} from "./pack-archive";
+
+// SFZ instruments: a text file of <region>s, each mapping a sample to a key
+// range, shipped in a zip next to its samples. Only what our sounds can
+// express is used: the root key, the sample (or a built-in waveform) and the
+// amplitude envelope. One sound is made per root key.
+
+const MB = 1024 * 1024;
+const MAX_SFZ_BYTES = 1 * MB;
+
+// Headers from outermost to innermost. Opcodes under a header apply to every
+// region that follows until a header at the same or an outer level.
+const LEVELS = ['control', 'global', 'master', 'group', 'region'] as const;
+const REGION = LEVELS.indexOf('region');
+
+// A region with every opcode it inherits, and its position in the file
+export interface SfzRegion {
+  index: number;
+  opcodes: Record<string, string>;
+}
+
+// Read the regions of an SFZ file. Supports comments and #define; headers we
+// don't use (<curve>, <effect>, ...) are skipped along with their opcodes.
+export function parseSfz(text: string): SfzRegion[] {
+  const levels: Record<string, string>[] = LEVELS.map(() => ({}));
+  const defines: [string, string][] = [];
+  const regions: SfzRegion[] = [];
+  let current: number | null = null;
+
+  const closeRegion = () => {
+    if (current === REGION) {
+      regions.push({ index: regions.length, opcodes: Object.assign({}, ...levels) });
+    }
+  };
+
+  const uncommented = text.replace(/\/\*[\s\S]*?\*\//g, ' ');
+  for (const rawLine of uncommented.split(/\r?\n/)) {
+    let line = rawLine.replace(/\/\/.*$/, '').trim();
+    if (!line) continue;
+
+    const directive = /^#(\w+)\s*(.*)$/.exec(line);
+    if (directive) {
+      const [, name, rest] = directive;
+      if (name === 'define') {
+        const define = /^(\$\w+)\s+(.*)$/.exec(rest);
+        if (define) {
+          defines.push([define[1], define[2].trim()]);
+          // Longest names first so $NOTE doesn't clobber $NOTE_HI
+          defines.sort((a, b) => b[0].length - a[0].length);
+        }
+        continue;
+      }
+      throw new PackArchiveError(`#${name} is not supported in .sfz files`);
+    }
+
+    for (const [name, value] of defines) {
+      line = line.split(name).join(value);
+    }
+
+    // A value runs up to the next header or opcode, so sample paths may
+    // contain spaces
+    const tokens = Array.from(line.matchAll(/<(\w+)>|(\w+)=/g));
+    tokens.forEach((token, i) => {
+      const valueEnd = tokens[i + 1]?.index ?? line.length;
+      const [match, header, opcode] = token;
+
+      if (header) {
+        closeRegion();
+        const level = (LEVELS as readonly string[]).indexOf(header);
+        current = level === -1 ? null : level;
+        if (current !== null) {
+          for (let inner = current; inner < LEVELS.length; inner++) {
+            levels[inner] = {};
+          }
+        }
+      } else if (current !== null) {
+        levels[current][opcode] = line.slice(token.index! + match.length, valueEnd).trim();
+      }
+    });
+  }
+
+  closeRegion();
+  return regions;
+}
+
+const NOTE_LETTERS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+// A key as a MIDI note number (60 = c4 = middle C), from either form SFZ
+// allows: "60" or a note name like "c#4" / "db4"
+export function parseSfzKey(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  let key: number | undefined;
+  const name = /^([a-g])([#b]?)(-?\d+)$/i.exec(value.trim());
+  if (/^\d+$/.test(value.trim())) {
+    key = Number(value);
+  } else if (name) {
+    const [, letter, accidental, octave] = name;
+    key = (Number(octave) + 1) * 12 + NOTE_LETTERS[letter.toLowerCase()] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0);
+  }
+  return key !== undefined && key >= 0 && key <= 127 ? key : undefined;
+}
+
+export const noteForKey = (key: number) => ({ note: NOTES[key % 12], octave: Math.floor(key / 12) - 1 });
+export const keyForNote = (note: string, octave: number) => (octave + 1) * 12 + NOTES.indexOf(note as typeof NOTES[number]);
+
+// Octaves the piano plays (as in updateSoundSchema)
+export const MIN_OCTAVE = 1;
+export const MAX_OCTAVE = 8;
+
+// SFZ's built-in oscillators that match one of our waveforms
+const GENERATOR_WAVEFORMS: Record<string, string> = {
+  '*sine': 'sine',
+  '*saw': 'sawtooth',
+  '*square': 'square',
+  '*triangle': 'triangle',
+  '*tri': 'triangle',
+};
+const WAVEFORM_GENERATORS: Record<string, string> = {
+  sine: '*sine',
+  sawtooth: '*saw',
+  square: '*square',
+  triangle: '*triangle',
+};
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const number = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(number) ? number : fallback;
+}
+
+// ampeg_* opcodes with SFZ's defaults, squeezed into adsrEnvelopeSchema's ranges
+function envelopeForRegion(opcodes: Record<string, string>): ADSREnvelope {
+  return {
+    attack: clamp(parseNumber(opcodes.ampeg_attack, 0), 0, 2),
+    decay: clamp(parseNumber(opcodes.ampeg_decay, 0), 0, 2),
+    sustain: clamp(parseNumber(opcodes.ampeg_sustain, 100) / 100, 0, 1),
+    release: clamp(parseNumber(opcodes.ampeg_release, 0.001), 0, 5),
+  };
+}
+
+interface SfzSound {
+  region: SfzRegion;
+  key: number;
+  // Name of the sample inside the zip; null for a built-in waveform
+  file: string | null;
+  sound: Omit<InsertSound, 'packId' | 'soundFile'>;
+}
+
+export interface SfzImportResult {
+  sounds: Sound[];
+  // Regions that were left out, and why
+  skipped: PackArchiveIssue[];
+}
+
+// Add the instrument in an SFZ archive (one .sfz file plus the samples it
+// names) to a pack, as one sound per root key. Regions we can't represent
+// (release triggers, noise, keys off the piano, extra velocity layers) are
+// skipped and reported; a broken file or missing sample fails the whole
+// import before anything is stored.
+export async function importSfzArchive(data: Buffer, soundPack: SoundPack): Promise<SfzImportResult> {
+  const zip = await openPackArchive(data);
+  try {
+    const sfzNames = zip.names().filter((name) => name.toLowerCase().endsWith('.sfz'));
+    if (sfzNames.length === 0) {
+      throw new PackArchiveError('Archive has no .sfz file');
+    }
+    if (sfzNames.length > 1) {
+      throw new PackArchiveError(`Archive has more than one .sfz file: ${sfzNames.join(', ')}`);
+    }
+
+    const sfzName = sfzNames[0];
+    const regions = parseSfz((await zip.read(sfzName, MAX_SFZ_BYTES)).toString('utf8'));
+
+    // Sample paths in SFZ files written on Windows often differ in case and
+    // separators from the files next to them
+    const namesByLowerCase = new Map(zip.names().map((name) => [name.toLowerCase(), name]));
+    const resolveSample = (opcodes: Record<string, string>) => {
+      const toPosix = (value: string) => value.replace(/\\/g, '/');
+      const relative = path.posix.join(toPosix(opcodes.default_path ?? ''), toPosix(opcodes.sample));
+      const name = path.posix.normalize(path.posix.join(path.posix.dirname(sfzName), relative));
+      return zip.has(name) ? name : namesByLowerCase.get(name.toLowerCase()) ?? name;
+    };
+
+    const issues: PackArchiveIssue[] = [];
+    const skipped: PackArchiveIssue[] = [];
+    const byKey = new Map<number, SfzSound>();
+
+    for (const region of regions) {
+      const { opcodes } = region;
+      const skip = (message: string) => skipped.push({ path: ['regions', region.index], message });
+
+      if (opcodes.trigger && opcodes.trigger !== 'attack') {
+        skip(`${opcodes.trigger} triggers aren't supported`);
+        continue;
+      }
+      if (!opcodes.sample) {
+        skip('Region has no sample');
+        continue;
+      }
+
+      // The root key. key= sets it along with the range; without either,
+      // a single-key range plays at its own pitch and anything else gets
+      // SFZ's default of 60.
+      const lokey = parseSfzKey(opcodes.lokey);
+      const hikey = parseSfzKey(opcodes.hikey);
+      const keyOpcode = ['pitch_keycenter', 'key'].find((name) => opcodes[name] !== undefined);
+      const key = keyOpcode
+        ? parseSfzKey(opcodes[keyOpcode])
+        : lokey !== undefined && lokey === hikey ? lokey : 60;
+      if (key === undefined) {
+        issues.push({ path: ['regions', region.index, keyOpcode!], message: `Invalid key: ${opcodes[keyOpcode!]}` });
+        continue;
+      }
+
+      const { note, octave } = noteForKey(key);
+      if (octave < MIN_OCTAVE || octave > MAX_OCTAVE) {
+        skip(`${note}${octave} is outside the piano's range`);
+        continue;
+      }
+
+      let file: string | null = null;
+      let waveform = 'sine';
+      let name: string;
+      if (opcodes.sample.startsWith('*')) {
+        const generator = GENERATOR_WAVEFORMS[opcodes.sample];
+        if (!generator) {
+          skip(`The ${opcodes.sample} generator isn't supported`);
+          continue;
+        }
+        waveform = generator;
+        name = `${generator[0].toUpperCase()}${generator.slice(1)} ${note}${octave}`;
+      } else {
+        file = resolveSample(opcodes);
+        if (file.startsWith('../')) {
+          issues.push({ path: ['regions', region.index, 'sample'], message: `${opcodes.sample} is outside the archive` });
+          continue;
+        }
+        name = path.posix.basename(file, path.posix.extname(file));
+      }
+      // ARIA's label opcode, which our own exports use to keep sound names
+      name = opcodes.region_label?.trim() || name;
+
+      // Velocity layers and round robins share a key; keep the loudest layer
+      const candidate: SfzSound = {
+        region,
+        key,
+        file,
+        sound: { name: name.slice(0, 50), note, octave, waveform, envelope: envelopeForRegion(opcodes) }
+      };
+      const existing = byKey.get(key);
+      if (existing && parseNumber(existing.region.opcodes.hivel, 127) >= parseNumber(opcodes.hivel, 127)) {
+        skip(`Region ${existing.region.index + 1} already plays ${note}${octave}`);
+        continue;
+      }
+      if (existing) {
+        skipped.push({ path: ['regions', existing.region.index], message: `Region ${region.index + 1} already plays ${note}${octave}` });
+      }
+      byKey.set(key, candidate);
+    }
+
+    if (issues.length > 0) {
+      throw new PackArchiveError(`${sfzName} could not be imported`, issues);
+    }
+
+    const sfzSounds = Array.from(byKey.values()).sort((a, b) => a.key - b.key);
+    if (sfzSounds.length === 0) {
+      throw new PackArchiveError(`${sfzName} has no regions that can be imported`, skipped);
+    }
+
+    const files: ArchiveFiles = new Map();
+    for (const { region, file } of sfzSounds) {
+      if (file) {
+        addArchiveFile(files, file, 'soundFile', ['regions', region.index, 'sample']);
+      }
+    }
+
+    const analyses = await checkArchiveFiles(zip, files);
+
+    const sounds = await storeArchiveFiles(zip, files, soundPack.userId, (urls) =>
+      storage.createSounds(sfzSounds.map(({ file, sound }) => ({
+        ...sound,
+        ...(file ? analyses.get(file) : {}),
+        packId: soundPack.id,
+        soundFile: file ? urls.get(file) : undefined
+      })))
+    );
+
+    return { sounds, skipped };
+  } finally {
+    zip.close();
+  }
+}
+
+// Suggested download name, e.g. "lo-fi-keys-sfz.zip"
+export const sfzArchiveName = (pack: SoundPack) => `${packFileSlug(pack)}-sfz.zip`;
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Write a pack as an SFZ instrument: <slug>.sfz plus its samples under
+// samples/, one single-key region per sound. Sounds without a sample use
+// SFZ's matching built-in waveform; custom waveforms have none and are left
+// out with a comment, as are samples that have gone missing.
+export async function writeSfzArchive(pack: SoundPack, sounds: Sound[], output: Writable): Promise<void> {
+  const zip = new ZipWriter(output);
+  const addFile = uploadAdder(zip);
+
+  try {
+    const lines = [
+      `// ${pack.name}`,
+      `// Exported ${new Date().toISOString()}`,
+      '',
+    ];
+
+    for (let index = 0; index < sounds.length; index++) {
+      const sound = sounds[index];
+      const label = `${sound.name} (${sound.note}${sound.octave})`;
+      const key = keyForNote(sound.note, sound.octave);
+      const envelope = sound.envelope as ADSREnvelope;
+
+      let sample: string | null;
+      if (sound.soundFile) {
+        const number = String(index + 1).padStart(3, '0');
+        sample = await addFile(sound.soundFile, `samples/${number}-${sound.note}${sound.octave}`);
+        if (!sample) {
+          lines.push(`// ${label}: sample file is missing`);
+          continue;
+        }
+      } else {
+        sample = WAVEFORM_GENERATORS[sound.waveform] ?? null;
+        if (!sample) {
+          lines.push(`// ${label}: ${sound.waveform} waveforms can't be exported`);
+          continue;
+        }
+      }
+
+      lines.push(`// ${label}`);
+      lines.push([
+        '<region>',
+        `pitch_keycenter=${key}`,
+        `lokey=${key}`,
+        `hikey=${key}`,
+        `ampeg_attack=${formatNumber(envelope.attack)}`,
+        `ampeg_decay=${formatNumber(envelope.decay)}`,
+        `ampeg_sustain=${formatNumber(envelope.sustain * 100)}`,
+        `ampeg_release=${formatNumber(envelope.release)}`,
+        // Characters that would end the value early are blanked out
+        `region_label=${sound.name.replace(/[<>=\/\r\n]/g, ' ').trim()}`,
+        // Last, since a sample path may contain spaces
+        `sample=${sample}`,
+      ].join(' '));
+    }
+
+    await zip.add(`${packFileSlug(pack)}.sfz`, lines.join('\n') + '\n');
+    await zip.finish();
+  } catch (error) {
+    zip.abort();
+    throw error;
+  }
+}
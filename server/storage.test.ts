@@ -0,0 +1,261 @@
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { PricedPack, SoundPack } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { storageBackends } from "./testing";
+
+// An order line for the pack at its list price
+const pricedPack = (pack: SoundPack): PricedPack => ({
+  packId: pack.id,
+  name: pack.name,
+  originalPrice: pack.price,
+  discount: 0,
+  price: pack.price,
+  couponId: null,
+  bundleId: null,
+});
+
+for (const backend of storageBackends) {
+  describe(backend.name, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await backend.create();
+    });
+
+    const createUser = (username: string) => storage.createUser({ username, password: 'hash' });
+    const createPack = (userId: number, name: string, price = 500, isPublic = true) =>
+      storage.createSoundPack({ userId, name, price, isPublic });
+
+    describe('sound packs', () => {
+      it('filters by visibility and pages through sorted results', async () => {
+        const creator = await createUser('creator');
+        const viewer = await createUser('viewer');
+        await createPack(creator.id, 'Bass', 100);
+        await createPack(creator.id, 'Arps', 300);
+        await createPack(creator.id, 'Keys', 200, false);
+
+        const anonymous = await storage.getAllSoundPacks({ visibleTo: null, sort: 'name-asc' });
+        assert.deepEqual(anonymous.items.map(pack => pack.name), ['Arps', 'Bass']);
+
+        const own = await storage.getAllSoundPacks({ visibleTo: creator.id, sort: 'price-asc', pageSize: 2 });
+        assert.deepEqual(own.items.map(pack => pack.name), ['Bass', 'Keys']);
+        assert.equal(own.total, 3);
+        assert.equal(own.hasMore, true);
+
+        const other = await storage.getAllSoundPacks({ visibleTo: viewer.id });
+        assert.equal(other.total, 2);
+      });
+
+      it('keeps purchases and order items but drops reviews when a pack is deleted', async () => {
+        const creator = await createUser('creator');
+        const buyer = await createUser('buyer');
+        const pack = await createPack(creator.id, 'Keys');
+
+        const order = await storage.createOrder(buyer.id, [pricedPack(pack)]);
+        await storage.completeOrder(order.id);
+        const review = await storage.createReview({ packId: pack.id, userId: buyer.id, rating: 4 });
+        await storage.createReviewReport({ reviewId: review.id, userId: creator.id, reason: 'Spam' });
+
+        assert.equal(await storage.deleteSoundPack(pack.id), true);
+        assert.equal(await storage.getSoundPack(pack.id), undefined);
+
+        const purchases = await storage.getUserPurchases(buyer.id);
+        assert.deepEqual(purchases.map(purchase => purchase.packId), [pack.id]);
+        const [item] = (await storage.getOrder(order.id))!.items;
+        assert.equal(item.packId, null);
+        assert.equal(item.name, 'Keys');
+
+        // The sale stays credited to the creator, under the name it was sold as
+        const range = { from: new Date(Date.now() - 60_000), to: new Date(Date.now() + 60_000) };
+        const sold = await storage.getCreatorPurchases(creator.id, range, 10);
+        assert.deepEqual(sold.map(purchase => [purchase.packName, purchase.buyer]), [['Keys', 'buyer']]);
+        const sales = await storage.getCreatorSales(creator.id, { ...range, groupBy: 'day' });
+        assert.deepEqual(sales.map(row => [row.packId, row.name, row.revenue, row.units]), [[pack.id, 'Keys', 500, 1]]);
+
+        assert.equal(await storage.getReview(review.id), undefined);
+        assert.deepEqual(await storage.getModeratedReviews(), []);
+      });
+    });
+
+    describe('purchases', () => {
+      it('allows one purchase of a pack until it is refunded', async () => {
+        const creator = await createUser('creator');
+        const buyer = await createUser('buyer');
+        const pack = await createPack(creator.id, 'Keys');
+
+        const purchase = await storage.createPurchase({ userId: buyer.id, packId: pack.id, price: 500 });
+        assert.equal(await storage.hasPurchased(buyer.id, pack.id), true);
+        assert.equal((await storage.getSoundPack(pack.id))!.downloads, 1);
+        await assert.rejects(storage.createPurchase({ userId: buyer.id, packId: pack.id, price: 500 }));
+
+        const refunded = await storage.refundPurchase(purchase.id, creator.id);
+        assert.equal(refunded?.refundedBy, creator.id);
+        assert.equal(await storage.refundPurchase(purchase.id, creator.id), undefined);
+        assert.equal(await storage.hasPurchased(buyer.id, pack.id), false);
+        assert.equal((await storage.getSoundPack(pack.id))!.downloads, 0);
+
+        await storage.createPurchase({ userId: buyer.id, packId: pack.id, price: 500 });
+        assert.equal((await storage.getUserPurchases(buyer.id)).length, 2);
+      });
+    });
+
+    describe('orders', () => {
+      it('creates purchases and empties the cart once paid, only once', async () => {
+        const creator = await createUser('creator');
+        const buyer = await createUser('buyer');
+        const keys = await createPack(creator.id, 'Keys', 500);
+        const pads = await createPack(creator.id, 'Pads', 300);
+        await storage.addCartItem(buyer.id, keys.id);
+        await storage.addCartItem(buyer.id, pads.id);
+
+        const order = await storage.createOrder(buyer.id, [pricedPack(keys), pricedPack(pads)], {
+          idempotencyKey: 'key-1',
+        });
+        assert.equal(order.status, 'pending');
+        assert.equal(order.total, 800);
+        await assert.rejects(storage.createOrder(buyer.id, [pricedPack(keys)], { idempotencyKey: 'key-1' }));
+        assert.equal((await storage.getOrderByIdempotencyKey(buyer.id, 'key-1'))?.id, order.id);
+
+        const paid = await storage.completeOrder(order.id, 'payment-1');
+        assert.equal(paid?.status, 'paid');
+        assert.equal(paid?.paymentId, 'payment-1');
+        assert.deepEqual(await storage.getCartItems(buyer.id), []);
+        assert.equal((await storage.declineOrder(order.id, 'Too late'))?.status, 'paid');
+        await storage.completeOrder(order.id);
+
+        const purchases = await storage.getUserPurchases(buyer.id);
+        assert.deepEqual(purchases.map(purchase => [purchase.packId, purchase.orderId]).sort(), [
+          [keys.id, order.id],
+          [pads.id, order.id],
+        ].sort());
+      });
+
+      it('marks packs the buyer already has when a second order is paid', async () => {
+        const creator = await createUser('creator');
+        const buyer = await createUser('buyer');
+        const pack = await createPack(creator.id, 'Keys');
+
+        const first = await storage.createOrder(buyer.id, [pricedPack(pack)]);
+        const second = await storage.createOrder(buyer.id, [pricedPack(pack)]);
+        await storage.completeOrder(first.id);
+        const paid = await storage.completeOrder(second.id);
+
+        assert.equal(paid?.status, 'paid');
+        assert.equal(paid?.items[0].alreadyOwned, true);
+        assert.equal((await storage.getOrder(first.id))?.items[0].alreadyOwned, false);
+        assert.equal((await storage.getUserPurchases(buyer.id)).length, 1);
+      });
+
+      it('gives back the coupon use of a declined order', async () => {
+        const creator = await createUser('creator');
+        const buyer = await createUser('buyer');
+        const pack = await createPack(creator.id, 'Keys');
+        const coupon = await storage.createCoupon(creator.id, {
+          code: 'ONCE',
+          discountType: 'percent',
+          amount: 50,
+          maxUses: 1,
+          packIds: [],
+        });
+
+        assert.equal(await storage.useCoupon(coupon.id), true);
+        assert.equal(await storage.useCoupon(coupon.id), false);
+
+        const order = await storage.createOrder(buyer.id, [pricedPack(pack)], { couponId: coupon.id });
+        const declined = await storage.declineOrder(order.id, 'Card declined');
+        assert.equal(declined?.status, 'declined');
+        assert.equal(declined?.failureReason, 'Card declined');
+        assert.equal((await storage.getCoupon(coupon.id))?.uses, 0);
+        assert.deepEqual(await storage.getUserPurchases(buyer.id), []);
+      });
+
+      it('holds the packs of a gift order for whoever redeems its code', async () => {
+        const creator = await createUser('creator');
+        const gifter = await createUser('gifter');
+        const friend = await createUser('friend');
+        const keys = await createPack(creator.id, 'Keys');
+        const pads = await createPack(creator.id, 'Pads');
+        await storage.createPurchase({ userId: friend.id, packId: keys.id, price: 0 });
+
+        const order = await storage.createOrder(gifter.id, [pricedPack(keys), pricedPack(pads)], {
+          giftCode: 'AAAA-BBBB-CCCC',
+        });
+        assert.equal(await storage.redeemGift(order.id, friend.id, [keys.id, pads.id]), undefined);
+
+        await storage.completeOrder(order.id);
+        assert.deepEqual(await storage.getUserPurchases(gifter.id), []);
+        assert.equal((await storage.getOrderByGiftCode('AAAA-BBBB-CCCC'))?.id, order.id);
+
+        // Sold once paid, before anyone redeems it
+        const range = { from: new Date(Date.now() - 60_000), to: new Date(Date.now() + 60_000) };
+        const sold = await storage.getCreatorPurchases(creator.id, range, 10);
+        assert.deepEqual(sold.map(purchase => [purchase.packName, purchase.buyer, purchase.userId]).sort(), [
+          ['Keys', 'friend', friend.id],
+          ['Keys', 'gifter', null],
+          ['Pads', 'gifter', null],
+        ]);
+
+        const gift = await storage.redeemGift(order.id, friend.id, [keys.id, pads.id]);
+        assert.deepEqual(gift?.redeemed.map(purchase => [purchase.packId, purchase.userId, purchase.giftedBy]), [
+          [pads.id, friend.id, gifter.id],
+        ]);
+        assert.deepEqual(gift?.skipped.map(purchase => [purchase.packId, purchase.userId]), [[keys.id, null]]);
+        assert.equal((await storage.getOrder(order.id))?.redeemedBy, friend.id);
+        assert.equal(await storage.redeemGift(order.id, gifter.id, [keys.id, pads.id]), undefined);
+      });
+    });
+
+    describe('audio blobs', () => {
+      it('keeps a blob until its uploads and sounds let go of it', async () => {
+        const creator = await createUser('creator');
+        const pack = await createPack(creator.id, 'Keys');
+        const url = '/uploads/audio/ab/abc.wav';
+        const blob = { hash: 'abc', url, mimetype: 'audio/wav', size: 44 };
+
+        await storage.createAudioBlob(blob);
+        assert.equal((await storage.createAudioBlob(blob)).refCount, 2);
+        const sound = await storage.createSound({ packId: pack.id, name: 'Low C', note: 'C', octave: 3, soundFile: url });
+        await storage.releaseAudioBlob('abc');
+        await storage.releaseAudioBlob('abc');
+        assert.equal(await storage.deleteAudioBlobIfUnused('abc'), false);
+
+        await storage.deleteSound(sound.id);
+        assert.equal(await storage.deleteAudioBlobIfUnused('abc'), true);
+        assert.equal(await storage.getAudioBlobByUrl(url), undefined);
+      });
+    });
+
+    describe('bundles', () => {
+      it('lists the packs of visible bundles by name', async () => {
+        const creator = await createUser('creator');
+        const keys = await createPack(creator.id, 'Keys');
+        const arps = await createPack(creator.id, 'Arps');
+        const bundle = await storage.createBundle(creator.id, {
+          name: 'Everything',
+          description: '',
+          price: 800,
+          isPublic: true,
+          packIds: [keys.id, arps.id, keys.id],
+        });
+        await storage.createBundle(creator.id, {
+          name: 'Secret',
+          description: '',
+          price: 100,
+          isPublic: false,
+          packIds: [keys.id, arps.id],
+        });
+
+        assert.deepEqual(bundle.packs.map(pack => pack.name), ['Arps', 'Keys']);
+        assert.deepEqual((await storage.getBundles({ visibleTo: null })).map(bundle => bundle.name), ['Everything']);
+        assert.equal((await storage.getBundles({ visibleTo: creator.id })).length, 2);
+
+        // One pack is too few to sell as a bundle
+        await storage.deleteSoundPack(arps.id);
+        const left = await storage.getBundle(bundle.id);
+        assert.deepEqual(left?.packs.map(pack => pack.name), ['Keys']);
+        assert.equal(left?.isPublic, false);
+      });
+    });
+  });
+}
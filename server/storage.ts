@@ -3,7 +3,22 @@ import {
   soundPacks, 
   sounds, 
   reviews, 
+  reviewReports,
   purchases,
+  cartItems,
+  orders,
+  orderItems,
+  coupons,
+  couponPacks,
+  salePrices,
+  bundles,
+  bundlePacks,
+  tags,
+  soundPackTags,
+  audioBlobs,
+  slugifyTag,
+  DEFAULT_CURRENCY,
+  MIN_BUNDLE_PACKS,
   type User, 
   type InsertUser,
   type SoundPack,
@@ -12,14 +27,99 @@ import {
   type InsertSound,
   type Review,
   type InsertReview,
+  type UpdateReview,
+  type ReviewStatus,
+  type ReviewReport,
+  type InsertReviewReport,
+  type ModeratedReview,
   type Purchase,
-  type InsertPurchase
+  type InsertPurchase,
+  type CreatorPurchase,
+  type Coupon,
+  type CouponWithPacks,
+  type InsertCoupon,
+  type SalePrice,
+  type InsertSalePrice,
+  type Bundle,
+  type BundleWithPacks,
+  type InsertBundle,
+  type UpdateBundle,
+  type PricedPack,
+  type CartItem,
+  type CartItemWithPack,
+  type Order,
+  type OrderItem,
+  type OrderWithItems,
+  type SoundPackSort,
+  type Paginated,
+  type Tag,
+  type TagFacet,
+  type AudioBlob,
+  type InsertAudioBlob
 } from "@shared/schema";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDatabase, createPool, type Database } from "./db";
+import { salesPeriod, type SalesRange, type SalesRow } from "./sales";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Review fields set by the server rather than the reviewer
+export type ReviewModeration = Partial<Pick<Review, 'status' | 'heldReason'>>;
+
+// Filters for listing sound packs
+export interface SoundPackQuery {
+  userId?: number;
+  isPublic?: boolean;
+  // Only packs this viewer may see: public ones plus their own.
+  // null is an anonymous viewer, undefined applies no restriction
+  visibleTo?: number | null;
+  search?: string; // Case-insensitive match on name or description
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  tag?: string; // Tag slug
+  sort?: SoundPackSort; // Defaults to newest first
+  page?: number; // 1-based
+  pageSize?: number; // All matching packs when omitted
+}
+
+// A new pack's sound, before the pack has an id
+export type NewPackSound = Omit<InsertSound, 'packId'>;
+
+export type ImportedSoundPack = SoundPack & { tags: Tag[]; sounds: Sound[] };
+
+// Filters for listing bundles, newest first
+export interface BundleQuery {
+  userId?: number;
+  // Only bundles this viewer may see: public ones plus their own.
+  // null is an anonymous viewer, undefined applies no restriction
+  visibleTo?: number | null;
+}
+
+// Bundle fields as stored; imageUrl comes from the uploaded file
+export type NewBundle = InsertBundle & { imageUrl?: string };
+export type BundleChanges = UpdateBundle & { imageUrl?: string };
+
+export type NewOrderOptions = Partial<Pick<Order, 'currency' | 'idempotencyKey' | 'requestHash' | 'couponId' | 'giftCode'>>;
+
+// What redeeming a gift did with the purchases held for it: the ones the
+// redeemer got, and the ones still held because they couldn't have them
+export interface RedeemedGift {
+  redeemed: Purchase[];
+  skipped: Purchase[];
+}
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  // Backing store for login sessions
+  sessionStore: session.Store;
+  
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -27,26 +127,224 @@ export interface IStorage {
   
   // Sound pack methods
   getSoundPack(id: number): Promise<SoundPack | undefined>;
-  getAllSoundPacks(options?: { userId?: number, isPublic?: boolean }): Promise<SoundPack[]>;
+  getAllSoundPacks(options?: SoundPackQuery): Promise<Paginated<SoundPack>>;
   createSoundPack(soundPack: InsertSoundPack): Promise<SoundPack>;
   updateSoundPack(id: number, updates: Partial<SoundPack>): Promise<SoundPack | undefined>;
+  // Its sounds, tags and reviews go with it. Purchases and order items stay
+  // for the record, still carrying the deleted pack's id. Public bundles it
+  // leaves with fewer than MIN_BUNDLE_PACKS packs are made private.
   deleteSoundPack(id: number): Promise<boolean>;
+  // Create a pack together with its tags and sounds: all of them or none
+  importSoundPack(soundPack: InsertSoundPack, tagNames: string[], sounds: NewPackSound[]): Promise<ImportedSoundPack>;
+  
+  // Tag methods
+  getAllTags(): Promise<Tag[]>;
+  getTagsByPackId(packId: number): Promise<Tag[]>;
+  // Replace a pack's tags, creating any tag names not seen before
+  setSoundPackTags(packId: number, tagNames: string[]): Promise<Tag[]>;
+  // Tags with the number of matching packs carrying each; ignores paging, sort and tag
+  getTagFacets(options?: SoundPackQuery): Promise<TagFacet[]>;
   
   // Sound methods
   getSound(id: number): Promise<Sound | undefined>;
   getSoundsByPackId(packId: number): Promise<Sound[]>;
   createSound(sound: InsertSound): Promise<Sound>;
+  // Add several sounds at once: all of them or none
+  createSounds(sounds: InsertSound[]): Promise<Sound[]>;
   updateSound(id: number, updates: Partial<Sound>): Promise<Sound | undefined>;
   deleteSound(id: number): Promise<boolean>;
   
-  // Review methods
+  // Review methods. Every write recalculates the pack's rating and reviewCount
+  // from its published reviews.
+  getReview(id: number): Promise<Review | undefined>;
   getReviewsByPackId(packId: number): Promise<Review[]>;
-  createReview(review: InsertReview): Promise<Review>;
+  // A user's review of a pack; each user has at most one per pack
+  getUserReview(userId: number, packId: number): Promise<Review | undefined>;
+  createReview(review: InsertReview & ReviewModeration): Promise<Review>;
+  updateReview(id: number, updates: UpdateReview & ReviewModeration): Promise<Review | undefined>;
+  deleteReview(id: number): Promise<boolean>;
+  
+  // Review moderation methods
+  // Reviews with the given status, or when none is given the queue: held
+  // reviews and those with unresolved reports. Oldest first.
+  getModeratedReviews(status?: ReviewStatus): Promise<ModeratedReview[]>;
+  hasReportedReview(userId: number, reviewId: number): Promise<boolean>;
+  createReviewReport(report: InsertReviewReport): Promise<ReviewReport>;
+  // Publish or hide a review, resolving its open reports
+  setReviewStatus(id: number, status: ReviewStatus): Promise<Review | undefined>;
   
   // Purchase methods
+  getPurchase(id: number): Promise<Purchase | undefined>;
+  // Including refunded purchases
   getUserPurchases(userId: number): Promise<Purchase[]>;
+  // Credited to the pack's creator. Throws if the user already has the pack
+  // or there's no such pack.
   createPurchase(purchase: InsertPurchase): Promise<Purchase>;
+  // Refunded purchases don't count
   hasPurchased(userId: number, packId: number): Promise<boolean>;
+  // Mark a purchase refunded and take it off the pack's downloads. Undefined
+  // if there's no such purchase or it was already refunded. refundedBy is
+  // null for refunds nobody asked for, of gifts that couldn't be given.
+  refundPurchase(id: number, refundedBy: number | null): Promise<Purchase | undefined>;
+  // Sales credited to a creator made within the range, newest first. Sales of
+  // packs deleted since are included, named as they were ordered.
+  getCreatorPurchases(creatorId: number, range: Omit<SalesRange, 'groupBy'>, limit: number): Promise<CreatorPurchase[]>;
+  // Sales and refunds credited to a creator within the range, per pack and
+  // period, including those of packs deleted since
+  getCreatorSales(creatorId: number, range: SalesRange): Promise<SalesRow[]>;
+  
+  // Coupon methods
+  getCoupon(id: number): Promise<CouponWithPacks | undefined>;
+  // Codes are stored upper case; pass the code upper cased
+  getCouponByCode(code: string): Promise<CouponWithPacks | undefined>;
+  // Newest first
+  getUserCoupons(userId: number): Promise<CouponWithPacks[]>;
+  createCoupon(userId: number, coupon: InsertCoupon): Promise<CouponWithPacks>;
+  deleteCoupon(id: number): Promise<boolean>;
+  // Count a use of the coupon, unless it has reached its limit. False when
+  // there's no use left.
+  useCoupon(id: number): Promise<boolean>;
+  // Give back a use taken by useCoupon
+  releaseCoupon(id: number): Promise<void>;
+  
+  // Sale price methods
+  // Past, current and future sales of a pack, earliest first
+  getSalePrices(packId: number): Promise<SalePrice[]>;
+  getSalePrice(id: number): Promise<SalePrice | undefined>;
+  // The sale each of the packs is on at the given time, by pack id. Packs
+  // not on sale are left out.
+  getActiveSalePrices(packIds: number[], at: Date): Promise<Map<number, SalePrice>>;
+  createSalePrice(packId: number, sale: InsertSalePrice): Promise<SalePrice>;
+  deleteSalePrice(id: number): Promise<boolean>;
+  
+  // Bundle methods. Bundles come with all of their packs, including any
+  // the caller may not be allowed to see.
+  getBundle(id: number): Promise<BundleWithPacks | undefined>;
+  getBundles(options?: BundleQuery): Promise<BundleWithPacks[]>;
+  createBundle(userId: number, bundle: NewBundle): Promise<BundleWithPacks>;
+  // packIds, when given, replaces the bundle's packs
+  updateBundle(id: number, updates: BundleChanges): Promise<BundleWithPacks | undefined>;
+  deleteBundle(id: number): Promise<boolean>;
+  
+  // Cart methods
+  // Oldest first
+  getCartItems(userId: number): Promise<CartItemWithPack[]>;
+  // Adding a pack that's already in the cart returns the existing item
+  addCartItem(userId: number, packId: number): Promise<CartItem>;
+  removeCartItem(userId: number, packId: number): Promise<boolean>;
+  
+  // Order methods
+  getOrder(id: number): Promise<OrderWithItems | undefined>;
+  // Newest first
+  getUserOrders(userId: number): Promise<OrderWithItems[]>;
+  getOrderByIdempotencyKey(userId: number, idempotencyKey: string): Promise<OrderWithItems | undefined>;
+  // Codes are stored as giftCodeSchema formats them
+  getOrderByGiftCode(giftCode: string): Promise<OrderWithItems | undefined>;
+  // A pending order for the priced packs. Throws if the user already has an
+  // order with the same idempotency key.
+  createOrder(userId: number, items: PricedPack[], options?: NewOrderOptions): Promise<OrderWithItems>;
+  setOrderPaymentId(id: number, paymentId: string): Promise<Order | undefined>;
+  // Mark a pending order paid, take its packs out of the buyer's cart and
+  // create a purchase for each one they don't already own; the others are
+  // marked alreadyOwned, for the caller to refund. The purchases of a gift
+  // order belong to nobody and are held until it's redeemed. Orders that
+  // aren't pending are returned unchanged, so settling twice is harmless.
+  completeOrder(id: number, paymentId?: string): Promise<OrderWithItems | undefined>;
+  // Mark a pending order declined, giving back its coupon use; same rules
+  // as completeOrder
+  declineOrder(id: number, reason: string, paymentId?: string): Promise<OrderWithItems | undefined>;
+  // Mark a paid gift order redeemed by the user and give them its held
+  // purchases of the packs among packIds that they don't already own. The
+  // rest stay held, for the caller to refund. Undefined if the order isn't a
+  // paid gift or has already been redeemed.
+  redeemGift(id: number, userId: number, packIds: number[]): Promise<RedeemedGift | undefined>;
+  
+  // Upload methods
+  // Whether any sound, pack or bundle still points at an uploaded file's URL
+  isUploadReferenced(url: string): Promise<boolean>;
+  // Every upload URL still in use, for garbage collection
+  getReferencedUploads(): Promise<Set<string>>;
+  
+  // Audio blob methods. Sound writes keep each blob's refCount in step with
+  // the sounds whose soundFile is its url.
+  getAudioBlobByUrl(url: string): Promise<AudioBlob | undefined>;
+  // Record a stored blob, or find the existing record for the same hash, and
+  // take a reference to it for the upload until releaseAudioBlob
+  createAudioBlob(blob: InsertAudioBlob): Promise<AudioBlob>;
+  // Give back the reference createAudioBlob took
+  releaseAudioBlob(hash: string): Promise<void>;
+  // Forget a blob no sound uses; false if it is still referenced
+  deleteAudioBlobIfUnused(hash: string): Promise<boolean>;
+}
+
+function compareSoundPacks(a: SoundPack, b: SoundPack, sort: SoundPackSort): number {
+  switch (sort) {
+    case 'newest':
+      return b.createdAt.getTime() - a.createdAt.getTime();
+    case 'oldest':
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case 'name-asc':
+      return a.name.localeCompare(b.name);
+    case 'name-desc':
+      return b.name.localeCompare(a.name);
+    case 'price-asc':
+      return a.price - b.price;
+    case 'price-desc':
+      return b.price - a.price;
+    case 'rating':
+      return b.rating - a.rating || b.reviewCount - a.reviewCount;
+    case 'popular':
+      return b.downloads - a.downloads;
+  }
+}
+
+// Tag names as given by a creator, deduplicated by slug (first spelling wins)
+function uniqueTagNames(tagNames: string[]): { slug: string, name: string }[] {
+  const bySlug = new Map<string, string>();
+  for (const name of tagNames) {
+    const slug = slugifyTag(name);
+    if (slug && !bySlug.has(slug)) {
+      bySlug.set(slug, name.trim());
+    }
+  }
+  return Array.from(bySlug, ([slug, name]) => ({ slug, name }));
+}
+
+function compareTagFacets(a: TagFacet, b: TagFacet): number {
+  return b.count - a.count || a.name.localeCompare(b.name);
+}
+
+function paginate<T>(items: T[], page = 1, pageSize?: number): Paginated<T> {
+  const size = pageSize ?? Math.max(items.length, 1);
+  const start = (page - 1) * size;
+  return {
+    items: items.slice(start, start + size),
+    total: items.length,
+    page,
+    pageSize: size,
+    hasMore: start + size < items.length,
+  };
+}
+
+// The purchase an item of a paid order grants; items whose pack was deleted
+// grant nothing and must be skipped first
+function orderedPurchase(order: Order, item: OrderItem): InsertPurchase {
+  return {
+    userId: order.userId,
+    packId: item.packId!,
+    price: item.price,
+    originalPrice: item.originalPrice,
+    discount: item.discount,
+    couponId: item.couponId,
+    bundleId: item.bundleId,
+    orderId: order.id,
+    orderItemId: item.id,
+  };
+}
+
+// The purchase an item of a paid gift order holds for whoever redeems it
+function heldGiftPurchase(order: Order, item: OrderItem): InsertPurchase {
+  return { ...orderedPurchase(order, item), userId: null, giftedBy: order.userId };
 }
 
 export class MemStorage implements IStorage {
@@ -54,26 +352,70 @@ export class MemStorage implements IStorage {
   private soundPacks: Map<number, SoundPack>;
   private sounds: Map<number, Sound>;
   private reviews: Map<number, Review>;
+  private reviewReports: Map<number, ReviewReport>;
   private purchases: Map<number, Purchase>;
+  private cartItems: Map<string, CartItem>; // `${userId}:${packId}` -> item
+  private orders: Map<number, Order>;
+  private orderItems: Map<number, OrderItem>;
+  private coupons: Map<number, Coupon>;
+  private couponPackIds: Map<number, Set<number>>; // couponId -> pack ids
+  private salePrices: Map<number, SalePrice>;
+  private bundles: Map<number, Bundle>;
+  private bundlePackIds: Map<number, Set<number>>; // bundleId -> pack ids
+  private tags: Map<number, Tag>;
+  private packTagIds: Map<number, Set<number>>; // packId -> tag ids
+  private audioBlobs: Map<string, AudioBlob>; // hash -> blob
   
   private userIdCounter: number;
   private soundPackIdCounter: number;
   private soundIdCounter: number;
   private reviewIdCounter: number;
+  private reviewReportIdCounter: number;
   private purchaseIdCounter: number;
+  private orderIdCounter: number;
+  private orderItemIdCounter: number;
+  private couponIdCounter: number;
+  private salePriceIdCounter: number;
+  private bundleIdCounter: number;
+  private tagIdCounter: number;
+  
+  public sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.soundPacks = new Map();
     this.sounds = new Map();
     this.reviews = new Map();
+    this.reviewReports = new Map();
     this.purchases = new Map();
+    this.cartItems = new Map();
+    this.orders = new Map();
+    this.orderItems = new Map();
+    this.coupons = new Map();
+    this.couponPackIds = new Map();
+    this.salePrices = new Map();
+    this.bundles = new Map();
+    this.bundlePackIds = new Map();
+    this.tags = new Map();
+    this.packTagIds = new Map();
+    this.audioBlobs = new Map();
     
     this.userIdCounter = 1;
     this.soundPackIdCounter = 1;
     this.soundIdCounter = 1;
     this.reviewIdCounter = 1;
+    this.reviewReportIdCounter = 1;
     this.purchaseIdCounter = 1;
+    this.orderIdCounter = 1;
+    this.orderItemIdCounter = 1;
+    this.couponIdCounter = 1;
+    this.salePriceIdCounter = 1;
+    this.bundleIdCounter = 1;
+    this.tagIdCounter = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
   }
 
   // User methods
@@ -90,7 +432,7 @@ export class MemStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const createdAt = new Date();
-    const user: User = { ...insertUser, id, createdAt };
+    const user: User = { ...insertUser, isAdmin: insertUser.isAdmin ?? false, id, createdAt };
     this.users.set(id, user);
     return user;
   }
@@ -100,7 +442,19 @@ export class MemStorage implements IStorage {
     return this.soundPacks.get(id);
   }
   
-  async getAllSoundPacks(options?: { userId?: number, isPublic?: boolean }): Promise<SoundPack[]> {
+  async getAllSoundPacks(options?: SoundPackQuery): Promise<Paginated<SoundPack>> {
+    const packs = this.filterSoundPacks(options);
+    
+    const sort = options?.sort ?? 'newest';
+    packs.sort((a, b) => compareSoundPacks(a, b, sort) || (
+      // Keep pages stable when the sort key ties
+      sort === 'oldest' || sort.endsWith('-asc') ? a.id - b.id : b.id - a.id
+    ));
+    
+    return paginate(packs, options?.page, options?.pageSize);
+  }
+  
+  private filterSoundPacks(options?: SoundPackQuery): SoundPack[] {
     let packs = Array.from(this.soundPacks.values());
     
     if (options?.userId !== undefined) {
@@ -111,6 +465,37 @@ export class MemStorage implements IStorage {
       packs = packs.filter(pack => pack.isPublic === options.isPublic);
     }
     
+    if (options?.visibleTo !== undefined) {
+      packs = packs.filter(pack => pack.isPublic || pack.userId === options.visibleTo);
+    }
+    
+    if (options?.search) {
+      const searchLower = options.search.toLowerCase();
+      packs = packs.filter(pack =>
+        pack.name.toLowerCase().includes(searchLower) ||
+        (pack.description?.toLowerCase().includes(searchLower) ?? false)
+      );
+    }
+    
+    if (options?.minPrice !== undefined) {
+      packs = packs.filter(pack => pack.price >= options.minPrice!);
+    }
+    
+    if (options?.maxPrice !== undefined) {
+      packs = packs.filter(pack => pack.price <= options.maxPrice!);
+    }
+    
+    if (options?.minRating !== undefined) {
+      packs = packs.filter(pack => pack.rating >= options.minRating!);
+    }
+    
+    if (options?.tag !== undefined) {
+      const tag = Array.from(this.tags.values()).find(tag => tag.slug === options.tag);
+      packs = tag
+        ? packs.filter(pack => this.packTagIds.get(pack.id)?.has(tag.id) ?? false)
+        : [];
+    }
+    
     return packs;
   }
   
@@ -120,6 +505,7 @@ export class MemStorage implements IStorage {
     const updatedAt = createdAt;
     const downloads = 0;
     const rating = 0;
+    const reviewCount = 0;
     
     // Ensure all required fields are present with proper types
     const soundPack: SoundPack = {
@@ -131,6 +517,7 @@ export class MemStorage implements IStorage {
       isPublic: insertSoundPack.isPublic ?? true,
       downloads,
       rating,
+      reviewCount,
       imageUrl: insertSoundPack.imageUrl || null,
       createdAt,
       updatedAt
@@ -165,9 +552,82 @@ export class MemStorage implements IStorage {
       await this.deleteSound(sound.id);
     }
     
+    // Reviews go with the pack, along with their reports; purchases stay
+    this.reviews.forEach((review, reviewId) => {
+      if (review.packId !== id) return;
+      this.reviews.delete(reviewId);
+      this.reviewReports.forEach((report, reportId) => {
+        if (report.reviewId === reviewId) this.reviewReports.delete(reportId);
+      });
+    });
+    this.packTagIds.delete(id);
+    this.cartItems.forEach((item, key) => {
+      if (item.packId === id) this.cartItems.delete(key);
+    });
+    // Orders keep the deleted pack's name and price
+    this.orderItems.forEach((item, itemId) => {
+      if (item.packId === id) this.orderItems.set(itemId, { ...item, packId: null });
+    });
+    this.couponPackIds.forEach(packIds => packIds.delete(id));
+    this.salePrices.forEach((sale, saleId) => {
+      if (sale.packId === id) this.salePrices.delete(saleId);
+    });
+    this.bundlePackIds.forEach((packIds, bundleId) => {
+      const bundle = this.bundles.get(bundleId)!;
+      if (packIds.delete(id) && packIds.size < MIN_BUNDLE_PACKS && bundle.isPublic) {
+        this.bundles.set(bundleId, { ...bundle, isPublic: false, updatedAt: new Date() });
+      }
+    });
     return this.soundPacks.delete(id);
   }
   
+  async importSoundPack(insertSoundPack: InsertSoundPack, tagNames: string[], newSounds: NewPackSound[]): Promise<ImportedSoundPack> {
+    // Nothing here can fail halfway, so no rollback is needed
+    const soundPack = await this.createSoundPack(insertSoundPack);
+    const tags = await this.setSoundPackTags(soundPack.id, tagNames);
+    const sounds = await this.createSounds(newSounds.map(newSound => ({ ...newSound, packId: soundPack.id })));
+    return { ...soundPack, tags, sounds };
+  }
+  
+  // Tag methods
+  async getAllTags(): Promise<Tag[]> {
+    return Array.from(this.tags.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getTagsByPackId(packId: number): Promise<Tag[]> {
+    const tagIds = this.packTagIds.get(packId) ?? new Set<number>();
+    return Array.from(tagIds, tagId => this.tags.get(tagId)!)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async setSoundPackTags(packId: number, tagNames: string[]): Promise<Tag[]> {
+    const tagIds = new Set<number>();
+    
+    for (const { slug, name } of uniqueTagNames(tagNames)) {
+      let tag = Array.from(this.tags.values()).find(tag => tag.slug === slug);
+      if (!tag) {
+        tag = { id: this.tagIdCounter++, slug, name, createdAt: new Date() };
+        this.tags.set(tag.id, tag);
+      }
+      tagIds.add(tag.id);
+    }
+    
+    this.packTagIds.set(packId, tagIds);
+    return this.getTagsByPackId(packId);
+  }
+  
+  async getTagFacets(options?: SoundPackQuery): Promise<TagFacet[]> {
+    const counts = new Map<number, number>();
+    for (const pack of this.filterSoundPacks({ ...options, tag: undefined })) {
+      this.packTagIds.get(pack.id)?.forEach(tagId => {
+        counts.set(tagId, (counts.get(tagId) ?? 0) + 1);
+      });
+    }
+    
+    return Array.from(counts, ([tagId, count]) => ({ ...this.tags.get(tagId)!, count }))
+      .sort(compareTagFacets);
+  }
+  
   // Sound methods
   async getSound(id: number): Promise<Sound | undefined> {
     return this.sounds.get(id);
@@ -196,13 +656,28 @@ export class MemStorage implements IStorage {
         sustain: 0.7,
         release: 0.5
       },
+      duration: insertSound.duration ?? null,
+      sampleRate: insertSound.sampleRate ?? null,
+      channels: insertSound.channels ?? null,
+      peak: insertSound.peak ?? null,
+      rms: insertSound.rms ?? null,
+      leadingSilence: insertSound.leadingSilence ?? null,
       createdAt
     };
     
     this.sounds.set(id, sound);
+    this.adjustAudioBlobRefCount(sound.soundFile, 1);
     return sound;
   }
   
+  async createSounds(insertSounds: InsertSound[]): Promise<Sound[]> {
+    const created: Sound[] = [];
+    for (const insertSound of insertSounds) {
+      created.push(await this.createSound(insertSound));
+    }
+    return created;
+  }
+  
   async updateSound(id: number, updates: Partial<Sound>): Promise<Sound | undefined> {
     const sound = await this.getSound(id);
     
@@ -217,19 +692,43 @@ export class MemStorage implements IStorage {
     };
     
     this.sounds.set(id, updatedSound);
+    if (updatedSound.soundFile !== sound.soundFile) {
+      this.adjustAudioBlobRefCount(sound.soundFile, -1);
+      this.adjustAudioBlobRefCount(updatedSound.soundFile, 1);
+    }
     return updatedSound;
   }
   
   async deleteSound(id: number): Promise<boolean> {
+    const sound = this.sounds.get(id);
+    if (!sound) {
+      return false;
+    }
+    
+    this.adjustAudioBlobRefCount(sound.soundFile, -1);
     return this.sounds.delete(id);
   }
   
   // Review methods
+  async getReview(id: number): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+  
   async getReviewsByPackId(packId: number): Promise<Review[]> {
     return Array.from(this.reviews.values()).filter(review => review.packId === packId);
   }
   
-  async createReview(insertReview: InsertReview): Promise<Review> {
+  async getUserReview(userId: number, packId: number): Promise<Review | undefined> {
+    return Array.from(this.reviews.values()).find(
+      review => review.userId === userId && review.packId === packId
+    );
+  }
+  
+  async createReview(insertReview: InsertReview & ReviewModeration): Promise<Review> {
+    if (await this.getUserReview(insertReview.userId, insertReview.packId)) {
+      throw new Error(`User ${insertReview.userId} has already reviewed pack ${insertReview.packId}`);
+    }
+    
     const id = this.reviewIdCounter++;
     const createdAt = new Date();
     
@@ -237,57 +736,1714 @@ export class MemStorage implements IStorage {
     const review: Review = {
       id,
       createdAt,
+      updatedAt: createdAt,
       userId: insertReview.userId,
       packId: insertReview.packId,
       rating: insertReview.rating,
-      comment: insertReview.comment === undefined ? null : insertReview.comment
+      comment: insertReview.comment ?? null,
+      status: insertReview.status ?? 'published',
+      heldReason: insertReview.heldReason ?? null
     };
     
     this.reviews.set(id, review);
+    await this.refreshReviewStats(review.packId);
+    
+    return review;
+  }
+  
+  async updateReview(id: number, updates: UpdateReview & ReviewModeration): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    if (!review) return undefined;
+    
+    const updatedReview: Review = {
+      ...review,
+      ...updates,
+      comment: updates.comment === undefined ? review.comment : updates.comment,
+      heldReason: updates.heldReason === undefined ? review.heldReason : updates.heldReason,
+      updatedAt: new Date()
+    };
+    this.reviews.set(id, updatedReview);
+    await this.refreshReviewStats(review.packId);
+    
+    return updatedReview;
+  }
+  
+  async deleteReview(id: number): Promise<boolean> {
+    const review = this.reviews.get(id);
+    if (!review) return false;
     
-    // Update the average rating of the sound pack
-    const packReviews = await this.getReviewsByPackId(insertReview.packId);
+    this.reviews.delete(id);
+    for (const report of Array.from(this.reviewReports.values())) {
+      if (report.reviewId === id) this.reviewReports.delete(report.id);
+    }
+    await this.refreshReviewStats(review.packId);
+    return true;
+  }
+  
+  // Store a pack's average rating (to two decimals) and its number of
+  // published reviews
+  private async refreshReviewStats(packId: number) {
+    const packReviews = (await this.getReviewsByPackId(packId))
+      .filter(review => review.status === 'published');
     const totalRating = packReviews.reduce((sum, review) => sum + review.rating, 0);
-    const averageRating = Math.round(totalRating / packReviews.length);
+    const averageRating = packReviews.length > 0
+      ? Math.round(totalRating / packReviews.length * 100) / 100
+      : 0;
+    
+    await this.updateSoundPack(packId, { rating: averageRating, reviewCount: packReviews.length });
+  }
+  
+  // Review moderation methods
+  async getModeratedReviews(status?: ReviewStatus): Promise<ModeratedReview[]> {
+    const reports = Array.from(this.reviewReports.values());
+    const isQueued = (review: Review) =>
+      review.status === 'pending' ||
+      reports.some(report => report.reviewId === review.id && !report.resolvedAt);
+    
+    // Reviews of packs that are gone are left out, as the join leaves them
+    // out for DrizzleStorage
+    return Array.from(this.reviews.values())
+      .filter(review => status ? review.status === status : isQueued(review))
+      .filter(review => this.soundPacks.has(review.packId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+      .map(review => {
+        const soundPack = this.soundPacks.get(review.packId)!;
+        const author = this.users.get(review.userId)!;
+        return {
+          ...review,
+          soundPack: { id: soundPack.id, name: soundPack.name },
+          author: { id: author.id, username: author.username },
+          reports: reports.filter(report => report.reviewId === review.id)
+        };
+      });
+  }
+  
+  async hasReportedReview(userId: number, reviewId: number): Promise<boolean> {
+    return Array.from(this.reviewReports.values()).some(
+      report => report.userId === userId && report.reviewId === reviewId
+    );
+  }
+  
+  async createReviewReport(insertReport: InsertReviewReport): Promise<ReviewReport> {
+    if (await this.hasReportedReview(insertReport.userId, insertReport.reviewId)) {
+      throw new Error(`User ${insertReport.userId} has already reported review ${insertReport.reviewId}`);
+    }
     
-    await this.updateSoundPack(insertReview.packId, { rating: averageRating });
+    const id = this.reviewReportIdCounter++;
+    const report: ReviewReport = {
+      ...insertReport,
+      id,
+      createdAt: new Date(),
+      resolvedAt: null
+    };
+    this.reviewReports.set(id, report);
+    return report;
+  }
+  
+  async setReviewStatus(id: number, status: ReviewStatus): Promise<Review | undefined> {
+    const review = await this.updateReview(id, { status });
+    if (!review) return undefined;
     
+    const resolvedAt = new Date();
+    for (const report of Array.from(this.reviewReports.values())) {
+      if (report.reviewId === id && !report.resolvedAt) {
+        this.reviewReports.set(report.id, { ...report, resolvedAt });
+      }
+    }
     return review;
   }
   
   // Purchase methods
+  async getPurchase(id: number): Promise<Purchase | undefined> {
+    return this.purchases.get(id);
+  }
+  
   async getUserPurchases(userId: number): Promise<Purchase[]> {
     return Array.from(this.purchases.values()).filter(purchase => purchase.userId === userId);
   }
   
   async createPurchase(insertPurchase: InsertPurchase): Promise<Purchase> {
+    if (this.ownsPack(insertPurchase.userId, insertPurchase.packId)) {
+      throw new Error(`User ${insertPurchase.userId} has already purchased pack ${insertPurchase.packId}`);
+    }
+    const soundPack = this.soundPacks.get(insertPurchase.packId);
+    if (!soundPack) {
+      throw new Error(`There is no pack ${insertPurchase.packId}`);
+    }
+    
     const id = this.purchaseIdCounter++;
     const createdAt = new Date();
     
     const purchase: Purchase = {
       ...insertPurchase,
+      userId: insertPurchase.userId ?? null,
+      creatorId: soundPack.userId,
+      originalPrice: insertPurchase.originalPrice ?? null,
+      discount: insertPurchase.discount ?? 0,
+      couponId: insertPurchase.couponId ?? null,
+      bundleId: insertPurchase.bundleId ?? null,
+      orderId: insertPurchase.orderId ?? null,
+      orderItemId: insertPurchase.orderItemId ?? null,
+      giftedBy: insertPurchase.giftedBy ?? null,
       id,
-      createdAt
+      createdAt,
+      refundedAt: null,
+      refundedBy: null
     };
     
     this.purchases.set(id, purchase);
     
     // Increment the download count for the sound pack
-    const soundPack = await this.getSoundPack(insertPurchase.packId);
+    await this.updateSoundPack(insertPurchase.packId, { 
+      downloads: soundPack.downloads + 1 
+    });
+    
+    return purchase;
+  }
+  
+  async hasPurchased(userId: number, packId: number): Promise<boolean> {
+    return this.ownsPack(userId, packId);
+  }
+  
+  // Synchronous, so a caller can check and create a purchase without another
+  // one slipping in between, as the unique index ensures for DrizzleStorage
+  private ownsPack(userId: number | null | undefined, packId: number): boolean {
+    if (userId == null) return false;
+    return Array.from(this.purchases.values()).some(
+      purchase => purchase.userId === userId && purchase.packId === packId && !purchase.refundedAt
+    );
+  }
+  
+  async refundPurchase(id: number, refundedBy: number | null): Promise<Purchase | undefined> {
+    const purchase = this.purchases.get(id);
+    if (!purchase || purchase.refundedAt) return undefined;
+    
+    const refunded: Purchase = { ...purchase, refundedAt: new Date(), refundedBy };
+    this.purchases.set(id, refunded);
+    
+    const soundPack = this.soundPacks.get(purchase.packId);
     if (soundPack) {
-      await this.updateSoundPack(insertPurchase.packId, { 
-        downloads: soundPack.downloads + 1 
+      await this.updateSoundPack(soundPack.id, {
+        downloads: Math.max(soundPack.downloads - 1, 0)
       });
     }
     
-    return purchase;
+    return refunded;
   }
   
-  async hasPurchased(userId: number, packId: number): Promise<boolean> {
-    // Check if the user has purchased this pack
-    const userPurchases = await this.getUserPurchases(userId);
-    return userPurchases.some(purchase => purchase.packId === packId);
+  async getCreatorPurchases(creatorId: number, { from, to }: Omit<SalesRange, 'groupBy'>, limit: number): Promise<CreatorPurchase[]> {
+    const creatorPurchases: CreatorPurchase[] = [];
+    for (const purchase of Array.from(this.purchases.values())) {
+      if (purchase.creatorId !== creatorId) continue;
+      if (purchase.createdAt < from || purchase.createdAt >= to) continue;
+      
+      creatorPurchases.push({
+        ...purchase,
+        packName: this.soldPackName(purchase),
+        buyer: this.users.get(purchase.userId ?? purchase.giftedBy!)?.username ?? '',
+      });
+    }
+    
+    return creatorPurchases
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // The name a purchase's pack was ordered under, which outlives the pack
+  private soldPackName(purchase: Purchase): string {
+    const item = purchase.orderItemId === null ? undefined : this.orderItems.get(purchase.orderItemId);
+    return item?.name ?? this.soundPacks.get(purchase.packId)?.name ?? '';
+  }
+  
+  async getCreatorSales(creatorId: number, { from, to, groupBy }: SalesRange): Promise<SalesRow[]> {
+    const inRange = (date: Date | null): date is Date => !!date && date >= from && date < to;
+    const rows: SalesRow[] = [];
+    
+    for (const purchase of Array.from(this.purchases.values())) {
+      if (purchase.creatorId !== creatorId) continue;
+      
+      const name = this.soldPackName(purchase);
+      if (inRange(purchase.createdAt)) {
+        rows.push({
+          packId: purchase.packId,
+          name,
+          period: salesPeriod(purchase.createdAt, groupBy),
+          revenue: purchase.price,
+          units: 1,
+          refunds: 0,
+          refundedUnits: 0,
+        });
+      }
+      if (inRange(purchase.refundedAt)) {
+        rows.push({
+          packId: purchase.packId,
+          name,
+          period: salesPeriod(purchase.refundedAt, groupBy),
+          revenue: 0,
+          units: 0,
+          refunds: purchase.price,
+          refundedUnits: 1,
+        });
+      }
+    }
+    
+    return rows;
+  }
+  
+  // Coupon methods
+  private withPacks(coupon: Coupon): CouponWithPacks {
+    return { ...coupon, packIds: Array.from(this.couponPackIds.get(coupon.id) ?? []) };
+  }
+  
+  async getCoupon(id: number): Promise<CouponWithPacks | undefined> {
+    const coupon = this.coupons.get(id);
+    return coupon && this.withPacks(coupon);
+  }
+  
+  async getCouponByCode(code: string): Promise<CouponWithPacks | undefined> {
+    const coupon = Array.from(this.coupons.values()).find(coupon => coupon.code === code);
+    return coupon && this.withPacks(coupon);
+  }
+  
+  async getUserCoupons(userId: number): Promise<CouponWithPacks[]> {
+    return Array.from(this.coupons.values())
+      .filter(coupon => coupon.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .map(coupon => this.withPacks(coupon));
+  }
+  
+  async createCoupon(userId: number, { packIds, ...insertCoupon }: InsertCoupon): Promise<CouponWithPacks> {
+    if (await this.getCouponByCode(insertCoupon.code)) {
+      throw new Error(`Coupon code ${insertCoupon.code} is taken`);
+    }
+    
+    const id = this.couponIdCounter++;
+    const coupon: Coupon = {
+      ...insertCoupon,
+      id,
+      userId,
+      allPacks: packIds.length === 0,
+      expiresAt: insertCoupon.expiresAt ?? null,
+      maxUses: insertCoupon.maxUses ?? null,
+      uses: 0,
+      createdAt: new Date()
+    };
+    this.coupons.set(id, coupon);
+    this.couponPackIds.set(id, new Set(packIds));
+    return this.withPacks(coupon);
+  }
+  
+  async deleteCoupon(id: number): Promise<boolean> {
+    this.couponPackIds.delete(id);
+    // Orders and purchases keep their discount
+    this.orders.forEach((order, orderId) => {
+      if (order.couponId === id) this.orders.set(orderId, { ...order, couponId: null });
+    });
+    this.orderItems.forEach((item, itemId) => {
+      if (item.couponId === id) this.orderItems.set(itemId, { ...item, couponId: null });
+    });
+    this.purchases.forEach((purchase, purchaseId) => {
+      if (purchase.couponId === id) this.purchases.set(purchaseId, { ...purchase, couponId: null });
+    });
+    return this.coupons.delete(id);
+  }
+  
+  async useCoupon(id: number): Promise<boolean> {
+    const coupon = this.coupons.get(id);
+    if (!coupon || (coupon.maxUses !== null && coupon.uses >= coupon.maxUses)) return false;
+    
+    this.coupons.set(id, { ...coupon, uses: coupon.uses + 1 });
+    return true;
+  }
+  
+  async releaseCoupon(id: number): Promise<void> {
+    const coupon = this.coupons.get(id);
+    if (coupon) {
+      this.coupons.set(id, { ...coupon, uses: Math.max(coupon.uses - 1, 0) });
+    }
+  }
+  
+  // Sale price methods
+  async getSalePrices(packId: number): Promise<SalePrice[]> {
+    return Array.from(this.salePrices.values())
+      .filter(sale => sale.packId === packId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+  
+  async getSalePrice(id: number): Promise<SalePrice | undefined> {
+    return this.salePrices.get(id);
+  }
+  
+  async getActiveSalePrices(packIds: number[], at: Date): Promise<Map<number, SalePrice>> {
+    const active = new Map<number, SalePrice>();
+    for (const sale of Array.from(this.salePrices.values())) {
+      if (!packIds.includes(sale.packId) || sale.startsAt > at || sale.endsAt <= at) continue;
+      active.set(sale.packId, sale);
+    }
+    return active;
+  }
+  
+  async createSalePrice(packId: number, insertSale: InsertSalePrice): Promise<SalePrice> {
+    const id = this.salePriceIdCounter++;
+    const sale: SalePrice = { ...insertSale, id, packId, createdAt: new Date() };
+    this.salePrices.set(id, sale);
+    return sale;
+  }
+  
+  async deleteSalePrice(id: number): Promise<boolean> {
+    return this.salePrices.delete(id);
+  }
+  
+  // Bundle methods
+  private withBundlePacks(bundle: Bundle): BundleWithPacks {
+    const packs = Array.from(this.bundlePackIds.get(bundle.id) ?? [], packId => this.soundPacks.get(packId)!)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { ...bundle, packs };
+  }
+  
+  async getBundle(id: number): Promise<BundleWithPacks | undefined> {
+    const bundle = this.bundles.get(id);
+    return bundle && this.withBundlePacks(bundle);
+  }
+  
+  async getBundles(options: BundleQuery = {}): Promise<BundleWithPacks[]> {
+    const { userId, visibleTo } = options;
+    return Array.from(this.bundles.values())
+      .filter(bundle => userId === undefined || bundle.userId === userId)
+      .filter(bundle => visibleTo === undefined || bundle.isPublic || bundle.userId === visibleTo)
+      .sort((a, b) => b.id - a.id)
+      .map(bundle => this.withBundlePacks(bundle));
+  }
+  
+  async createBundle(userId: number, { packIds, ...insertBundle }: NewBundle): Promise<BundleWithPacks> {
+    const id = this.bundleIdCounter++;
+    const createdAt = new Date();
+    const bundle: Bundle = {
+      ...insertBundle,
+      id,
+      userId,
+      imageUrl: insertBundle.imageUrl ?? null,
+      createdAt,
+      updatedAt: createdAt
+    };
+    this.bundles.set(id, bundle);
+    this.bundlePackIds.set(id, new Set(packIds));
+    return this.withBundlePacks(bundle);
+  }
+  
+  async updateBundle(id: number, { packIds, ...updates }: BundleChanges): Promise<BundleWithPacks | undefined> {
+    const bundle = this.bundles.get(id);
+    if (!bundle) return undefined;
+    
+    const updatedBundle: Bundle = { ...bundle, ...updates, id, updatedAt: new Date() };
+    this.bundles.set(id, updatedBundle);
+    if (packIds) {
+      this.bundlePackIds.set(id, new Set(packIds));
+    }
+    return this.withBundlePacks(updatedBundle);
+  }
+  
+  async deleteBundle(id: number): Promise<boolean> {
+    this.bundlePackIds.delete(id);
+    // Orders and purchases of its packs stay
+    this.orderItems.forEach((item, itemId) => {
+      if (item.bundleId === id) this.orderItems.set(itemId, { ...item, bundleId: null });
+    });
+    this.purchases.forEach((purchase, purchaseId) => {
+      if (purchase.bundleId === id) this.purchases.set(purchaseId, { ...purchase, bundleId: null });
+    });
+    return this.bundles.delete(id);
+  }
+  
+  // Cart methods
+  async getCartItems(userId: number): Promise<CartItemWithPack[]> {
+    return Array.from(this.cartItems.values())
+      .filter(item => item.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(item => ({ ...item, soundPack: this.soundPacks.get(item.packId)! }));
+  }
+  
+  async addCartItem(userId: number, packId: number): Promise<CartItem> {
+    const key = `${userId}:${packId}`;
+    let item = this.cartItems.get(key);
+    if (!item) {
+      item = { userId, packId, createdAt: new Date() };
+      this.cartItems.set(key, item);
+    }
+    return item;
+  }
+  
+  async removeCartItem(userId: number, packId: number): Promise<boolean> {
+    return this.cartItems.delete(`${userId}:${packId}`);
+  }
+  
+  // Order methods
+  async getOrder(id: number): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+    
+    const items = Array.from(this.orderItems.values()).filter(item => item.orderId === id);
+    return { ...order, items };
+  }
+  
+  async getUserOrders(userId: number): Promise<OrderWithItems[]> {
+    const userOrders = Array.from(this.orders.values())
+      .filter(order => order.userId === userId)
+      .sort((a, b) => b.id - a.id);
+    return Promise.all(userOrders.map(order => this.getOrder(order.id) as Promise<OrderWithItems>));
+  }
+  
+  async getOrderByIdempotencyKey(userId: number, idempotencyKey: string): Promise<OrderWithItems | undefined> {
+    const order = Array.from(this.orders.values()).find(
+      order => order.userId === userId && order.idempotencyKey === idempotencyKey
+    );
+    return order && this.getOrder(order.id);
+  }
+  
+  async getOrderByGiftCode(giftCode: string): Promise<OrderWithItems | undefined> {
+    const order = Array.from(this.orders.values()).find(order => order.giftCode === giftCode);
+    return order && this.getOrder(order.id);
+  }
+  
+  async createOrder(userId: number, items: PricedPack[], options: NewOrderOptions = {}): Promise<OrderWithItems> {
+    if (options.idempotencyKey && await this.getOrderByIdempotencyKey(userId, options.idempotencyKey)) {
+      throw new Error(`User ${userId} already has an order with idempotency key ${options.idempotencyKey}`);
+    }
+    if (options.giftCode && await this.getOrderByGiftCode(options.giftCode)) {
+      throw new Error(`Gift code ${options.giftCode} is already taken`);
+    }
+    
+    const id = this.orderIdCounter++;
+    const createdAt = new Date();
+    
+    this.orders.set(id, {
+      id,
+      userId,
+      status: 'pending',
+      currency: options.currency ?? DEFAULT_CURRENCY,
+      total: items.reduce((total, item) => total + item.price, 0),
+      paymentId: null,
+      failureReason: null,
+      couponId: options.couponId ?? null,
+      idempotencyKey: options.idempotencyKey ?? null,
+      requestHash: options.requestHash ?? null,
+      giftCode: options.giftCode ?? null,
+      redeemedBy: null,
+      redeemedAt: null,
+      createdAt,
+      updatedAt: createdAt
+    });
+    for (const item of items) {
+      const itemId = this.orderItemIdCounter++;
+      this.orderItems.set(itemId, { ...item, id: itemId, orderId: id, alreadyOwned: false });
+    }
+    
+    return (await this.getOrder(id))!;
+  }
+  
+  async setOrderPaymentId(id: number, paymentId: string): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    if (!order) return undefined;
+    
+    const updatedOrder: Order = { ...order, paymentId, updatedAt: new Date() };
+    this.orders.set(id, updatedOrder);
+    return updatedOrder;
+  }
+  
+  async completeOrder(id: number, paymentId?: string): Promise<OrderWithItems | undefined> {
+    const order = await this.getOrder(id);
+    if (!order || order.status !== 'pending') return order;
+    
+    this.orders.set(id, {
+      ...this.orders.get(id)!,
+      status: 'paid',
+      paymentId: paymentId ?? order.paymentId,
+      updatedAt: new Date()
+    });
+    for (const item of order.items) {
+      if (item.packId === null) continue;
+      if (order.giftCode) {
+        await this.createPurchase(heldGiftPurchase(order, item));
+        continue;
+      }
+      
+      await this.removeCartItem(order.userId, item.packId);
+      if (this.ownsPack(order.userId, item.packId)) {
+        this.orderItems.set(item.id, { ...item, alreadyOwned: true });
+      } else {
+        await this.createPurchase(orderedPurchase(order, item));
+      }
+    }
+    
+    return this.getOrder(id);
+  }
+  
+  async declineOrder(id: number, reason: string, paymentId?: string): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    if (!order || order.status !== 'pending') return this.getOrder(id);
+    
+    this.orders.set(id, {
+      ...order,
+      status: 'declined',
+      failureReason: reason,
+      paymentId: paymentId ?? order.paymentId,
+      updatedAt: new Date()
+    });
+    if (order.couponId !== null) {
+      await this.releaseCoupon(order.couponId);
+    }
+    return this.getOrder(id);
+  }
+  
+  async redeemGift(id: number, userId: number, packIds: number[]): Promise<RedeemedGift | undefined> {
+    const order = this.orders.get(id);
+    if (!order?.giftCode || order.status !== 'paid' || order.redeemedAt) return undefined;
+    
+    this.orders.set(id, {
+      ...order,
+      redeemedBy: userId,
+      redeemedAt: new Date(),
+      updatedAt: new Date()
+    });
+    const gift: RedeemedGift = { redeemed: [], skipped: [] };
+    for (const purchase of Array.from(this.purchases.values())) {
+      if (purchase.orderId !== id || purchase.userId !== null || purchase.refundedAt) continue;
+      
+      if (packIds.includes(purchase.packId) && !this.ownsPack(userId, purchase.packId)) {
+        const redeemed: Purchase = { ...purchase, userId };
+        this.purchases.set(purchase.id, redeemed);
+        gift.redeemed.push(redeemed);
+      } else {
+        gift.skipped.push(purchase);
+      }
+    }
+    
+    return gift;
+  }
+  
+  // Upload methods
+  async isUploadReferenced(url: string): Promise<boolean> {
+    return (await this.getReferencedUploads()).has(url);
+  }
+  
+  async getReferencedUploads(): Promise<Set<string>> {
+    const urls = new Set<string>();
+    for (const pack of Array.from(this.soundPacks.values())) {
+      if (pack.imageUrl) urls.add(pack.imageUrl);
+    }
+    for (const bundle of Array.from(this.bundles.values())) {
+      if (bundle.imageUrl) urls.add(bundle.imageUrl);
+    }
+    for (const sound of Array.from(this.sounds.values())) {
+      if (sound.soundFile) urls.add(sound.soundFile);
+    }
+    return urls;
+  }
+  
+  // Audio blob methods
+  async getAudioBlobByUrl(url: string): Promise<AudioBlob | undefined> {
+    return Array.from(this.audioBlobs.values()).find(blob => blob.url === url);
+  }
+  
+  async createAudioBlob(insertBlob: InsertAudioBlob): Promise<AudioBlob> {
+    const existing = this.audioBlobs.get(insertBlob.hash);
+    const blob: AudioBlob = existing
+      ? { ...existing, refCount: existing.refCount + 1 }
+      : { ...insertBlob, refCount: 1, createdAt: new Date() };
+    
+    this.audioBlobs.set(blob.hash, blob);
+    return blob;
   }
+  
+  async releaseAudioBlob(hash: string): Promise<void> {
+    const blob = this.audioBlobs.get(hash);
+    if (blob) {
+      this.audioBlobs.set(hash, { ...blob, refCount: blob.refCount - 1 });
+    }
+  }
+  
+  async deleteAudioBlobIfUnused(hash: string): Promise<boolean> {
+    const blob = this.audioBlobs.get(hash);
+    if (!blob || blob.refCount > 0) {
+      return false;
+    }
+    
+    return this.audioBlobs.delete(hash);
+  }
+  
+  private adjustAudioBlobRefCount(url: string | null, delta: number) {
+    if (!url) return;
+    
+    const blob = Array.from(this.audioBlobs.values()).find(b => b.url === url);
+    if (blob) {
+      this.audioBlobs.set(blob.hash, { ...blob, refCount: blob.refCount + delta });
+    }
+  }
+}
+
+// ORDER BY for each catalogue sort, with the id as a tie-breaker so pages are stable
+function soundPackOrder(sort: SoundPackSort): SQL[] {
+  switch (sort) {
+    case 'newest':
+      return [desc(soundPacks.createdAt), desc(soundPacks.id)];
+    case 'oldest':
+      return [asc(soundPacks.createdAt), asc(soundPacks.id)];
+    case 'name-asc':
+      return [asc(soundPacks.name), asc(soundPacks.id)];
+    case 'name-desc':
+      return [desc(soundPacks.name), desc(soundPacks.id)];
+    case 'price-asc':
+      return [asc(soundPacks.price), asc(soundPacks.id)];
+    case 'price-desc':
+      return [desc(soundPacks.price), desc(soundPacks.id)];
+    case 'rating':
+      return [desc(soundPacks.rating), desc(soundPacks.reviewCount), desc(soundPacks.id)];
+    case 'popular':
+      return [desc(soundPacks.downloads), desc(soundPacks.id)];
+  }
+}
+
+// Count a sound starting or stopping to use an audio blob. Files that aren't
+// blobs (older per-user uploads) match no row and are left alone.
+async function adjustAudioBlobRefCount(db: Database, url: string | null, delta: number) {
+  if (!url) return;
+
+  await db
+    .update(audioBlobs)
+    .set({ refCount: sql`${audioBlobs.refCount} + ${delta}` })
+    .where(eq(audioBlobs.url, url));
+}
+
+// Replace a pack's tags, creating unseen ones. Existing tags keep their
+// original display name.
+async function replaceSoundPackTags(db: Database, packId: number, tagNames: string[]) {
+  const wanted = uniqueTagNames(tagNames);
+
+  await db.delete(soundPackTags).where(eq(soundPackTags.packId, packId));
+  if (wanted.length === 0) return;
+
+  await db.insert(tags).values(wanted).onConflictDoNothing({ target: tags.slug });
+  const packTags = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(inArray(tags.slug, wanted.map(tag => tag.slug)));
+
+  await db
+    .insert(soundPackTags)
+    .values(packTags.map(tag => ({ packId, tagId: tag.id })));
+}
+
+// Store a pack's average rating (to two decimals) and number of published
+// reviews.
+// Both are computed in the statement that writes them, so concurrent review
+// changes can't overwrite each other's result.
+async function refreshReviewStats(db: Database, packId: number) {
+  await db
+    .update(soundPacks)
+    .set({
+      rating: sql`(
+        select coalesce(round(avg(${reviews.rating}), 2), 0)::real
+        from ${reviews}
+        where ${reviews.packId} = ${packId} and ${reviews.status} = 'published'
+      )`,
+      reviewCount: sql`(
+        select count(*)::integer
+        from ${reviews}
+        where ${reviews.packId} = ${packId} and ${reviews.status} = 'published'
+      )`,
+      updatedAt: new Date(),
+    })
+    .where(eq(soundPacks.id, packId));
+}
+
+// Give back a coupon use taken by useCoupon
+async function releaseCoupon(db: Database, id: number): Promise<void> {
+  await db
+    .update(coupons)
+    .set({ uses: sql`greatest(${coupons.uses} - 1, 0)` })
+    .where(eq(coupons.id, id));
+}
+
+// Whether the user has the pack and it wasn't refunded
+async function hasPurchased(db: Database, userId: number, packId: number): Promise<boolean> {
+  const [purchase] = await db
+    .select({ id: purchases.id })
+    .from(purchases)
+    .where(and(
+      eq(purchases.userId, userId),
+      eq(purchases.packId, packId),
+      isNull(purchases.refundedAt),
+    ))
+    .limit(1);
+  return purchase !== undefined;
+}
+
+// The name a purchase's pack was ordered under, which outlives the pack. For
+// selects that left join orderItems on the purchase's item and soundPacks.
+const soldPackName = sql<string>`coalesce(${orderItems.name}, ${soundPacks.name}, '')`;
+
+// Record a purchase and count it as a download of the pack. Undefined when
+// the user already has the pack, which leaves the download count alone.
+async function insertPurchase(db: Database, values: InsertPurchase): Promise<Purchase | undefined> {
+  const [purchase] = await db
+    .insert(purchases)
+    .values({
+      ...values,
+      creatorId: sql`(select ${soundPacks.userId} from ${soundPacks} where ${soundPacks.id} = ${values.packId})`,
+    })
+    .onConflictDoNothing({
+      target: [purchases.userId, purchases.packId],
+      where: isNull(purchases.refundedAt),
+    })
+    .returning();
+  if (!purchase) return undefined;
+
+  // Increment in SQL rather than read-modify-write
+  await db
+    .update(soundPacks)
+    .set({ downloads: sql`${soundPacks.downloads} + 1` })
+    .where(eq(soundPacks.id, values.packId));
+
+  return purchase;
+}
+
+// Insert sounds and count their use of audio blobs
+async function insertSounds(db: Database, values: InsertSound[]): Promise<Sound[]> {
+  if (values.length === 0) return [];
+
+  const created = await db.insert(sounds).values(values).returning();
+  for (const sound of created) {
+    await adjustAudioBlobRefCount(db, sound.soundFile, 1);
+  }
+  return created;
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Sound pack methods
+  async getSoundPack(id: number): Promise<SoundPack | undefined> {
+    const [soundPack] = await this.db.select().from(soundPacks).where(eq(soundPacks.id, id));
+    return soundPack;
+  }
+
+  async getAllSoundPacks(options?: SoundPackQuery): Promise<Paginated<SoundPack>> {
+    const where = this.soundPackConditions(options);
+    const [{ total }] = await this.db
+      .select({ total: sql<number>`count(*)::integer` })
+      .from(soundPacks)
+      .where(where);
+
+    const page = options?.page ?? 1;
+    const pageSize = options?.pageSize ?? Math.max(total, 1);
+    const items = await this.db
+      .select()
+      .from(soundPacks)
+      .where(where)
+      .orderBy(...soundPackOrder(options?.sort ?? 'newest'))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return {
+      items,
+      total,
+      page,
+      pageSize,
+      hasMore: page * pageSize < total,
+    };
+  }
+
+  private soundPackConditions(options?: SoundPackQuery): SQL | undefined {
+    const conditions = [];
+
+    if (options?.userId !== undefined) {
+      conditions.push(eq(soundPacks.userId, options.userId));
+    }
+
+    if (options?.isPublic !== undefined) {
+      conditions.push(eq(soundPacks.isPublic, options.isPublic));
+    }
+
+    if (options?.visibleTo === null) {
+      conditions.push(eq(soundPacks.isPublic, true));
+    } else if (options?.visibleTo !== undefined) {
+      conditions.push(or(eq(soundPacks.isPublic, true), eq(soundPacks.userId, options.visibleTo)));
+    }
+
+    if (options?.search) {
+      // Treat the search text literally, not as a LIKE pattern
+      const pattern = `%${options.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(ilike(soundPacks.name, pattern), ilike(soundPacks.description, pattern)));
+    }
+
+    if (options?.minPrice !== undefined) {
+      conditions.push(gte(soundPacks.price, options.minPrice));
+    }
+
+    if (options?.maxPrice !== undefined) {
+      conditions.push(lte(soundPacks.price, options.maxPrice));
+    }
+
+    if (options?.minRating !== undefined) {
+      conditions.push(gte(soundPacks.rating, options.minRating));
+    }
+
+    if (options?.tag !== undefined) {
+      conditions.push(inArray(
+        soundPacks.id,
+        this.db
+          .select({ packId: soundPackTags.packId })
+          .from(soundPackTags)
+          .innerJoin(tags, eq(tags.id, soundPackTags.tagId))
+          .where(eq(tags.slug, options.tag))
+      ));
+    }
+
+    return and(...conditions);
+  }
+
+  async createSoundPack(insertSoundPack: InsertSoundPack): Promise<SoundPack> {
+    const [soundPack] = await this.db.insert(soundPacks).values(insertSoundPack).returning();
+    return soundPack;
+  }
+
+  async updateSoundPack(id: number, updates: Partial<SoundPack>): Promise<SoundPack | undefined> {
+    // Never let an update move the primary key
+    const { id: _id, ...values } = updates;
+
+    const [soundPack] = await this.db
+      .update(soundPacks)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(soundPacks.id, id))
+      .returning();
+    return soundPack;
+  }
+
+  async deleteSoundPack(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Sounds and reviews reference the pack, so they have to go first or
+      // the foreign keys reject the delete. Reports go with their reviews;
+      // purchases stay, as the pack's id doesn't point anywhere any more.
+      const deletedSounds = await tx
+        .delete(sounds)
+        .where(eq(sounds.packId, id))
+        .returning({ soundFile: sounds.soundFile });
+      for (const sound of deletedSounds) {
+        await adjustAudioBlobRefCount(tx, sound.soundFile, -1);
+      }
+      await tx.delete(reviews).where(eq(reviews.packId, id));
+      await tx.delete(soundPackTags).where(eq(soundPackTags.packId, id));
+      const packBundles = await tx
+        .delete(bundlePacks)
+        .where(eq(bundlePacks.packId, id))
+        .returning({ bundleId: bundlePacks.bundleId });
+
+      const deleted = await tx
+        .delete(soundPacks)
+        .where(eq(soundPacks.id, id))
+        .returning({ id: soundPacks.id });
+
+      if (packBundles.length > 0) {
+        await tx
+          .update(bundles)
+          .set({ isPublic: false, updatedAt: new Date() })
+          .where(and(
+            inArray(bundles.id, packBundles.map(({ bundleId }) => bundleId)),
+            eq(bundles.isPublic, true),
+            sql`(
+              select count(*)::integer
+              from ${bundlePacks}
+              where ${bundlePacks.bundleId} = ${bundles.id}
+            ) < ${MIN_BUNDLE_PACKS}`
+          ));
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  async importSoundPack(insertSoundPack: InsertSoundPack, tagNames: string[], newSounds: NewPackSound[]): Promise<ImportedSoundPack> {
+    const { soundPack, sounds: createdSounds } = await this.db.transaction(async (tx) => {
+      const [soundPack] = await tx.insert(soundPacks).values(insertSoundPack).returning();
+      await replaceSoundPackTags(tx, soundPack.id, tagNames);
+      const createdSounds = await insertSounds(
+        tx,
+        newSounds.map(newSound => ({ ...newSound, packId: soundPack.id }))
+      );
+      return { soundPack, sounds: createdSounds };
+    });
+
+    return { ...soundPack, tags: await this.getTagsByPackId(soundPack.id), sounds: createdSounds };
+  }
+
+  // Tag methods
+  async getAllTags(): Promise<Tag[]> {
+    return this.db.select().from(tags).orderBy(tags.name);
+  }
+
+  async getTagsByPackId(packId: number): Promise<Tag[]> {
+    return this.db
+      .select({ id: tags.id, slug: tags.slug, name: tags.name, createdAt: tags.createdAt })
+      .from(soundPackTags)
+      .innerJoin(tags, eq(tags.id, soundPackTags.tagId))
+      .where(eq(soundPackTags.packId, packId))
+      .orderBy(tags.name);
+  }
+
+  async setSoundPackTags(packId: number, tagNames: string[]): Promise<Tag[]> {
+    await this.db.transaction((tx) => replaceSoundPackTags(tx, packId, tagNames));
+    return this.getTagsByPackId(packId);
+  }
+
+  async getTagFacets(options?: SoundPackQuery): Promise<TagFacet[]> {
+    const count = sql<number>`count(*)::integer`;
+    return this.db
+      .select({ id: tags.id, slug: tags.slug, name: tags.name, createdAt: tags.createdAt, count })
+      .from(tags)
+      .innerJoin(soundPackTags, eq(soundPackTags.tagId, tags.id))
+      .innerJoin(soundPacks, eq(soundPacks.id, soundPackTags.packId))
+      .where(this.soundPackConditions({ ...options, tag: undefined }))
+      .groupBy(tags.id)
+      .orderBy(desc(count), asc(tags.name));
+  }
+
+  // Sound methods
+  async getSound(id: number): Promise<Sound | undefined> {
+    const [sound] = await this.db.select().from(sounds).where(eq(sounds.id, id));
+    return sound;
+  }
+
+  async getSoundsByPackId(packId: number): Promise<Sound[]> {
+    return this.db
+      .select()
+      .from(sounds)
+      .where(eq(sounds.packId, packId))
+      .orderBy(sounds.id);
+  }
+
+  async createSound(insertSound: InsertSound): Promise<Sound> {
+    const [sound] = await this.createSounds([insertSound]);
+    return sound;
+  }
+
+  async createSounds(values: InsertSound[]): Promise<Sound[]> {
+    return this.db.transaction((tx) => insertSounds(tx, values));
+  }
+
+  async updateSound(id: number, updates: Partial<Sound>): Promise<Sound | undefined> {
+    const { id: _id, ...values } = updates;
+
+    return this.db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ soundFile: sounds.soundFile })
+        .from(sounds)
+        .where(eq(sounds.id, id))
+        .for('update');
+      if (!previous) return undefined;
+
+      const [sound] = await tx
+        .update(sounds)
+        .set(values)
+        .where(eq(sounds.id, id))
+        .returning();
+
+      if (sound.soundFile !== previous.soundFile) {
+        await adjustAudioBlobRefCount(tx, previous.soundFile, -1);
+        await adjustAudioBlobRefCount(tx, sound.soundFile, 1);
+      }
+      return sound;
+    });
+  }
+
+  async deleteSound(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(sounds)
+        .where(eq(sounds.id, id))
+        .returning({ soundFile: sounds.soundFile });
+
+      for (const sound of deleted) {
+        await adjustAudioBlobRefCount(tx, sound.soundFile, -1);
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  // Review methods
+  async getReviewsByPackId(packId: number): Promise<Review[]> {
+    return this.db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.packId, packId))
+      .orderBy(reviews.id);
+  }
+
+  async getReview(id: number): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async getUserReview(userId: number, packId: number): Promise<Review | undefined> {
+    const [review] = await this.db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.userId, userId), eq(reviews.packId, packId)));
+    return review;
+  }
+
+  async createReview(insertReview: InsertReview & ReviewModeration): Promise<Review> {
+    return this.db.transaction(async (tx) => {
+      const [review] = await tx.insert(reviews).values(insertReview).returning();
+      await refreshReviewStats(tx, review.packId);
+      return review;
+    });
+  }
+
+  async updateReview(id: number, updates: UpdateReview & ReviewModeration): Promise<Review | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [review] = await tx
+        .update(reviews)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(reviews.id, id))
+        .returning();
+      if (review) {
+        await refreshReviewStats(tx, review.packId);
+      }
+      return review;
+    });
+  }
+
+  async deleteReview(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(reviews)
+        .where(eq(reviews.id, id))
+        .returning({ packId: reviews.packId });
+      for (const review of deleted) {
+        await refreshReviewStats(tx, review.packId);
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  // Review moderation methods
+  async getModeratedReviews(status?: ReviewStatus): Promise<ModeratedReview[]> {
+    const hasOpenReport = sql`exists (
+      select 1 from ${reviewReports}
+      where ${reviewReports.reviewId} = ${reviews.id} and ${reviewReports.resolvedAt} is null
+    )`;
+
+    const rows = await this.db
+      .select({
+        review: reviews,
+        soundPack: { id: soundPacks.id, name: soundPacks.name },
+        author: { id: users.id, username: users.username },
+      })
+      .from(reviews)
+      .innerJoin(soundPacks, eq(soundPacks.id, reviews.packId))
+      .innerJoin(users, eq(users.id, reviews.userId))
+      .where(status ? eq(reviews.status, status) : or(eq(reviews.status, 'pending'), hasOpenReport))
+      .orderBy(asc(reviews.createdAt), asc(reviews.id));
+    if (rows.length === 0) return [];
+
+    const reports = await this.db
+      .select()
+      .from(reviewReports)
+      .where(inArray(reviewReports.reviewId, rows.map(row => row.review.id)))
+      .orderBy(reviewReports.id);
+
+    return rows.map(({ review, soundPack, author }) => ({
+      ...review,
+      soundPack,
+      author,
+      reports: reports.filter(report => report.reviewId === review.id),
+    }));
+  }
+
+  async hasReportedReview(userId: number, reviewId: number): Promise<boolean> {
+    const [report] = await this.db
+      .select({ id: reviewReports.id })
+      .from(reviewReports)
+      .where(and(eq(reviewReports.userId, userId), eq(reviewReports.reviewId, reviewId)))
+      .limit(1);
+    return report !== undefined;
+  }
+
+  async createReviewReport(insertReport: InsertReviewReport): Promise<ReviewReport> {
+    const [report] = await this.db.insert(reviewReports).values(insertReport).returning();
+    return report;
+  }
+
+  async setReviewStatus(id: number, status: ReviewStatus): Promise<Review | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [review] = await tx
+        .update(reviews)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(reviews.id, id))
+        .returning();
+      if (!review) return undefined;
+
+      await tx
+        .update(reviewReports)
+        .set({ resolvedAt: new Date() })
+        .where(and(eq(reviewReports.reviewId, id), isNull(reviewReports.resolvedAt)));
+      await refreshReviewStats(tx, review.packId);
+      return review;
+    });
+  }
+
+  // Purchase methods
+  async getPurchase(id: number): Promise<Purchase | undefined> {
+    const [purchase] = await this.db.select().from(purchases).where(eq(purchases.id, id));
+    return purchase;
+  }
+
+  async getUserPurchases(userId: number): Promise<Purchase[]> {
+    return this.db
+      .select()
+      .from(purchases)
+      .where(eq(purchases.userId, userId))
+      .orderBy(purchases.id);
+  }
+
+  async createPurchase(values: InsertPurchase): Promise<Purchase> {
+    const purchase = await this.db.transaction((tx) => insertPurchase(tx, values));
+    if (!purchase) {
+      throw new Error(`User ${values.userId} has already purchased pack ${values.packId}`);
+    }
+    return purchase;
+  }
+
+  async hasPurchased(userId: number, packId: number): Promise<boolean> {
+    return hasPurchased(this.db, userId, packId);
+  }
+
+  async refundPurchase(id: number, refundedBy: number | null): Promise<Purchase | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Only one of two simultaneous refunds gets the row back
+      const [purchase] = await tx
+        .update(purchases)
+        .set({ refundedAt: new Date(), refundedBy })
+        .where(and(eq(purchases.id, id), isNull(purchases.refundedAt)))
+        .returning();
+      if (!purchase) return undefined;
+
+      await tx
+        .update(soundPacks)
+        .set({ downloads: sql`greatest(${soundPacks.downloads} - 1, 0)` })
+        .where(eq(soundPacks.id, purchase.packId));
+      return purchase;
+    });
+  }
+
+  async getCreatorPurchases(creatorId: number, { from, to }: Omit<SalesRange, 'groupBy'>, limit: number): Promise<CreatorPurchase[]> {
+    const rows = await this.db
+      .select({ purchase: purchases, packName: soldPackName, buyer: users.username })
+      .from(purchases)
+      .leftJoin(orderItems, eq(orderItems.id, purchases.orderItemId))
+      .leftJoin(soundPacks, eq(soundPacks.id, purchases.packId))
+      // Gifts waiting to be redeemed are listed under whoever gave them
+      .innerJoin(users, eq(users.id, sql`coalesce(${purchases.userId}, ${purchases.giftedBy})`))
+      .where(and(eq(purchases.creatorId, creatorId), gte(purchases.createdAt, from), lt(purchases.createdAt, to)))
+      .orderBy(desc(purchases.createdAt), desc(purchases.id))
+      .limit(limit);
+    return rows.map(({ purchase, packName, buyer }) => ({ ...purchase, packName, buyer }));
+  }
+
+  async getCreatorSales(creatorId: number, { from, to, groupBy }: SalesRange): Promise<SalesRow[]> {
+    // Sales are bucketed by when they were bought, refunds by when they were
+    // refunded. groupBy is 'day' or 'week', so it's safe to inline; as a
+    // parameter Postgres wouldn't match the select to the group by.
+    const totalsBy = (column: typeof purchases.createdAt | typeof purchases.refundedAt) => {
+      const period = sql<string>`to_char(date_trunc(${sql.raw(`'${groupBy}'`)}, ${column}), 'YYYY-MM-DD')`;
+      return this.db
+        .select({
+          packId: purchases.packId,
+          name: sql<string>`max(${soldPackName})`,
+          period,
+          amount: sql<number>`sum(${purchases.price})::integer`,
+          units: sql<number>`count(*)::integer`,
+        })
+        .from(purchases)
+        .leftJoin(orderItems, eq(orderItems.id, purchases.orderItemId))
+        .leftJoin(soundPacks, eq(soundPacks.id, purchases.packId))
+        .where(and(eq(purchases.creatorId, creatorId), gte(column, from), lt(column, to)))
+        .groupBy(purchases.packId, period);
+    };
+    
+    const [sold, refunded] = await Promise.all([
+      totalsBy(purchases.createdAt),
+      totalsBy(purchases.refundedAt),
+    ]);
+    
+    return [
+      ...sold.map(({ packId, name, period, amount, units }) => ({
+        packId, name, period, revenue: amount, units, refunds: 0, refundedUnits: 0,
+      })),
+      ...refunded.map(({ packId, name, period, amount, units }) => ({
+        packId, name, period, revenue: 0, units: 0, refunds: amount, refundedUnits: units,
+      })),
+    ];
+  }
+
+  // Coupon methods
+  private async withPacks(rows: Coupon[]): Promise<CouponWithPacks[]> {
+    if (rows.length === 0) return [];
+    const scopes = await this.db
+      .select()
+      .from(couponPacks)
+      .where(inArray(couponPacks.couponId, rows.map(coupon => coupon.id)));
+    return rows.map(coupon => ({
+      ...coupon,
+      packIds: scopes.filter(scope => scope.couponId === coupon.id).map(scope => scope.packId),
+    }));
+  }
+
+  async getCoupon(id: number): Promise<CouponWithPacks | undefined> {
+    const [coupon] = await this.withPacks(await this.db.select().from(coupons).where(eq(coupons.id, id)));
+    return coupon;
+  }
+
+  async getCouponByCode(code: string): Promise<CouponWithPacks | undefined> {
+    const [coupon] = await this.withPacks(await this.db.select().from(coupons).where(eq(coupons.code, code)));
+    return coupon;
+  }
+
+  async getUserCoupons(userId: number): Promise<CouponWithPacks[]> {
+    return this.withPacks(
+      await this.db.select().from(coupons).where(eq(coupons.userId, userId)).orderBy(desc(coupons.id))
+    );
+  }
+
+  async createCoupon(userId: number, { packIds, ...insertCoupon }: InsertCoupon): Promise<CouponWithPacks> {
+    return this.db.transaction(async (tx) => {
+      const [coupon] = await tx
+        .insert(coupons)
+        .values({ ...insertCoupon, userId, allPacks: packIds.length === 0 })
+        .returning();
+      if (packIds.length > 0) {
+        await tx
+          .insert(couponPacks)
+          .values(Array.from(new Set(packIds), packId => ({ couponId: coupon.id, packId })));
+      }
+      return { ...coupon, packIds: Array.from(new Set(packIds)) };
+    });
+  }
+
+  async deleteCoupon(id: number): Promise<boolean> {
+    // Orders and purchases keep their discount; their coupon ids are cleared
+    // by the foreign keys
+    const deleted = await this.db.delete(coupons).where(eq(coupons.id, id)).returning({ id: coupons.id });
+    return deleted.length > 0;
+  }
+
+  async useCoupon(id: number): Promise<boolean> {
+    // Checked and counted in one statement so simultaneous checkouts can't
+    // go past the limit
+    const used = await this.db
+      .update(coupons)
+      .set({ uses: sql`${coupons.uses} + 1` })
+      .where(and(
+        eq(coupons.id, id),
+        or(isNull(coupons.maxUses), lt(coupons.uses, coupons.maxUses)),
+      ))
+      .returning({ id: coupons.id });
+    return used.length > 0;
+  }
+
+  async releaseCoupon(id: number): Promise<void> {
+    await releaseCoupon(this.db, id);
+  }
+
+  // Sale price methods
+  async getSalePrices(packId: number): Promise<SalePrice[]> {
+    return this.db
+      .select()
+      .from(salePrices)
+      .where(eq(salePrices.packId, packId))
+      .orderBy(asc(salePrices.startsAt));
+  }
+
+  async getSalePrice(id: number): Promise<SalePrice | undefined> {
+    const [sale] = await this.db.select().from(salePrices).where(eq(salePrices.id, id));
+    return sale;
+  }
+
+  async getActiveSalePrices(packIds: number[], at: Date): Promise<Map<number, SalePrice>> {
+    if (packIds.length === 0) return new Map();
+    const active = await this.db
+      .select()
+      .from(salePrices)
+      .where(and(inArray(salePrices.packId, packIds), lte(salePrices.startsAt, at), gt(salePrices.endsAt, at)));
+    return new Map(active.map(sale => [sale.packId, sale]));
+  }
+
+  async createSalePrice(packId: number, sale: InsertSalePrice): Promise<SalePrice> {
+    const [created] = await this.db.insert(salePrices).values({ ...sale, packId }).returning();
+    return created;
+  }
+
+  async deleteSalePrice(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(salePrices).where(eq(salePrices.id, id)).returning({ id: salePrices.id });
+    return deleted.length > 0;
+  }
+
+  // Bundle methods
+  private async withBundlePacks(rows: Bundle[]): Promise<BundleWithPacks[]> {
+    if (rows.length === 0) return [];
+    const included = await this.db
+      .select({ bundleId: bundlePacks.bundleId, soundPack: soundPacks })
+      .from(bundlePacks)
+      .innerJoin(soundPacks, eq(bundlePacks.packId, soundPacks.id))
+      .where(inArray(bundlePacks.bundleId, rows.map(bundle => bundle.id)))
+      .orderBy(asc(soundPacks.name));
+    return rows.map(bundle => ({
+      ...bundle,
+      packs: included.filter(row => row.bundleId === bundle.id).map(row => row.soundPack),
+    }));
+  }
+
+  async getBundle(id: number): Promise<BundleWithPacks | undefined> {
+    const [bundle] = await this.withBundlePacks(await this.db.select().from(bundles).where(eq(bundles.id, id)));
+    return bundle;
+  }
+
+  async getBundles(options: BundleQuery = {}): Promise<BundleWithPacks[]> {
+    const { userId, visibleTo } = options;
+    const conditions = [];
+    if (userId !== undefined) {
+      conditions.push(eq(bundles.userId, userId));
+    }
+    if (visibleTo !== undefined) {
+      conditions.push(visibleTo === null
+        ? eq(bundles.isPublic, true)
+        : or(eq(bundles.isPublic, true), eq(bundles.userId, visibleTo)));
+    }
+    return this.withBundlePacks(
+      await this.db.select().from(bundles).where(and(...conditions)).orderBy(desc(bundles.id))
+    );
+  }
+
+  async createBundle(userId: number, { packIds, ...insertBundle }: NewBundle): Promise<BundleWithPacks> {
+    const bundle = await this.db.transaction(async (tx) => {
+      const [bundle] = await tx.insert(bundles).values({ ...insertBundle, userId }).returning();
+      await tx
+        .insert(bundlePacks)
+        .values(Array.from(new Set(packIds), packId => ({ bundleId: bundle.id, packId })));
+      return bundle;
+    });
+    return (await this.withBundlePacks([bundle]))[0];
+  }
+
+  async updateBundle(id: number, { packIds, ...updates }: BundleChanges): Promise<BundleWithPacks | undefined> {
+    const bundle = await this.db.transaction(async (tx) => {
+      const [bundle] = await tx
+        .update(bundles)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(bundles.id, id))
+        .returning();
+      if (bundle && packIds) {
+        await tx.delete(bundlePacks).where(eq(bundlePacks.bundleId, id));
+        await tx
+          .insert(bundlePacks)
+          .values(Array.from(new Set(packIds), packId => ({ bundleId: id, packId })));
+      }
+      return bundle;
+    });
+    return bundle && (await this.withBundlePacks([bundle]))[0];
+  }
+
+  async deleteBundle(id: number): Promise<boolean> {
+    // Orders and purchases of its packs stay; their bundle ids are cleared by
+    // the foreign keys
+    const deleted = await this.db.delete(bundles).where(eq(bundles.id, id)).returning({ id: bundles.id });
+    return deleted.length > 0;
+  }
+
+  // Cart methods
+  async getCartItems(userId: number): Promise<CartItemWithPack[]> {
+    const rows = await this.db
+      .select({ item: cartItems, soundPack: soundPacks })
+      .from(cartItems)
+      .innerJoin(soundPacks, eq(soundPacks.id, cartItems.packId))
+      .where(eq(cartItems.userId, userId))
+      .orderBy(asc(cartItems.createdAt));
+    return rows.map(({ item, soundPack }) => ({ ...item, soundPack }));
+  }
+
+  async addCartItem(userId: number, packId: number): Promise<CartItem> {
+    const [item] = await this.db
+      .insert(cartItems)
+      .values({ userId, packId })
+      .onConflictDoNothing()
+      .returning();
+    if (item) return item;
+
+    const [existing] = await this.db
+      .select()
+      .from(cartItems)
+      .where(and(eq(cartItems.userId, userId), eq(cartItems.packId, packId)));
+    return existing;
+  }
+
+  async removeCartItem(userId: number, packId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(cartItems)
+      .where(and(eq(cartItems.userId, userId), eq(cartItems.packId, packId)))
+      .returning({ packId: cartItems.packId });
+    return deleted.length > 0;
+  }
+
+  // Order methods
+  async getOrder(id: number): Promise<OrderWithItems | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    if (!order) return undefined;
+
+    const items = await this.db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, id))
+      .orderBy(orderItems.id);
+    return { ...order, items };
+  }
+
+  async getUserOrders(userId: number): Promise<OrderWithItems[]> {
+    const userOrders = await this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.id));
+    if (userOrders.length === 0) return [];
+
+    const items = await this.db
+      .select()
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, userOrders.map(order => order.id)))
+      .orderBy(orderItems.id);
+
+    return userOrders.map(order => ({
+      ...order,
+      items: items.filter(item => item.orderId === order.id),
+    }));
+  }
+
+  async getOrderByIdempotencyKey(userId: number, idempotencyKey: string): Promise<OrderWithItems | undefined> {
+    const [order] = await this.db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(eq(orders.userId, userId), eq(orders.idempotencyKey, idempotencyKey)));
+    return order && this.getOrder(order.id);
+  }
+
+  async getOrderByGiftCode(giftCode: string): Promise<OrderWithItems | undefined> {
+    const [order] = await this.db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.giftCode, giftCode));
+    return order && this.getOrder(order.id);
+  }
+
+  async createOrder(userId: number, pricedPacks: PricedPack[], options: NewOrderOptions = {}): Promise<OrderWithItems> {
+    return this.db.transaction(async (tx) => {
+      const [order] = await tx
+        .insert(orders)
+        .values({ ...options, userId, total: pricedPacks.reduce((total, item) => total + item.price, 0) })
+        .returning();
+      const items = pricedPacks.length === 0 ? [] : await tx
+        .insert(orderItems)
+        .values(pricedPacks.map(item => ({ ...item, orderId: order.id })))
+        .returning();
+      return { ...order, items };
+    });
+  }
+
+  async setOrderPaymentId(id: number, paymentId: string): Promise<Order | undefined> {
+    const [order] = await this.db
+      .update(orders)
+      .set({ paymentId, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async completeOrder(id: number, paymentId?: string): Promise<OrderWithItems | undefined> {
+    await this.db.transaction(async (tx) => {
+      // Only the first caller gets to move the order out of pending
+      const [order] = await tx
+        .update(orders)
+        .set({ status: 'paid', updatedAt: new Date(), ...(paymentId && { paymentId }) })
+        .where(and(eq(orders.id, id), eq(orders.status, 'pending')))
+        .returning();
+      if (!order) return;
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, id));
+      for (const item of items) {
+        if (item.packId === null) continue;
+        if (order.giftCode) {
+          await insertPurchase(tx, heldGiftPurchase(order, item));
+          continue;
+        }
+
+        await tx
+          .delete(cartItems)
+          .where(and(eq(cartItems.userId, order.userId), eq(cartItems.packId, item.packId)));
+        // Packs the buyer already has are skipped, and marked for a refund
+        if (!await insertPurchase(tx, orderedPurchase(order, item))) {
+          await tx.update(orderItems).set({ alreadyOwned: true }).where(eq(orderItems.id, item.id));
+        }
+      }
+    });
+    return this.getOrder(id);
+  }
+
+  async declineOrder(id: number, reason: string, paymentId?: string): Promise<OrderWithItems | undefined> {
+    await this.db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set({ status: 'declined', failureReason: reason, updatedAt: new Date(), ...(paymentId && { paymentId }) })
+        .where(and(eq(orders.id, id), eq(orders.status, 'pending')))
+        .returning();
+      if (order?.couponId) {
+        await releaseCoupon(tx, order.couponId);
+      }
+    });
+    return this.getOrder(id);
+  }
+
+  async redeemGift(id: number, userId: number, packIds: number[]): Promise<RedeemedGift | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Only the first of two people redeeming the same code gets the order
+      const [order] = await tx
+        .update(orders)
+        .set({ redeemedBy: userId, redeemedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+          eq(orders.id, id),
+          eq(orders.status, 'paid'),
+          isNotNull(orders.giftCode),
+          isNull(orders.redeemedAt),
+        ))
+        .returning();
+      if (!order) return undefined;
+
+      const held = await tx
+        .select()
+        .from(purchases)
+        .where(and(eq(purchases.orderId, id), isNull(purchases.userId), isNull(purchases.refundedAt)))
+        .orderBy(purchases.id);
+      const gift: RedeemedGift = { redeemed: [], skipped: [] };
+      for (const purchase of held) {
+        if (!packIds.includes(purchase.packId) || await hasPurchased(tx, userId, purchase.packId)) {
+          gift.skipped.push(purchase);
+          continue;
+        }
+
+        const [redeemed] = await tx
+          .update(purchases)
+          .set({ userId })
+          .where(eq(purchases.id, purchase.id))
+          .returning();
+        gift.redeemed.push(redeemed);
+      }
+      return gift;
+    });
+  }
+
+  // Upload methods
+  async isUploadReferenced(url: string): Promise<boolean> {
+    const [sound] = await this.db
+      .select({ id: sounds.id })
+      .from(sounds)
+      .where(eq(sounds.soundFile, url))
+      .limit(1);
+    if (sound) return true;
+
+    const [pack] = await this.db
+      .select({ id: soundPacks.id })
+      .from(soundPacks)
+      .where(eq(soundPacks.imageUrl, url))
+      .limit(1);
+    if (pack) return true;
+
+    const [bundle] = await this.db
+      .select({ id: bundles.id })
+      .from(bundles)
+      .where(eq(bundles.imageUrl, url))
+      .limit(1);
+    return bundle !== undefined;
+  }
+
+  async getReferencedUploads(): Promise<Set<string>> {
+    const soundFiles = await this.db.selectDistinct({ url: sounds.soundFile }).from(sounds);
+    const images = await this.db.selectDistinct({ url: soundPacks.imageUrl }).from(soundPacks);
+    const bundleImages = await this.db.selectDistinct({ url: bundles.imageUrl }).from(bundles);
+    return new Set(
+      [...soundFiles, ...images, ...bundleImages]
+        .map(({ url }) => url)
+        .filter((url): url is string => !!url)
+    );
+  }
+
+  // Audio blob methods
+  async getAudioBlobByUrl(url: string): Promise<AudioBlob | undefined> {
+    const [blob] = await this.db.select().from(audioBlobs).where(eq(audioBlobs.url, url));
+    return blob;
+  }
+
+  async createAudioBlob(insertBlob: InsertAudioBlob): Promise<AudioBlob> {
+    const [blob] = await this.db
+      .insert(audioBlobs)
+      .values({ ...insertBlob, refCount: 1 })
+      .onConflictDoUpdate({
+        target: audioBlobs.hash,
+        set: { refCount: sql`${audioBlobs.refCount} + 1` }
+      })
+      .returning();
+    return blob;
+  }
+
+  async releaseAudioBlob(hash: string): Promise<void> {
+    await this.db
+      .update(audioBlobs)
+      .set({ refCount: sql`${audioBlobs.refCount} - 1` })
+      .where(eq(audioBlobs.hash, hash));
+  }
+
+  async deleteAudioBlobIfUnused(hash: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(audioBlobs)
+      .where(and(eq(audioBlobs.hash, hash), lte(audioBlobs.refCount, 0)))
+      .returning({ hash: audioBlobs.hash });
+    return deleted.length > 0;
+  }
+}
+
+// Use Postgres when a database is configured, otherwise fall back to the
+// in-memory store (data is lost on restart)
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    return new MemStorage();
+  }
+  
+  const pool = createPool(process.env.DATABASE_URL);
+  return new DrizzleStorage(
+    createDatabase(pool),
+    new PostgresSessionStore({ pool, createTableIfMissing: true }),
+  );
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
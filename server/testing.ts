@@ -0,0 +1,38 @@
+import { createRequire } from "module";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't load its own dependencies, so use the
+// CommonJS one
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api",
+) as typeof import("drizzle-kit/api");
+
+// The statements that create the schema from nothing, worked out once
+let schemaStatements: Promise<string[]> | undefined;
+
+// A fresh in-process Postgres with the schema in place, for running
+// DrizzleStorage without a database server
+export async function createTestDatabase(): Promise<Database> {
+  schemaStatements ??= generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+
+  const client = new PGlite();
+  for (const statement of await schemaStatements) {
+    await client.exec(statement);
+  }
+  return drizzle({ client, schema });
+}
+
+// Both storage implementations, each starting empty, so one suite can check
+// that they behave the same
+export const storageBackends: { name: string; create: () => Promise<IStorage> }[] = [
+  { name: 'MemStorage', create: async () => new MemStorage() },
+  {
+    name: 'DrizzleStorage',
+    create: async () => new DrizzleStorage(await createTestDatabase(), new session.MemoryStore()),
+  },
+];
@@ -0,0 +1,292 @@
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import path from "path";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { blobStore } from "./blobs";
+
+// Uploaded files are kept in the blob store, which also decides their URLs.
+// Images sit under their pack owner's user_<ownerId>/ prefix; audio is shared
+// between sounds and stored by content hash under audio/.
+
+export interface FileType {
+  label: string;
+  ext: string;
+  mimetype: string;
+  matches: (head: Buffer) => boolean;
+}
+
+const ascii = (head: Buffer, offset: number, text: string) =>
+  head.length >= offset + text.length && head.toString('latin1', offset, offset + text.length) === text;
+
+// MPEG audio frame header: 11 sync bits, then a layer that isn't "reserved".
+// Rules out ADTS/AAC streams, which share the sync word with layer bits 00.
+const isMpegFrame = (head: Buffer) =>
+  head.length >= 2 && head[0] === 0xff && (head[1] & 0xe0) === 0xe0 && (head[1] & 0x06) !== 0;
+
+const AUDIO_TYPES: FileType[] = [
+  { label: 'WAV', ext: '.wav', mimetype: 'audio/wav', matches: (h) => ascii(h, 0, 'RIFF') && ascii(h, 8, 'WAVE') },
+  { label: 'MP3', ext: '.mp3', mimetype: 'audio/mpeg', matches: (h) => ascii(h, 0, 'ID3') || isMpegFrame(h) },
+  { label: 'OGG', ext: '.ogg', mimetype: 'audio/ogg', matches: (h) => ascii(h, 0, 'OggS') },
+  { label: 'FLAC', ext: '.flac', mimetype: 'audio/flac', matches: (h) => ascii(h, 0, 'fLaC') },
+];
+
+const IMAGE_TYPES: FileType[] = [
+  { label: 'PNG', ext: '.png', mimetype: 'image/png', matches: (h) => ascii(h, 0, '\x89PNG\r\n\x1a\n') },
+  { label: 'JPEG', ext: '.jpg', mimetype: 'image/jpeg', matches: (h) => h.length >= 3 && h[0] === 0xff && h[1] === 0xd8 && h[2] === 0xff },
+  { label: 'WebP', ext: '.webp', mimetype: 'image/webp', matches: (h) => ascii(h, 0, 'RIFF') && ascii(h, 8, 'WEBP') },
+];
+
+const MB = 1024 * 1024;
+
+// What each upload field accepts, and whether identical files are stored once
+const UPLOAD_FIELDS = {
+  image: { description: 'Image', types: IMAGE_TYPES, maxBytes: 2 * MB, contentAddressed: false },
+  soundFile: { description: 'Sound file', types: AUDIO_TYPES, maxBytes: 10 * MB, contentAddressed: true },
+} as const;
+
+export type UploadField = keyof typeof UPLOAD_FIELDS;
+
+// Sniff a file's real type from its first bytes, ignoring whatever name and
+// content type the client claimed
+export function detectFileType(field: UploadField, data: Buffer): FileType | undefined {
+  return UPLOAD_FIELDS[field].types.find((type) => type.matches(data));
+}
+
+// Store audio once per distinct content, at audio/<first two hash chars>/<hash>.
+// Re-uploading a file that is already there costs no storage. The blob is
+// recorded with a reference for this upload, so it can't be deleted before
+// a sound refers to it. Returns the blob key.
+async function storeAudioBlob(data: Buffer, type: FileType): Promise<string> {
+  const hash = createHash('sha256').update(data).digest('hex');
+  const key = `audio/${hash.slice(0, 2)}/${hash}${type.ext}`;
+
+  if (!(await blobStore.exists(key))) {
+    await blobStore.put(key, data, type.mimetype);
+  }
+
+  await storage.createAudioBlob({
+    hash,
+    url: blobStore.url(key),
+    mimetype: type.mimetype,
+    size: data.length
+  });
+  return key;
+}
+
+// Store a file under its owner's prefix with a fresh name. Returns the blob key.
+async function storeOwnedFile(data: Buffer, type: FileType, field: UploadField, ownerId: number): Promise<string> {
+  const key = `user_${ownerId}/${field}-${Date.now()}-${randomBytes(6).toString('hex')}${type.ext}`;
+  await blobStore.put(key, data, type.mimetype);
+  return key;
+}
+
+// Why a file can't be stored in an upload field
+export class InvalidUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidUploadError';
+  }
+}
+
+// Check that a file fits an upload field, by size and by what its contents
+// really are. Returns the detected type; throws InvalidUploadError otherwise.
+export function checkUpload(field: UploadField, data: Buffer): FileType {
+  const { description, types, maxBytes } = UPLOAD_FIELDS[field];
+  if (data.length > maxBytes) {
+    throw new InvalidUploadError(`${description} must be at most ${maxBytes / MB} MB`);
+  }
+
+  const type = detectFileType(field, data);
+  if (!type) {
+    const allowed = types.map((t) => t.label);
+    throw new InvalidUploadError(
+      `${description} must be a ${allowed.slice(0, -1).join(', ')} or ${allowed[allowed.length - 1]} file`
+    );
+  }
+  return type;
+}
+
+// Check and store a file for an upload field, with an extension matching
+// what it actually is: audio by content hash, anything else under the
+// owner's prefix. Returns the blob key, its URL and the detected type.
+// Nothing refers to the file yet, so callers must releaseStoredUploads it
+// once they are done, whether or not they used it.
+export async function storeUpload(
+  field: UploadField,
+  data: Buffer,
+  ownerId: number
+): Promise<{ key: string; url: string; type: FileType }> {
+  const type = checkUpload(field, data);
+  const key = UPLOAD_FIELDS[field].contentAddressed
+    ? await storeAudioBlob(data, type)
+    : await storeOwnedFile(data, type, field, ownerId);
+  return { key, url: blobStore.url(key), type };
+}
+
+const uploadError = (res: Response, status: number, message: string) =>
+  res.status(status).json({
+    status: 'error',
+    message
+  });
+
+// Parse a multipart body into req.body and, if it carries one, a single file
+// in the given field into req.file (in memory, not stored anywhere). Answers
+// 413 for files over maxBytes and 400 for files in any other field.
+export function receiveFile(field: string, description: string, maxBytes: number) {
+  const parse = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 }
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    parse(req, res, (err?: unknown) => {
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          return uploadError(res, 413, `${description} must be at most ${maxBytes / MB} MB`);
+        }
+        if (err.code === 'LIMIT_UNEXPECTED_FILE' || err.code === 'LIMIT_FILE_COUNT') {
+          return uploadError(res, 400, `Expected a single file in the "${field}" field`);
+        }
+        return uploadError(res, 400, err.message);
+      }
+      next(err);
+    });
+  };
+}
+
+// Accept a single file in the given multipart field. The file is held in
+// memory until its contents check out, then stored with storeUpload. Sits
+// after requireAuth and the ownership checks; the owner is
+// res.locals.soundPack's, or the session user's when the pack is being
+// created. Once the response is sent the stored file is released again, so
+// it is deleted if the request failed or didn't keep it.
+export function acceptUpload(field: UploadField) {
+  const { description, maxBytes } = UPLOAD_FIELDS[field];
+  const receive = receiveFile(field, description, maxBytes);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    receive(req, res, async (err?: unknown) => {
+      if (err) {
+        return next(err);
+      }
+
+      const file = req.file;
+      if (!file) {
+        return next();
+      }
+
+      try {
+        const ownerId: number = res.locals.soundPack?.userId ?? res.locals.bundle?.userId ?? req.user!.id;
+        const { key, type } = await storeUpload(field, file.buffer, ownerId);
+
+        // The blob key stands in for multer's on-disk path
+        file.mimetype = type.mimetype;
+        file.destination = path.posix.dirname(key);
+        file.filename = path.posix.basename(key);
+        file.path = key;
+
+        res.on('finish', () => {
+          releaseStoredUploads([uploadUrl(file)]);
+        });
+        next();
+      } catch (error) {
+        if (error instanceof InvalidUploadError) {
+          return uploadError(res, 400, error.message);
+        }
+        next(error);
+      }
+    });
+  };
+}
+
+// Public URL for a file acceptUpload has stored
+export const uploadUrl = (file: Express.Multer.File) => blobStore.url(file.path);
+
+// The blob key behind an uploadUrl, and what the file contains (going by the
+// extension acceptUpload gave it). Undefined for anything that doesn't point
+// into the blob store.
+export function resolveUpload(url: string): { key: string; mimetype: string } | undefined {
+  const key = blobStore.keyForUrl(url);
+  if (!key) {
+    return undefined;
+  }
+
+  const ext = path.posix.extname(key).toLowerCase();
+  const type = [...AUDIO_TYPES, ...IMAGE_TYPES].find((t) => t.ext === ext);
+  return { key, mimetype: type?.mimetype ?? 'application/octet-stream' };
+}
+
+// The contents of an uploaded file, or undefined when it is gone or the URL
+// doesn't point into the blob store
+export async function readUpload(url: string): Promise<{ data: Buffer; mimetype: string } | undefined> {
+  const upload = resolveUpload(url);
+  const data = upload && await blobStore.get(upload.key);
+  return data && { data, mimetype: upload.mimetype };
+}
+
+// Delete uploaded files that no sound, pack or bundle refers to any more. Call
+// after the records that used them have been changed or removed; URLs that are
+// still referenced elsewhere are left alone. Audio blobs go by their
+// reference count, other files by looking for records that use them. Never
+// throws, since the change that freed the files has already been made.
+export async function releaseUploads(urls: (string | null | undefined)[]) {
+  for (const url of Array.from(new Set(urls))) {
+    const upload = url ? resolveUpload(url) : undefined;
+    if (!url || !upload) continue;
+
+    try {
+      const blob = await storage.getAudioBlobByUrl(url);
+      const unused = blob
+        ? await storage.deleteAudioBlobIfUnused(blob.hash)
+        : !(await storage.isUploadReferenced(url));
+      if (unused) {
+        await blobStore.delete(upload.key);
+      }
+    } catch (error) {
+      console.error(`Error releasing upload ${url}:`, error);
+    }
+  }
+}
+
+// Give back the references storeUpload took to audio blobs, then delete
+// whichever of the files nothing refers to any more (see releaseUploads)
+export async function releaseStoredUploads(urls: string[]) {
+  // One reference per store, even of the same contents
+  for (const url of urls) {
+    try {
+      const blob = await storage.getAudioBlobByUrl(url);
+      if (blob) {
+        await storage.releaseAudioBlob(blob.hash);
+      }
+    } catch (error) {
+      console.error(`Error releasing upload ${url}:`, error);
+    }
+  }
+  await releaseUploads(urls);
+}
+
+export interface OrphanedUpload {
+  url: string;
+  key: string;
+  size: number;
+  modified: Date;
+}
+
+// Files in the blob store that nothing refers to. Files younger than
+// minAgeMs are skipped: they may belong to a request that is still running.
+export async function findOrphanedUploads(minAgeMs: number): Promise<OrphanedUpload[]> {
+  const referenced = await storage.getReferencedUploads();
+  const cutoff = Date.now() - minAgeMs;
+  const orphans: OrphanedUpload[] = [];
+
+  for (const { key, size, modified } of await blobStore.list()) {
+    const url = blobStore.url(key);
+    if (referenced.has(url)) continue;
+    if (modified.getTime() > cutoff) continue;
+
+    orphans.push({ url, key, size, modified });
+  }
+
+  return orphans;
+}
@@ -0,0 +1,52 @@
+import type { Request, Response, NextFunction } from "express";
+import { ZodError, type ZodTypeAny } from "zod";
+
+// Middleware to handle validation errors
+export const validateRequest = (schema: ZodTypeAny) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      req.body = schema.parse(req.body);
+      next();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Validation error',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  };
+};
+
+// Same as validateRequest, for the query string
+export const validateQuery = (schema: ZodTypeAny) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      req.query = schema.parse(req.query);
+      next();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Validation error',
+          errors: error.errors
+        });
+      }
+      next(error);
+    }
+  };
+};
+
+// Largest id a serial column can hold
+const MAX_ID = 2147483647;
+
+// The row id in a route param, or undefined when it isn't a positive integer.
+// No row has such an id, so routes answer 404 for it like for any other
+// missing row instead of handing the database a NaN.
+export function routeId(req: Request, param: string): number | undefined {
+  const value = req.params[param];
+  const id = /^[1-9][0-9]*$/.test(value) ? Number(value) : NaN;
+  return id <= MAX_ID ? id : undefined;
+}
@@ -0,0 +1,122 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import archiver, { type Archiver } from "archiver";
+import yauzl, { type Entry, type ZipFile } from "yauzl";
+
+const MB = 1024 * 1024;
+
+// Anything wrong with an uploaded zip: not a zip at all, too many files, or
+// an entry bigger than the caller allows
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+// A zip held in memory, with its file entries listed up front and read on
+// demand, so only one entry needs to be unpacked at a time
+export class ZipReader {
+  private constructor(private zip: ZipFile, private entries: Map<string, Entry>) {}
+
+  // Open a zip, refusing archives with more than maxEntries files
+  static async open(data: Buffer, maxEntries: number): Promise<ZipReader> {
+    let zip: ZipFile;
+    try {
+      zip = await yauzl.fromBufferPromise(data, { lazyEntries: true });
+    } catch {
+      throw new ZipError('File is not a valid zip archive');
+    }
+
+    const entries = new Map<string, Entry>();
+    try {
+      await new Promise<void>((resolve, reject) => {
+        zip.on('error', () => reject(new ZipError('File is not a valid zip archive')));
+        zip.on('end', resolve);
+        zip.on('entry', (entry: Entry) => {
+          if (entries.size >= maxEntries) {
+            return reject(new ZipError(`Archive has more than ${maxEntries} files`));
+          }
+          // Directories are implied by the file names
+          if (!entry.fileName.endsWith('/')) {
+            entries.set(entry.fileName, entry);
+          }
+          zip.readEntry();
+        });
+        zip.readEntry();
+      });
+    } catch (error) {
+      zip.close();
+      throw error;
+    }
+
+    return new ZipReader(zip, entries);
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  // An entry's contents, refusing anything that claims to unpack to more
+  // than maxBytes (yauzl checks the claim while inflating)
+  async read(name: string, maxBytes: number): Promise<Buffer> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new ZipError(`${name} is missing from the archive`);
+    }
+    if (entry.uncompressedSize > maxBytes) {
+      throw new ZipError(`${name} must be at most ${maxBytes / MB} MB`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.zip.openReadStreamPromise(entry)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  close() {
+    this.zip.close();
+  }
+}
+
+// Streams a zip to output as entries are added. Each add waits until the
+// entry has been compressed, so callers can read files one at a time
+// without holding the whole archive in memory.
+export class ZipWriter {
+  private archive: Archiver;
+  private finished: Promise<void>;
+
+  constructor(output: Writable) {
+    this.archive = archiver('zip', { zlib: { level: 9 } });
+    this.finished = new Promise<void>((resolve, reject) => {
+      this.archive.on('error', reject);
+      output.on('error', reject);
+      output.on('finish', resolve);
+      output.on('close', resolve);
+    });
+    // Only finish() waits on this; an aborted zip mustn't reject unobserved
+    this.finished.catch(() => {});
+    this.archive.pipe(output);
+  }
+
+  async add(name: string, data: Buffer | string): Promise<void> {
+    const added = once(this.archive, 'entry');
+    this.archive.append(data, { name });
+    await added;
+  }
+
+  // Write the zip's directory and wait for output to take all of it
+  async finish(): Promise<void> {
+    await this.archive.finalize();
+    await this.finished;
+  }
+
+  abort() {
+    this.archive.abort();
+  }
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, real, primaryKey, unique, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +7,7 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  isAdmin: boolean("is_admin").notNull().default(false), // Admins can manage every pack
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -18,7 +20,8 @@ export const soundPacks = pgTable("sound_packs", {
   price: integer("price").notNull().default(0), // Price in cents (e.g., 499 = $4.99)
   isPublic: boolean("is_public").notNull().default(true),
   downloads: integer("downloads").notNull().default(0),
-  rating: integer("rating").notNull().default(0), // Average rating (1-5)
+  rating: real("rating").notNull().default(0), // Average review rating (1-5), 0 until reviewed
+  reviewCount: integer("review_count").notNull().default(0),
   imageUrl: text("image_url"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -39,6 +42,13 @@ export const sounds = pgTable("sounds", {
     sustain: 0.7,
     release: 0.5
   }),
+  // Measured from the uploaded file; null when there's no file or it couldn't be decoded
+  duration: real("duration"), // Seconds
+  sampleRate: integer("sample_rate"), // Hz
+  channels: integer("channels"),
+  peak: real("peak"), // Highest absolute sample value, 0-1
+  rms: real("rms"), // RMS loudness over all channels, 0-1
+  leadingSilence: real("leading_silence"), // Seconds before the sound starts
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -49,15 +59,198 @@ export const reviews = pgTable("reviews", {
   userId: integer("user_id").notNull().references(() => users.id),
   rating: integer("rating").notNull(), // Rating from 1-5
   comment: text("comment"),
+  status: text("status").notNull().default("published"), // One of REVIEW_STATUSES
+  heldReason: text("held_reason"), // Why the content check held it for approval
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // One review per user per pack
+  unique("reviews_pack_id_user_id_unique").on(table.packId, table.userId),
+]);
+
+// Users flagging reviews for an admin to look at
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id), // Who reported it
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedAt: timestamp("resolved_at"), // Set when an admin hides or restores the review
+}, (table) => [
+  // One report per user per review
+  unique("review_reports_review_id_user_id_unique").on(table.reviewId, table.userId),
+]);
+
+// A discount code a creator hands out for their packs
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // The creator
+  code: text("code").notNull().unique(), // Upper case; buyers can type it in any case
+  discountType: text("discount_type").notNull(), // One of DISCOUNT_TYPES
+  amount: integer("amount").notNull(), // Percent off, or cents off each pack
+  // Otherwise only the packs in couponPacks, which stays limited even when
+  // all of them are deleted
+  allPacks: boolean("all_packs").notNull().default(true),
+  expiresAt: timestamp("expires_at"), // Null for a code that doesn't expire
+  maxUses: integer("max_uses"), // Orders it can be used on; null for no limit
+  uses: integer("uses").notNull().default(0), // Paid and pending orders using it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The packs a coupon is limited to, unless it's for all of its creator's
+export const couponPacks = pgTable("coupon_packs", {
+  couponId: integer("coupon_id").notNull().references(() => coupons.id, { onDelete: "cascade" }),
+  packId: integer("pack_id").notNull().references(() => soundPacks.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.couponId, table.packId] }),
+]);
+
+// A pack's price for a while. Sales of the same pack don't overlap.
+export const salePrices = pgTable("sale_prices", {
+  id: serial("id").primaryKey(),
+  packId: integer("pack_id").notNull().references(() => soundPacks.id, { onDelete: "cascade" }),
+  price: integer("price").notNull(), // Cents
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(), // Exclusive
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A set of a creator's packs sold together for one price. Buying it buys
+// each pack the buyer doesn't have yet.
+export const bundles = pgTable("bundles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id), // The creator
+  name: text("name").notNull(),
+  description: text("description"),
+  price: integer("price").notNull(), // Cents, for all of its packs
+  isPublic: boolean("is_public").notNull().default(true),
+  imageUrl: text("image_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const bundlePacks = pgTable("bundle_packs", {
+  bundleId: integer("bundle_id").notNull().references(() => bundles.id, { onDelete: "cascade" }),
+  packId: integer("pack_id").notNull().references(() => soundPacks.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.bundleId, table.packId] }),
+]);
+
+// Packs a user has put in their cart, kept until they check out
+export const cartItems = pgTable("cart_items", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  packId: integer("pack_id").notNull().references(() => soundPacks.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.packId] }),
+]);
+
+// A checkout: what was bought at what price, and how paying for it went.
+// Purchases are the entitlements a paid order grants.
+export const orders = pgTable("orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  status: text("status").notNull().default("pending"), // One of ORDER_STATUSES
+  currency: text("currency").notNull().default("usd"), // ISO 4217, lower case
+  total: integer("total").notNull(), // In the currency's minor unit, e.g. cents
+  paymentId: text("payment_id"), // The payment provider's reference
+  failureReason: text("failure_reason"), // Why the payment was declined
+  // The coupon the order uses; counted as a use unless the order is declined
+  couponId: integer("coupon_id").references(() => coupons.id, { onDelete: "set null" }),
+  // From the Idempotency-Key header: a retried request gets this order back
+  // instead of creating another. requestHash tells a retry from a different
+  // request that reused the key.
+  idempotencyKey: text("idempotency_key"),
+  requestHash: text("request_hash"),
+  // Gift orders buy the packs for someone else: paying gives the buyer this
+  // code to pass on instead of the packs, and whoever redeems it gets them.
+  // Their purchases are made when it's paid and held until then.
+  giftCode: text("gift_code").unique(),
+  redeemedBy: integer("redeemed_by").references(() => users.id),
+  redeemedAt: timestamp("redeemed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("orders_user_id_idempotency_key_unique").on(table.userId, table.idempotencyKey),
+]);
+
+export const orderItems = pgTable("order_items", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  // Null once the pack is deleted; the name and price stay for the record
+  packId: integer("pack_id").references(() => soundPacks.id, { onDelete: "set null" }),
+  name: text("name").notNull(), // The pack's name when it was ordered
+  // Cents. price is what the buyer pays: originalPrice, the pack's list
+  // price, less the discount from a sale and the coupon. For packs bought in
+  // a bundle originalPrice is the pack's share of the bundle's price instead.
+  // originalPrice is null for orders placed before discounts existed.
+  price: integer("price").notNull(),
+  originalPrice: integer("original_price"),
+  discount: integer("discount").notNull().default(0),
+  couponId: integer("coupon_id").references(() => coupons.id, { onDelete: "set null" }),
+  bundleId: integer("bundle_id").references(() => bundles.id, { onDelete: "set null" }),
+  // Set when the order was paid but the buyer already had the pack, say from
+  // a checkout running at the same time; the item's price is refunded
+  alreadyOwned: boolean("already_owned").notNull().default(false),
 });
 
 // Define user purchases
 export const purchases = pgTable("purchases", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull().references(() => users.id),
-  packId: integer("pack_id").notNull().references(() => soundPacks.id),
+  userId: integer("user_id").references(() => users.id), // Who has it; null while a gift waits to be redeemed
+  // Not a foreign key: purchases outlive their pack, like order items do, so
+  // the buyer's history and the sale stay on record after it's deleted
+  packId: integer("pack_id").notNull(),
+  // Who the sale is credited to: the pack's creator when it was bought. Kept
+  // here so sales reports don't need the pack.
+  creatorId: integer("creator_id").notNull().references(() => users.id),
   price: integer("price").notNull(), // Price paid in cents
+  // List price (or share of the bundle's price) and what a sale and coupon
+  // took off it; originalPrice is null for purchases made before discounts
+  // existed
+  originalPrice: integer("original_price"),
+  discount: integer("discount").notNull().default(0),
+  couponId: integer("coupon_id").references(() => coupons.id, { onDelete: "set null" }),
+  bundleId: integer("bundle_id").references(() => bundles.id, { onDelete: "set null" }), // The bundle it came in
+  orderId: integer("order_id").references(() => orders.id), // The paid order that bought it
+  orderItemId: integer("order_item_id").references(() => orderItems.id), // Its line in that order
+  giftedBy: integer("gifted_by").references(() => users.id), // Who bought it as a gift, for gifts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  refundedAt: timestamp("refunded_at"), // Set when the sale is refunded
+  // The creator or admin who refunded it; null when it was refunded because
+  // the gift it was held for couldn't give it
+  refundedBy: integer("refunded_by").references(() => users.id),
+}, (table) => [
+  // A pack is bought once per user, though it can be bought again after a
+  // refund; refunded purchases stay for the sales history
+  uniqueIndex("purchases_user_id_pack_id_unique")
+    .on(table.userId, table.packId)
+    .where(sql`${table.refundedAt} is null`),
+]);
+
+// Define tags (categories such as "Grand Piano" or "Chiptune") for sound packs
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(), // URL-safe key, e.g. grand-piano
+  name: text("name").notNull(), // Display name, e.g. Grand Piano
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Which tags each sound pack carries
+export const soundPackTags = pgTable("sound_pack_tags", {
+  packId: integer("pack_id").notNull().references(() => soundPacks.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.packId, table.tagId] }),
+]);
+
+// Uploaded audio, stored once per distinct content no matter how many sounds use it
+export const audioBlobs = pgTable("audio_blobs", {
+  hash: text("hash").primaryKey(), // SHA-256 of the file contents, hex
+  url: text("url").notNull().unique(), // What sounds.soundFile holds for this blob
+  mimetype: text("mimetype").notNull(),
+  size: integer("size").notNull(), // Bytes
+  refCount: integer("ref_count").notNull().default(0), // Sounds pointing at this blob, plus uploads still using it
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -65,6 +258,18 @@ export const purchases = pgTable("purchases", {
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  isAdmin: true,
+});
+
+// Credentials accepted by the register and login endpoints
+export const registerUserSchema = insertUserSchema.omit({ isAdmin: true }).extend({
+  username: z.string().trim().min(3, { message: 'Username must be at least 3 characters long' }).max(32),
+  password: z.string().min(8, { message: 'Password must be at least 8 characters long' }).max(128),
+});
+
+export const loginUserSchema = z.object({
+  username: z.string().trim().min(1, { message: 'Username is required' }),
+  password: z.string().min(1, { message: 'Password is required' }),
 });
 
 export const insertSoundPackSchema = createInsertSchema(soundPacks).pick({
@@ -74,6 +279,12 @@ export const insertSoundPackSchema = createInsertSchema(soundPacks).pick({
   price: true,
   isPublic: true,
   imageUrl: true,
+}).extend({
+  // The same rules as updateSoundPackSchema, so a pack can't be created, or
+  // imported, with a name it couldn't be renamed to
+  name: z.string().trim().min(3, { message: 'Name must be at least 3 characters long' }).max(50),
+  description: z.string().max(500).nullish(),
+  price: z.number().int().min(0, { message: 'Price must be at least 0' }).optional(),
 });
 
 export const insertSoundSchema = createInsertSchema(sounds).pick({
@@ -83,39 +294,502 @@ export const insertSoundSchema = createInsertSchema(sounds).pick({
   octave: true,
   waveform: true,
   envelope: true,
+  duration: true,
+  sampleRate: true,
+  channels: true,
+  peak: true,
+  rms: true,
+  leadingSilence: true,
 }).extend({
   soundFile: z.string().optional(),
 });
 
+// Multipart form bodies carry every value as a string, so the update schemas
+// below coerce them back to their real types
+const formBoolean = z.preprocess(
+  (value) => value === 'true' ? true : value === 'false' ? false : value,
+  z.boolean(),
+);
+
+const formJson = <T extends z.ZodTypeAny>(schema: T) => z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}, schema);
+
+export const adsrEnvelopeSchema = z.object({
+  attack: z.number().min(0).max(2),
+  decay: z.number().min(0).max(2),
+  sustain: z.number().min(0).max(1),
+  release: z.number().min(0).max(5),
+});
+
+// Categories offered to creators before anyone has used them
+export const DEFAULT_CATEGORIES = [
+  'Grand Piano',
+  'Electric Piano',
+  'Synth Pads',
+  'Synth Leads',
+  'Bass',
+  'Drums',
+  'Strings',
+  'Chiptune',
+  'Ambient',
+] as const;
+
+export function slugifyTag(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Tag names as sent by the create and edit forms (a JSON array in multipart bodies)
+export const soundPackTagsSchema = formJson(
+  z.array(
+    z.string().trim().min(1).max(30).refine((name) => slugifyTag(name) !== '', {
+      message: 'Tags must contain letters or numbers',
+    }),
+  ).max(10, { message: 'A sound pack can have at most 10 tags' }),
+);
+
+export const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const;
+export const WAVEFORMS = ['sine', 'square', 'sawtooth', 'triangle', 'custom'] as const;
+
+// Sample levels (0-1) at which a sound counts as clipped or silent
+export const CLIPPING_LEVEL = 0.999; // About -0.01 dBFS
+export const SILENCE_LEVEL = 0.001; // -60 dBFS
+
+// Fields a creator may change on an existing pack. Ownership, counters and
+// timestamps are managed by the server; imageUrl comes from the uploaded file.
+export const updateSoundPackSchema = z.object({
+  name: z.string().trim().min(3, { message: 'Name must be at least 3 characters long' }).max(50),
+  description: z.string().max(500),
+  price: z.coerce.number().int().min(0, { message: 'Price must be at least 0' }),
+  isPublic: formBoolean,
+  tags: soundPackTagsSchema,
+}).partial().strict();
+
+// A pack made with the create form, as multipart fields. The owner is the
+// session user and imageUrl comes from the uploaded file.
+export const newSoundPackSchema = insertSoundPackSchema.omit({ userId: true, imageUrl: true }).extend({
+  price: z.coerce.number().int().min(0, { message: 'Price must be at least 0' }),
+  isPublic: formBoolean.default(false),
+  tags: soundPackTagsSchema.default([]),
+}).strict();
+
+// Fields a creator sets on a sound. The pack comes from the route and
+// soundFile from the uploaded file.
+const soundFieldsSchema = z.object({
+  name: z.string().trim().min(3, { message: 'Name must be at least 3 characters long' }).max(50),
+  note: z.enum(NOTES),
+  octave: z.coerce.number().int().min(1).max(8),
+  waveform: z.enum(WAVEFORMS),
+  envelope: formJson(adsrEnvelopeSchema),
+});
+
+// A sound added to a pack by hand, a sine wave with a gentle envelope unless
+// the creator picks otherwise
+export const newSoundSchema = soundFieldsSchema.extend({
+  waveform: soundFieldsSchema.shape.waveform.default('sine'),
+  envelope: soundFieldsSchema.shape.envelope.default({ attack: 0.1, decay: 0.2, sustain: 0.7, release: 0.5 }),
+}).strict();
+
+// Fields a creator may change on an existing sound. The pack can't be changed.
+export const updateSoundSchema = soundFieldsSchema.partial().strict();
+
+// Catalogue listing: GET /api/soundpacks query string
+export const SOUND_PACK_SORTS = [
+  'newest',
+  'oldest',
+  'name-asc',
+  'name-desc',
+  'price-asc',
+  'price-desc',
+  'rating',
+  'popular',
+] as const;
+
+export const soundPackQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(), // Matches name or description
+  userId: z.coerce.number().int().positive().optional(), // Creator's id
+  creator: z.string().trim().min(1).optional(), // Creator's username
+  isPublic: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  minPrice: z.coerce.number().int().min(0).optional(), // In cents
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  tag: z.string().trim().min(1).optional(), // Tag slug
+  sort: z.enum(SOUND_PACK_SORTS).default('newest'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+
 export const insertReviewSchema = createInsertSchema(reviews).pick({
   packId: true,
   userId: true,
   rating: true,
   comment: true,
+}).extend({
+  rating: z.number().int().min(1, { message: 'Rating must be between 1 and 5' }).max(5, { message: 'Rating must be between 1 and 5' }),
+  comment: z.string().trim().max(1000).nullish(),
+});
+
+// Published reviews are shown and count toward their pack's rating. Pending
+// ones were held by the content check until an admin approves them; hidden
+// ones were taken down by an admin. Both are only shown to their author.
+export const REVIEW_STATUSES = ['published', 'pending', 'hidden'] as const;
+
+// Fields a reviewer may change on their review
+export const updateReviewSchema = insertReviewSchema.pick({
+  rating: true,
+  comment: true,
+}).partial().strict();
+
+export const insertReviewReportSchema = createInsertSchema(reviewReports).pick({
+  reviewId: true,
+  userId: true,
+  reason: true,
+}).extend({
+  reason: z.string().trim().min(1, { message: 'Give a reason for reporting this review' }).max(500),
+});
+
+// Admin moderation listing: GET /api/admin/reviews query string. Without a
+// status it's the queue of held and reported reviews.
+export const reviewModerationQuerySchema = z.object({
+  status: z.enum(REVIEW_STATUSES).optional(),
 });
 
 export const insertPurchaseSchema = createInsertSchema(purchases).pick({
   userId: true,
   packId: true,
   price: true,
+  originalPrice: true,
+  discount: true,
+  couponId: true,
+  bundleId: true,
+  orderId: true,
+  orderItemId: true,
+  giftedBy: true,
+});
+
+// Percent coupons take that percentage off each pack they apply to, fixed
+// ones that many cents (but never more than the pack costs)
+export const DISCOUNT_TYPES = ['percent', 'fixed'] as const;
+
+// What buyers type in at checkout
+export const couponCodeSchema = z.string()
+  .trim()
+  .min(3, { message: 'Coupon codes are 3 to 32 characters' })
+  .max(32, { message: 'Coupon codes are 3 to 32 characters' })
+  .regex(/^[A-Za-z0-9_-]+$/, { message: 'Coupon codes can only contain letters, numbers, - and _' })
+  .transform((code) => code.toUpperCase());
+
+// A creator's new coupon. packIds limits it to some of their packs; without
+// any it applies to all of them.
+export const insertCouponSchema = z.object({
+  code: couponCodeSchema,
+  discountType: z.enum(DISCOUNT_TYPES),
+  amount: z.coerce.number().int().positive({ message: 'The discount must be more than 0' }),
+  expiresAt: z.coerce.date().optional(),
+  maxUses: z.coerce.number().int().positive().optional(),
+  packIds: z.array(z.coerce.number().int().positive()).max(100).default([]),
+}).strict().refine(({ discountType, amount }) => discountType !== 'percent' || amount <= 100, {
+  message: 'A percentage discount can be at most 100',
+  path: ['amount'],
+});
+
+// A scheduled sale of a pack; endsAt is exclusive
+export const insertSalePriceSchema = z.object({
+  price: z.coerce.number().int().min(0, { message: 'Price must be at least 0' }),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+}).strict().refine(({ startsAt, endsAt }) => startsAt < endsAt, {
+  message: 'The sale must end after it starts',
+  path: ['endsAt'],
+});
+
+// Fewest packs a bundle can have
+export const MIN_BUNDLE_PACKS = 2;
+
+// Bundle pack ids as sent by the create and edit forms (a JSON array in
+// multipart bodies)
+const bundlePackIdsSchema = formJson(
+  z.array(z.coerce.number().int().positive())
+    .min(MIN_BUNDLE_PACKS, { message: `A bundle needs at least ${MIN_BUNDLE_PACKS} sound packs` })
+    .max(50, { message: 'A bundle can have at most 50 sound packs' }),
+);
+
+// A creator's new bundle of their own packs; the image is uploaded with it
+export const insertBundleSchema = z.object({
+  name: z.string().trim().min(3, { message: 'Name must be at least 3 characters long' }).max(50),
+  description: z.string().max(500).default(''),
+  price: z.coerce.number().int().min(0, { message: 'Price must be at least 0' }),
+  isPublic: formBoolean.default(true),
+  packIds: bundlePackIdsSchema,
+}).strict();
+
+export const updateBundleSchema = insertBundleSchema.partial().strict();
+
+// GET /api/bundles query string
+export const bundleQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(), // Creator's id
+});
+
+export const cartItemSchema = z.object({
+  packId: z.coerce.number().int().positive(),
+}).strict();
+
+// Pending orders are waiting for the payment provider to confirm the
+// payment. Purchases are only created once an order is paid.
+export const ORDER_STATUSES = ['pending', 'paid', 'declined'] as const;
+
+// Pack prices are in cents of this currency
+export const DEFAULT_CURRENCY = 'usd';
+
+// Sent by clients so a retried purchase or checkout isn't carried out twice
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const idempotencyKeySchema = z.string().trim().min(1).max(255);
+
+// paymentMethod is whatever the payment provider needs to charge the buyer,
+// such as a card token; free orders don't need one
+export const checkoutSchema = z.object({
+  paymentMethod: z.string().trim().min(1).max(200).optional(),
+  couponCode: couponCodeSchema.optional(),
+}).strict();
+
+// GET /api/users/:userId/cart/quote query string: price the cart as checkout
+// would. Bundle quotes take the same.
+export const cartQuoteQuerySchema = z.object({
+  couponCode: couponCodeSchema.optional(),
+});
+
+// Buying a single pack or a bundle straight away, skipping the cart. A gift
+// is paid for by the user but goes to whoever redeems its gift code.
+export const purchaseSchema = checkoutSchema.extend({
+  packId: z.coerce.number().int().positive().optional(),
+  bundleId: z.coerce.number().int().positive().optional(),
+  gift: z.boolean().default(false),
+}).strict().refine(({ packId, bundleId }) => (packId === undefined) !== (bundleId === undefined), {
+  message: 'Give either a packId or a bundleId',
+});
+
+// Gift codes are three groups of four letters and digits, e.g. 7KQ2-MX9D-RT4W.
+// What people type in is forgiving about case, spaces and dashes.
+export const GIFT_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const giftCodeSchema = z.string()
+  .transform((code) => code.toUpperCase().replace(/[\s-]/g, ''))
+  .refine((code) => /^[A-Z0-9]{12}$/.test(code), { message: 'Gift codes look like 7KQ2-MX9D-RT4W' })
+  .transform((code) => code.match(/.{4}/g)!.join('-'));
+
+export const redeemSchema = z.object({
+  code: giftCodeSchema,
+}).strict();
+
+// Creator sales report: GET /api/creators/:userId/sales query string. Dates
+// are whole UTC days with both ends included; the server fills in the last
+// 30 days for whichever end is missing.
+export const SALES_GROUPINGS = ['day', 'week'] as const;
+
+export const MAX_SALES_DAYS = 731;
+
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Dates must look like 2024-01-31' })
+  .refine((value) => !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), {
+    message: 'Invalid date',
+  });
+
+const salesDates = {
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+};
+
+const datesInOrder = ({ from, to }: { from?: string; to?: string }) => !from || !to || from <= to;
+const datesOutOfOrder = { message: 'The start date must not be after the end date', path: ['from'] };
+
+export const salesQuerySchema = z.object({
+  ...salesDates,
+  groupBy: z.enum(SALES_GROUPINGS).default('day'), // Weeks start on Monday
+}).refine(datesInOrder, datesOutOfOrder);
+
+// GET /api/creators/:userId/purchases query string: the sales dashboard's
+// dates, newest sales first
+export const CREATOR_PURCHASES_LIMIT = 100;
+
+export const creatorPurchasesQuerySchema = z.object(salesDates).refine(datesInOrder, datesOutOfOrder);
+
+export const insertAudioBlobSchema = createInsertSchema(audioBlobs).pick({
+  hash: true,
+  url: true,
+  mimetype: true,
+  size: true,
 });
 
 // Type definitions
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginUser = z.infer<typeof loginUserSchema>;
+
+// A user as exposed over the API, without the password hash
+export type PublicUser = Omit<User, 'password'>;
 
 export type InsertSoundPack = z.infer<typeof insertSoundPackSchema>;
 export type SoundPack = typeof soundPacks.$inferSelect;
+export type UpdateSoundPack = z.infer<typeof updateSoundPackSchema>;
+export type NewSoundPack = z.infer<typeof newSoundPackSchema>;
 
 export type InsertSound = z.infer<typeof insertSoundSchema>;
 export type Sound = typeof sounds.$inferSelect;
+export type UpdateSound = z.infer<typeof updateSoundSchema>;
+
+export type Tag = typeof tags.$inferSelect;
+
+// A tag with the number of packs carrying it, for faceted browsing
+export type TagFacet = Tag & { count: number };
 
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Review = typeof reviews.$inferSelect;
+export type UpdateReview = z.infer<typeof updateReviewSchema>;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export type InsertReviewReport = z.infer<typeof insertReviewReportSchema>;
+export type ReviewReport = typeof reviewReports.$inferSelect;
+
+// A review as shown to moderators, with what it's about, who wrote it and
+// every report against it
+export type ModeratedReview = Review & {
+  soundPack: Pick<SoundPack, 'id' | 'name'>;
+  author: Pick<User, 'id' | 'username'>;
+  reports: ReviewReport[];
+};
 
 export type InsertPurchase = z.infer<typeof insertPurchaseSchema>;
 export type Purchase = typeof purchases.$inferSelect;
 
+// A purchase with its pack, for the buyer's history; soundPack is missing
+// once the pack is deleted
+export type PurchaseWithPack = Purchase & { soundPack?: SoundPack };
+
+// A sale of one of a creator's packs, for refunding from the dashboard
+export type CreatorPurchase = Purchase & { packName: string; buyer: string };
+export type CreatorPurchasesQueryParams = z.infer<typeof creatorPurchasesQuerySchema>;
+
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+export type DiscountType = typeof DISCOUNT_TYPES[number];
+
+// A coupon with the packs it's limited to (empty when it's for all packs)
+export type CouponWithPacks = Coupon & { packIds: number[] };
+
+export type SalePrice = typeof salePrices.$inferSelect;
+export type InsertSalePrice = z.infer<typeof insertSalePriceSchema>;
+
+// The sale a pack is on right now, shown alongside its list price
+export type ActiveSale = Pick<SalePrice, 'price' | 'endsAt'>;
+export type PricedSoundPack = SoundPack & { sale: ActiveSale | null };
+
+// What a pack costs the buyer at checkout; price is after the discount
+export type PricedPack = {
+  packId: number;
+  name: string;
+  originalPrice: number;
+  discount: number;
+  price: number;
+  couponId: number | null;
+  bundleId: number | null; // The bundle the pack is bought in
+};
+
+export type CartQuote = {
+  items: PricedPack[];
+  couponCode: string | null; // The coupon applied, if any
+  couponError: string | null; // Why the coupon asked for couldn't be applied
+  originalTotal: number;
+  discount: number;
+  total: number;
+};
+export type CartQuoteQueryParams = z.infer<typeof cartQuoteQuerySchema>;
+
+export type Bundle = typeof bundles.$inferSelect;
+export type InsertBundle = z.infer<typeof insertBundleSchema>;
+export type UpdateBundle = z.infer<typeof updateBundleSchema>;
+export type BundleQueryParams = z.infer<typeof bundleQuerySchema>;
+
+// A bundle with its packs, by name
+export type BundleWithPacks = Bundle & { packs: SoundPack[] };
+
+export type CartItem = typeof cartItems.$inferSelect;
+
+// A cart entry as listed to its owner
+export type CartItemWithPack = CartItem & { soundPack: SoundPack };
+
+export type Order = typeof orders.$inferSelect;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+export type OrderWithItems = Order & { items: OrderItem[] };
+export type CheckoutRequest = z.infer<typeof checkoutSchema>;
+export type RedeemRequest = z.infer<typeof redeemSchema>;
+
+// What POST /api/redeem answers: who sent the gift and the packs it gave
+export type GiftRedemption = {
+  from: Pick<User, 'id' | 'username'>;
+  purchases: PurchaseWithPack[];
+};
+
+// As listed by GET /api/payment-methods, for the checkout form
+export type PaymentMethods = {
+  provider: string;
+  methods: { id: string; label: string }[];
+};
+export type PurchaseRequest = z.infer<typeof purchaseSchema>;
+
+export type SalesGrouping = typeof SALES_GROUPINGS[number];
+export type SalesQueryParams = z.infer<typeof salesQuerySchema>;
+
+// Amounts in cents. A sale counts when it was bought and its refund when it
+// was refunded, so a period's refunds can be for sales made before it.
+export type SalesFigures = {
+  revenue: number;
+  units: number;
+  refunds: number;
+  refundedUnits: number;
+  netRevenue: number; // revenue - refunds
+};
+
+export type PackSales = SalesFigures & { packId: number; name: string };
+
+// A day, or a week starting on the given Monday
+export type SalesPeriod = SalesFigures & { start: string };
+
+export type CreatorSales = {
+  from: string;
+  to: string;
+  groupBy: SalesGrouping;
+  totals: SalesFigures;
+  packs: PackSales[]; // Every pack of the creator, and deleted ones sold or refunded in the range, best selling first
+  series: SalesPeriod[]; // Every period in the range, including empty ones
+};
+
+export type InsertAudioBlob = z.infer<typeof insertAudioBlobSchema>;
+export type AudioBlob = typeof audioBlobs.$inferSelect;
+
+export type SoundPackSort = typeof SOUND_PACK_SORTS[number];
+export type SoundPackQueryParams = z.infer<typeof soundPackQuerySchema>;
+
+// One page of a paginated listing
+export type Paginated<T> = {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+};
+
 // Custom type for ADSREnvelope
 export type ADSREnvelope = {
   attack: number;
@@ -123,3 +797,23 @@ export type ADSREnvelope = {
   sustain: number;
   release: number;
 };
+
+// Measurements the server takes from an uploaded sound file
+export type AudioAnalysis = {
+  duration: number;
+  sampleRate: number;
+  channels: number;
+  peak: number;
+  rms: number;
+  leadingSilence: number;
+};
+
+// Min/max sample values per bucket, for drawing a waveform at a given width
+export type WaveformPeaks = {
+  duration: number;
+  levels: {
+    buckets: number;
+    min: number[];
+    max: number[];
+  }[];
+};